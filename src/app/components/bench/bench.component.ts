@@ -0,0 +1,86 @@
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Team, Player } from '../../services/team.service';
+import { GameEngineService, GameState } from '../../services/game-engine.service';
+import { QueuedSubstitution } from '../../engine/match-engine';
+import { environment } from '../../../environments/environment';
+
+@Component({
+  selector: 'app-bench',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="bench" *ngIf="team">
+      <div class="bench-header">
+        <span class="swatch" [style.background]="team.color"></span>
+        <strong>{{team.name}}</strong>
+        <span class="used">{{used}}/{{maxSubs}} subs</span>
+      </div>
+      <div class="sub-form" *ngIf="team.bench?.length && remaining > 0">
+        <select [(ngModel)]="offId" title="Player coming off">
+          <option value="" disabled>Off…</option>
+          <option *ngFor="let p of team.players" [value]="p.id">{{p.name}} ({{roleLabel(p)}})</option>
+        </select>
+        <select [(ngModel)]="onId" title="Substitute coming on">
+          <option value="" disabled>On…</option>
+          <option *ngFor="let p of team.bench" [value]="p.id">{{p.name}} ({{roleLabel(p)}})</option>
+        </select>
+        <button class="sub-btn" (click)="submit()" [disabled]="!offId || !onId">Substitute</button>
+      </div>
+      <div class="queued" *ngFor="let q of queued">⏳ {{playerName(q.onId)}} for {{playerName(q.offId)}} at the next stoppage</div>
+      <div class="note" *ngIf="message">{{message}}</div>
+    </div>
+  `,
+  styles: [`
+    .bench { margin-bottom: 10px; font-size: 0.85rem; }
+    .bench-header { display: flex; align-items: center; gap: 6px; margin-bottom: 4px; }
+    .bench-header .used { margin-left: auto; color: #666; }
+    .sub-form { display: flex; gap: 6px; }
+    .sub-form select { flex: 1; min-width: 0; }
+    .sub-btn { padding: 4px 10px; border: none; border-radius: 6px; background: #667eea; color: #fff; cursor: pointer; }
+    .sub-btn:disabled { background: #ccc; cursor: not-allowed; }
+    .queued, .note { color: #666; font-style: italic; margin-top: 3px; }
+    .swatch { display: inline-block; width: 10px; height: 10px; border-radius: 2px; }
+  `]
+})
+export class BenchComponent {
+  @Input() team: Team | undefined;
+  @Input() side: 'team1' | 'team2' = 'team1';
+  @Input() state: GameState | null = null;
+
+  readonly maxSubs = environment.gameSettings.substitutions.maxSubs;
+  offId = '';
+  onId = '';
+  message = '';
+
+  constructor(private gameEngine: GameEngineService) {}
+
+  get used(): number {
+    return this.state?.substitutions?.used[this.side] ?? 0;
+  }
+
+  get queued(): QueuedSubstitution[] {
+    return this.state?.substitutions?.queued.filter(q => q.side === this.side) ?? [];
+  }
+
+  get remaining(): number {
+    return this.maxSubs - this.used - this.queued.length;
+  }
+
+  submit(): void {
+    if (!this.team) return;
+    const ok = this.gameEngine.requestSubstitution(this.team.id, this.offId, this.onId);
+    this.message = ok ? '' : 'That change is not allowed right now.';
+    if (ok) { this.offId = ''; this.onId = ''; }
+  }
+
+  playerName(id: string): string {
+    const all = [...(this.team?.players ?? []), ...(this.team?.bench ?? [])];
+    return all.find(p => p.id === id)?.name ?? id;
+  }
+
+  roleLabel(p: Player): string {
+    return { goalkeeper: 'GK', defender: 'DEF', midfielder: 'MID', forward: 'FWD' }[p.role];
+  }
+}
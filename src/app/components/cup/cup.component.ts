@@ -0,0 +1,134 @@
+import { Component, Input, Output, EventEmitter, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subscription } from 'rxjs';
+import { Team } from '../../services/team.service';
+import { CupService, CupView } from '../../services/cup.service';
+import { CupTie } from '../../engine/cup';
+
+@Component({
+  selector: 'app-cup',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="cup">
+      <h3>Knockout Cup</h3>
+
+      <div class="cup-setup" *ngIf="!view">
+        <button class="simulate-btn" (click)="create()" [disabled]="teams.length < 2 || disabled">
+          Draw Cup ({{teams.length}} teams)
+        </button>
+      </div>
+
+      <ng-container *ngIf="view">
+        <div class="cup-actions">
+          <button class="cup-btn" (click)="cup.simulateNext()" [disabled]="busy">Sim Next</button>
+          <button class="cup-btn" (click)="cup.simulateBatch('round')" [disabled]="busy">Sim Round</button>
+          <button class="cup-btn" (click)="cup.simulateBatch('cup')" [disabled]="busy">Sim to Final</button>
+          <button class="cup-btn" (click)="watchNext()" [disabled]="busy || disabled">Watch Next Live</button>
+          <button class="cup-btn danger" (click)="cup.close()" [disabled]="!!view.liveTieId">End Cup</button>
+          <span class="status" *ngIf="view.simulating">Simulating…</span>
+          <span class="status champion" *ngIf="view.cup.championId">
+            🏆 {{teamName(view.cup.championId)}} win the cup!
+          </span>
+        </div>
+
+        <div class="bracket">
+          <div class="round" *ngFor="let round of rounds">
+            <h4>{{view.cup.roundName(round)}}</h4>
+            <div class="tie" *ngFor="let tie of view.cup.tiesOf(round)" [class.live]="tie.id === view.liveTieId">
+              <div class="side" [class.winner]="tie.winnerId && tie.winnerId === tie.homeId">
+                <span class="swatch" [style.background]="teamColor(tie.homeId)"></span>
+                <span class="name">{{teamName(tie.homeId)}}</span>
+                <span class="goals">{{tie.result?.home ?? ''}}</span>
+              </div>
+              <div class="side" [class.winner]="tie.winnerId && tie.winnerId === tie.awayId">
+                <span class="swatch" [style.background]="teamColor(tie.awayId)"></span>
+                <span class="name">{{tie.bye ? 'bye' : teamName(tie.awayId)}}</span>
+                <span class="goals">{{tie.result?.away ?? ''}}</span>
+              </div>
+              <div class="note" *ngIf="tieNote(tie) as note">{{note}}</div>
+            </div>
+          </div>
+        </div>
+      </ng-container>
+    </div>
+  `,
+  styles: [`
+    .cup { margin-top: 30px; }
+    .cup h3 { margin-bottom: 10px; }
+    .cup-setup, .cup-actions { display: flex; flex-wrap: wrap; gap: 10px; align-items: center; margin-bottom: 12px; }
+    .cup-btn { padding: 6px 12px; border: none; border-radius: 8px; background: #667eea; color: #fff; cursor: pointer; }
+    .cup-btn:disabled { background: #ccc; cursor: not-allowed; }
+    .cup-btn.danger { background: #dc3545; }
+    .status { color: #666; font-style: italic; }
+    .status.champion { color: #b8860b; font-style: normal; font-weight: 700; }
+    .bracket { display: flex; gap: 16px; overflow-x: auto; padding-bottom: 8px; }
+    .round { display: flex; flex-direction: column; justify-content: space-around; gap: 10px; min-width: 190px; }
+    .round h4 { text-align: center; color: #555; font-size: 0.9rem; }
+    .tie { border: 1px solid #ddd; border-radius: 6px; padding: 4px 6px; font-size: 0.85rem; background: #fafafa; }
+    .tie.live { border-color: #dc3545; }
+    .side { display: grid; grid-template-columns: 12px 1fr 24px; gap: 6px; align-items: center; padding: 2px 0; color: #666; }
+    .side.winner { color: #222; font-weight: 700; }
+    .goals { text-align: right; }
+    .note { font-size: 0.75rem; color: #888; text-align: right; }
+    .swatch { display: inline-block; width: 10px; height: 10px; border-radius: 2px; }
+  `]
+})
+export class CupComponent implements OnInit, OnDestroy {
+  @Input() teams: Team[] = [];
+  @Input() seed = 1;
+  @Input() duration = 45;
+  @Input() disabled = false; // a live match is running
+  @Output() watchTie = new EventEmitter<CupTie>();
+
+  view: CupView | null = null;
+
+  private subscriptions: Subscription[] = [];
+
+  constructor(public cup: CupService) {}
+
+  ngOnInit(): void {
+    this.subscriptions.push(
+      this.cup.getView().subscribe(view => this.view = view)
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.forEach(sub => sub.unsubscribe());
+  }
+
+  get busy(): boolean {
+    return !this.view || this.view.simulating || !!this.view.liveTieId || this.view.cup.isComplete;
+  }
+
+  get rounds(): number[] {
+    return this.view ? Array.from({ length: this.view.cup.roundCount }, (_, i) => i + 1) : [];
+  }
+
+  create(): void {
+    this.cup.createCup(this.teams, this.seed, this.duration);
+  }
+
+  watchNext(): void {
+    const tie = this.view?.cup.nextTie();
+    if (!tie) return;
+    this.cup.beginLive(tie);
+    this.watchTie.emit(tie);
+  }
+
+  teamName(id: string | null): string {
+    if (!id) return 'TBD';
+    return this.view?.cup.team(id)?.name ?? id;
+  }
+
+  teamColor(id: string | null): string {
+    return this.view?.cup.team(id)?.color ?? 'transparent';
+  }
+
+  tieNote(tie: CupTie): string | null {
+    if (tie.id === this.view?.liveTieId) return 'LIVE';
+    if (!tie.result) return null;
+    if (tie.result.shootout) return `aet, ${tie.result.shootout.home}–${tie.result.shootout.away} pens`;
+    return tie.result.extraTime ? 'aet' : null;
+  }
+}
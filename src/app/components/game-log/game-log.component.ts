@@ -1,4 +1,4 @@
-import { Component, Input, OnInit, OnDestroy, OnChanges, SimpleChanges } from '@angular/core';
+import { Component, Input, Output, EventEmitter, OnInit, OnDestroy, OnChanges, SimpleChanges } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { GameEvent } from '../../services/team.service';
 
@@ -13,6 +13,9 @@ import { GameEvent } from '../../services/team.service';
         <div 
           *ngFor="let event of events; let i = index; trackBy: trackByIndex" 
           [class]="'log-entry ' + event.type"
+          [class.selectable]="selectable"
+          [class.active]="i === activeIndex"
+          (click)="selectEvent(i)"
         >
           <strong>{{event.displayTime || formatTime(event.time)}}</strong> - {{event.description}}
         </div>
@@ -63,10 +66,22 @@ import { GameEvent } from '../../services/team.service';
       transform: translateX(5px);
       box-shadow: 0 2px 8px rgba(0,0,0,0.1);
     }
+
+    .log-entry.selectable {
+      cursor: pointer;
+    }
+
+    .log-entry.active {
+      outline: 2px solid #667eea;
+    }
   `]
 })
 export class GameLogComponent implements OnInit, OnDestroy, OnChanges {
   @Input() events: GameEvent[] = [];
+  // Replay mode: entries become clickable and the latest played event is highlighted
+  @Input() selectable = false;
+  @Input() activeIndex = -1;
+  @Output() eventSelected = new EventEmitter<number>();
   
   private lastEventCount = 0;
 
@@ -80,12 +95,17 @@ export class GameLogComponent implements OnInit, OnDestroy, OnChanges {
 
   ngOnChanges(changes: SimpleChanges): void {
     // Auto-scroll to bottom when new events are added
+    if (this.events.length < this.lastEventCount) this.lastEventCount = 0; // new match or replay loaded
     if (this.events.length > this.lastEventCount) {
       this.lastEventCount = this.events.length;
       setTimeout(() => this.scrollToBottom(), 100);
     }
   }
 
+  selectEvent(index: number): void {
+    if (this.selectable) this.eventSelected.emit(index);
+  }
+
   trackByIndex(index: number, item: GameEvent): number {
     return index;
   }
@@ -5,13 +5,34 @@ import { GameEngineService, GameState } from '../../services/game-engine.service
 import { environment } from 'src/environments/environment';
 import { SoccerFieldComponent } from '../soccer-field/soccer-field.component';
 import { GameLogComponent } from '../game-log/game-log.component';
+import { ReplayControlsComponent } from '../replay-controls/replay-controls.component';
+import { ReplayService, ReplayView } from '../../services/replay.service';
+import { MatchRecording } from '../../engine/match-recorder';
+import { LeagueComponent } from '../league/league.component';
+import { LeagueService } from '../../services/league.service';
+import { Fixture } from '../../engine/league';
+import { CupComponent } from '../cup/cup.component';
+import { BenchComponent } from '../bench/bench.component';
+import { TeamEditorComponent } from '../team-editor/team-editor.component';
+import { TacticsComponent } from '../tactics/tactics.component';
+import { MatchStatsComponent } from '../match-stats/match-stats.component';
+import { MatchAnalyticsComponent } from '../match-analytics/match-analytics.component';
+import { MatchExportComponent } from '../match-export/match-export.component';
+import { TeamStoreService } from '../../services/team-store.service';
+import { CupService } from '../../services/cup.service';
+import { CupTie } from '../../engine/cup';
+import { statsByPeriod, PeriodStats } from '../../engine/match-stats';
 import { FormsModule } from '@angular/forms';
 import { CommonModule } from '@angular/common';
+import { resolveSeed } from '../../engine/seeded-random';
+import { Weather, MatchTactics } from '../../engine/match-engine';
+import { TeamTactics, DEFAULT_TACTICS } from '../../engine/tactics';
+import { PITCH } from '../../engine/pitch';
 
 @Component({
   selector: 'app-game-simulator',
   standalone: true,
-  imports: [SoccerFieldComponent, GameLogComponent, FormsModule, CommonModule],
+  imports: [SoccerFieldComponent, GameLogComponent, ReplayControlsComponent, LeagueComponent, CupComponent, BenchComponent, TeamEditorComponent, TacticsComponent, MatchStatsComponent, MatchAnalyticsComponent, MatchExportComponent, FormsModule, CommonModule],
   template: `
     <div class="controls">
       <div class="team-selector">
@@ -37,6 +58,29 @@ import { CommonModule } from '@angular/common';
         >
       </div>
 
+      <div class="duration-selector">
+        <label for="seed">Seed</label>
+        <input
+          type="number"
+          id="seed"
+          [(ngModel)]="seed"
+          (change)="applySeed()"
+          [disabled]="isGameRunning"
+          min="1"
+          step="1"
+          title="Same seed = same teams and same match"
+        >
+      </div>
+
+      <div class="duration-selector">
+        <label for="weather">Weather</label>
+        <select id="weather" [(ngModel)]="weather" [disabled]="isGameRunning">
+          <option value="clear">Clear</option>
+          <option value="rain">Rain</option>
+          <option value="heat">Heat</option>
+        </select>
+      </div>
+
       <div class="team-selector">
         <label for="team2">Team 2</label>
         <select id="team2" [(ngModel)]="selectedTeam2" [disabled]="isGameRunning">
@@ -48,6 +92,13 @@ import { CommonModule } from '@angular/common';
       </div>
     </div>
 
+    <div class="tactics-panels" *ngIf="!replay && fieldTeam1 && fieldTeam2">
+      <app-tactics [team]="fieldTeam1" [tactics]="teamTactics('team1')" [live]="isGameRunning"
+                   (tacticsChange)="changeTactics('team1', $event)"></app-tactics>
+      <app-tactics [team]="fieldTeam2" [tactics]="teamTactics('team2')" [live]="isGameRunning"
+                   (tacticsChange)="changeTactics('team2', $event)"></app-tactics>
+    </div>
+
     <div class="simulate-controls">
       <button 
         class="simulate-btn" 
@@ -65,18 +116,60 @@ import { CommonModule } from '@angular/common';
       >
         Stop Game
       </button>
+
+      <button
+        class="simulate-btn replay-toggle"
+        (click)="watchReplay()"
+        *ngIf="recording && !isGameRunning && !replay"
+      >
+        Watch Replay
+      </button>
+
+      <button
+        class="simulate-btn replay-toggle"
+        (click)="downloadRecording()"
+        *ngIf="recording && !isGameRunning"
+      >
+        Download Match File
+      </button>
+
+      <label class="simulate-btn replay-toggle file-btn" *ngIf="!isGameRunning">
+        Load Match File
+        <input type="file" accept=".json,application/json" (change)="loadRecordingFile($event)" hidden>
+      </label>
+
+      <button
+        class="simulate-btn stop-btn"
+        (click)="exitReplay()"
+        *ngIf="replay"
+      >
+        Exit Replay
+      </button>
+    </div>
+
+    <app-replay-controls *ngIf="replay" [view]="replay"></app-replay-controls>
+
+    <div class="timer" [class.finished]="displayState.timeRemaining === 0 && !isGameRunning">
+      {{displayState.clockLabel ?? formatTime(displayState.timeRemaining)}}
+      <span class="period" *ngIf="displayState.extraTime && displayState.phase !== 'penalties' && displayState.phase !== 'finished'">ET</span>
+      <span class="period" *ngIf="displayState.clockLabel && displayState.phase !== 'finished'">{{formatTime(displayState.timeRemaining)}} left</span>
+    </div>
+    <div class="match-seed" *ngIf="displayState.seed != null">
+      {{replay ? 'Replay' : 'Match'}} seed: <strong>{{displayState.seed}}</strong>
+      <span class="weather" *ngIf="displayState.weather">{{weatherLabel(displayState.weather)}}</span>
     </div>
 
-    <div class="timer" [class.finished]="gameState.timeRemaining === 0 && !isGameRunning">
-      {{formatTime(gameState.timeRemaining)}}
+    <div class="field-options">
+      <label><input type="checkbox" [(ngModel)]="showOffsideLines"> Show offside lines</label>
     </div>
 
     <div class="game-area">
       <div class="field-container">
         <app-soccer-field 
-          [team1]="getTeamById(selectedTeam1)" 
-          [team2]="getTeamById(selectedTeam2)"
-          [gameState]="gameState">
+          [team1]="fieldTeam1" 
+          [team2]="fieldTeam2"
+          [gameState]="displayState"
+          [showOffsideLines]="showOffsideLines">
         </app-soccer-field>
       </div>
       
@@ -85,22 +178,104 @@ import { CommonModule } from '@angular/common';
           <h3>Score</h3>
           <div class="score-display">
             <div class="team-score">
-              <div class="team-name">{{getTeamById(selectedTeam1)?.name || 'Team 1'}}</div>
-              <div class="score">{{gameState.score.team1}}</div>
+              <div class="team-name">{{fieldTeam1?.name || 'Team 1'}}</div>
+              <div class="score">{{displayState.score.team1}}</div>
+              <div class="cards" *ngIf="displayState.cards as cards">
+                <span *ngIf="cards.team1.yellow">🟨 {{cards.team1.yellow}}</span>
+                <span *ngIf="cards.team1.red">🟥 {{cards.team1.red}}</span>
+              </div>
+            </div>
+            <div class="vs">
+              VS
+              <div class="pens" *ngIf="shootoutScore() as pens">({{pens}} pens)</div>
+              <div class="pens" *ngIf="halftimeScore() as ht">HT {{ht}}</div>
             </div>
-            <div class="vs">VS</div>
             <div class="team-score">
-              <div class="team-name">{{getTeamById(selectedTeam2)?.name || 'Team 2'}}</div>
-              <div class="score">{{gameState.score.team2}}</div>
+              <div class="team-name">{{fieldTeam2?.name || 'Team 2'}}</div>
+              <div class="score">{{displayState.score.team2}}</div>
+              <div class="cards" *ngIf="displayState.cards as cards">
+                <span *ngIf="cards.team2.yellow">🟨 {{cards.team2.yellow}}</span>
+                <span *ngIf="cards.team2.red">🟥 {{cards.team2.red}}</span>
+              </div>
             </div>
           </div>
         </div>
+
+        <app-match-stats [team1]="fieldTeam1" [team2]="fieldTeam2" [state]="displayState"></app-match-stats>
         
-        <app-game-log [events]="gameState.events"></app-game-log>
+        <table class="period-stats" *ngIf="periodStats().length">
+          <thead>
+            <tr><th></th><th>Goals</th><th>Shots</th><th>Passes</th><th>Fouls</th></tr>
+          </thead>
+          <tbody>
+            <ng-container *ngFor="let row of periodStats()">
+              <tr class="period-row"><td colspan="5">{{row.label}}</td></tr>
+              <tr>
+                <td class="team">{{fieldTeam1?.name}}</td>
+                <td>{{row.team1.goals}}</td><td>{{row.team1.shots}}</td><td>{{row.team1.passes}}</td><td>{{row.team1.fouls}}</td>
+              </tr>
+              <tr>
+                <td class="team">{{fieldTeam2?.name}}</td>
+                <td>{{row.team2.goals}}</td><td>{{row.team2.shots}}</td><td>{{row.team2.passes}}</td><td>{{row.team2.fouls}}</td>
+              </tr>
+            </ng-container>
+          </tbody>
+        </table>
+
+        <div class="benches" *ngIf="!replay && isGameRunning">
+          <app-bench [team]="fieldTeam1" side="team1" [state]="gameState"></app-bench>
+          <app-bench [team]="fieldTeam2" side="team2" [state]="gameState"></app-bench>
+        </div>
+
+        <app-game-log
+          [events]="replay ? replay.recording.events : gameState.events"
+          [selectable]="!!replay"
+          [activeIndex]="replay ? replay.gameState.events.length - 1 : -1"
+          (eventSelected)="replayService.seekToEvent($event)">
+        </app-game-log>
       </div>
     </div>
+
+    <ng-container *ngIf="!isGameRunning">
+      <app-match-analytics [recording]="replay ? replay.recording : recording"></app-match-analytics>
+      <app-match-export
+        [recording]="replay ? replay.recording : recording"
+        [teams]="fieldTeam1 && fieldTeam2 ? [fieldTeam1, fieldTeam2] : null">
+      </app-match-export>
+    </ng-container>
+
+    <app-league
+      [teams]="availableTeams"
+      [seed]="seed"
+      [duration]="gameDuration"
+      [disabled]="isGameRunning"
+      (watchFixture)="watchLeagueFixture($event)">
+    </app-league>
+
+    <app-cup
+      [teams]="availableTeams"
+      [seed]="seed"
+      [duration]="gameDuration"
+      [disabled]="isGameRunning"
+      (watchTie)="watchCupTie($event)">
+    </app-cup>
+
+    <app-team-editor
+      [teams]="availableTeams"
+      [disabled]="isGameRunning"
+      (teamsChange)="useTeams($event)"
+      (reset)="applySeed()">
+    </app-team-editor>
   `,
   styles: [`
+    .tactics-panels {
+      display: grid;
+      grid-template-columns: 1fr 1fr;
+      gap: 30px;
+      max-width: 900px;
+      margin: 0 auto 10px;
+    }
+
     .simulate-controls {
       display: flex;
       justify-content: center;
@@ -115,6 +290,75 @@ import { CommonModule } from '@angular/common';
     .stop-btn:hover:not(:disabled) {
       background: linear-gradient(45deg, #c82333, #bd2130) !important;
     }
+
+    .replay-toggle {
+      background: linear-gradient(45deg, #667eea, #764ba2) !important;
+    }
+
+    .file-btn {
+      display: inline-flex;
+      align-items: center;
+      cursor: pointer;
+    }
+
+    .period {
+      font-size: 0.6em;
+      margin-left: 8px;
+      vertical-align: middle;
+    }
+
+    .pens {
+      font-size: 0.8rem;
+      font-weight: 400;
+    }
+
+    .cards {
+      display: flex;
+      justify-content: center;
+      gap: 8px;
+      min-height: 1.2em;
+      font-size: 0.85rem;
+    }
+
+    .period-stats {
+      width: 100%;
+      border-collapse: collapse;
+      font-size: 0.85rem;
+      margin-bottom: 15px;
+    }
+
+    .period-stats th, .period-stats td {
+      padding: 3px 6px;
+      text-align: center;
+      border-bottom: 1px solid #eee;
+    }
+
+    .period-stats .team {
+      text-align: left;
+    }
+
+    .period-stats .period-row td {
+      text-align: left;
+      font-weight: 600;
+      color: #666;
+    }
+
+    .match-seed {
+      text-align: center;
+      color: #666;
+      margin-top: -10px;
+      margin-bottom: 15px;
+    }
+
+    .match-seed .weather {
+      margin-left: 12px;
+    }
+
+    .field-options {
+      text-align: center;
+      color: #666;
+      margin-bottom: 10px;
+    }
   `]
 })
 export class GameSimulatorComponent implements OnInit, OnDestroy {
@@ -122,33 +366,75 @@ export class GameSimulatorComponent implements OnInit, OnDestroy {
   selectedTeam1: string = '';
   selectedTeam2: string = '';
   gameDuration: number = environment.gameSettings.defaultGameDuration;
+  // One seed drives team generation and every match played from this screen
+  seed: number = resolveSeed(environment.gameSettings.randomSeed);
+  weather: Weather = environment.gameSettings.weather;
+  showOffsideLines: boolean = environment.gameSettings.offside.showLines;
+  // Formation and sliders each side starts the next match with
+  tactics: MatchTactics = { team1: { ...DEFAULT_TACTICS }, team2: { ...DEFAULT_TACTICS } };
   isGameRunning: boolean = false;
   
   gameState: GameState = {
     isRunning: false,
     timeRemaining: 0,
     score: { team1: 0, team2: 0 },
-    ball: { x: 450, y: 300, vx: 0, vy: 0 },
+    ball: { x: PITCH.length / 2, y: PITCH.width / 2, vx: 0, vy: 0 },
     events: [],
     currentBallOwner: null,
     phase: 'kickoff'
   };
 
+  // Replay of the last match (or a loaded match file)
+  recording: MatchRecording | null = null;
+  replay: ReplayView | null = null;
+
   private subscriptions: Subscription[] = [];
+  // statsByPeriod result for the last events array seen (change detection calls periodStats() often)
+  private periodStatsEvents: GameState['events'] | null = null;
+  private periodStatsCache: PeriodStats[] = [];
 
   constructor(
     private teamService: TeamService,
-    private gameEngine: GameEngineService
+    private gameEngine: GameEngineService,
+    public replayService: ReplayService,
+    private leagueService: LeagueService,
+    private cupService: CupService,
+    private teamStore: TeamStoreService
   ) {}
 
+  /** Teams and state shown on the field: the replay when one is open, otherwise the live match */
+  get fieldTeam1(): Team | undefined {
+    return this.replay ? this.replay.team1 : this.getTeamById(this.selectedTeam1);
+  }
+
+  get fieldTeam2(): Team | undefined {
+    return this.replay ? this.replay.team2 : this.getTeamById(this.selectedTeam2);
+  }
+
+  get displayState(): GameState {
+    return this.replay ? this.replay.gameState : this.gameState;
+  }
+
   ngOnInit(): void {
-    this.availableTeams = this.teamService.generateRandomTeams();
+    // Teams saved from the editor win over the generated pool
+    this.availableTeams = this.teamStore.load() ?? this.teamService.generateRandomTeams(this.seed);
     
     // Subscribe to game state changes
     this.subscriptions.push(
       this.gameEngine.getGameState().subscribe(state => {
         this.gameState = state;
         this.isGameRunning = state.isRunning;
+        // A league fixture or cup tie watched live counts once the final whistle blows
+        if (state.phase === 'finished') {
+          this.leagueService.reportLiveResult(state.score);
+          this.cupService.reportLiveResult(state);
+        }
+      }),
+      this.gameEngine.getRecording().subscribe(recording => {
+        this.recording = recording;
+      }),
+      this.replayService.getView().subscribe(view => {
+        this.replay = view;
       })
     );
   }
@@ -156,6 +442,7 @@ export class GameSimulatorComponent implements OnInit, OnDestroy {
   ngOnDestroy(): void {
     this.subscriptions.forEach(sub => sub.unsubscribe());
     this.gameEngine.stopGame();
+    this.replayService.close();
   }
 
   canStartGame(): boolean {
@@ -172,12 +459,149 @@ export class GameSimulatorComponent implements OnInit, OnDestroy {
     const team2 = this.getTeamById(this.selectedTeam2);
 
     if (team1 && team2) {
-      this.gameEngine.startGame(team1, team2, this.gameDuration);
+      this.replayService.close();
+      this.leagueService.cancelLive();
+      this.cupService.cancelLive();
+      this.gameEngine.startGame(team1, team2, this.gameDuration, this.seed, { weather: this.weather, tactics: this.tactics });
+    }
+  }
+
+  /** The running match's tactics while live, otherwise the set-up for the next match */
+  teamTactics(side: 'team1' | 'team2'): TeamTactics {
+    return this.isGameRunning && this.gameState.tactics ? this.gameState.tactics[side] : this.tactics[side];
+  }
+
+  /** Before kickoff this edits the set-up; during a match it instructs the team (a new formation is announced) */
+  changeTactics(side: 'team1' | 'team2', tactics: TeamTactics): void {
+    const team = side === 'team1' ? this.fieldTeam1 : this.fieldTeam2;
+    if (!this.isGameRunning) {
+      this.tactics = { ...this.tactics, [side]: tactics };
+    } else if (team) {
+      const { formation, ...sliders } = tactics;
+      this.gameEngine.setTactics(team.id, formation !== this.gameState.tactics?.[side].formation ? tactics : sliders);
     }
   }
 
+  watchReplay(): void {
+    if (this.recording) this.replayService.load(this.recording);
+  }
+
+  exitReplay(): void {
+    this.replayService.close();
+  }
+
+  downloadRecording(): void {
+    if (!this.recording) return;
+    const [t1, t2] = this.recording.teams;
+    const blob = new Blob([this.replayService.serialize(this.recording)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `match-${t1.name}-vs-${t2.name}-seed${this.recording.seed ?? 'x'}.json`.replace(/\s+/g, '_');
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  loadRecordingFile(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+    file.text().then(text => {
+      try {
+        const recording = this.replayService.parse(text);
+        this.recording = recording;
+        this.replayService.load(recording);
+      } catch (err) {
+        console.error('Could not load match file:', err);
+        alert('That file is not a match recording.');
+      }
+      input.value = '';
+    });
+  }
+
+  /** Regenerate the team pool from the entered seed (keeps selections by id) */
+  applySeed(): void {
+    if (this.isGameRunning) return;
+    this.seed = resolveSeed(this.seed);
+    this.leagueService.close(); // a season is tied to the team pool it was created from
+    this.cupService.close();
+    this.availableTeams = this.teamService.generateRandomTeams(this.seed);
+  }
+
+  /** Switch to an edited or imported pool (keeps selections that still exist) */
+  useTeams(teams: Team[]): void {
+    if (this.isGameRunning) return;
+    this.leagueService.close(); // a season is tied to the team pool it was created from
+    this.cupService.close();
+    this.availableTeams = teams;
+    if (!this.getTeamById(this.selectedTeam1)) this.selectedTeam1 = '';
+    if (!this.getTeamById(this.selectedTeam2)) this.selectedTeam2 = '';
+  }
+
   stopSimulation(): void {
     this.gameEngine.stopGame();
+    this.leagueService.cancelLive();
+    this.cupService.cancelLive();
+  }
+
+  /** Play a league fixture on the live field with the fixture's own seed */
+  watchLeagueFixture(fixture: Fixture): void {
+    const home = this.getTeamById(fixture.homeId);
+    const away = this.getTeamById(fixture.awayId);
+    if (!home || !away) {
+      this.leagueService.cancelLive();
+      return;
+    }
+    this.selectedTeam1 = home.id;
+    this.selectedTeam2 = away.id;
+    this.replayService.close();
+    const duration = this.leagueService.season?.options.duration ?? this.gameDuration;
+    this.gameEngine.startGame(home, away, duration, fixture.seed);
+  }
+
+  /** Play a cup tie live: a draw goes to extra time and penalties */
+  watchCupTie(tie: CupTie): void {
+    const home = this.getTeamById(tie.homeId ?? '');
+    const away = this.getTeamById(tie.awayId ?? '');
+    if (!home || !away) {
+      this.cupService.cancelLive();
+      return;
+    }
+    this.selectedTeam1 = home.id;
+    this.selectedTeam2 = away.id;
+    this.replayService.close();
+    const duration = this.cupService.cup?.options.duration ?? this.gameDuration;
+    this.gameEngine.startGame(home, away, duration, tie.seed, { knockout: true });
+  }
+
+  /** Score at the break, shown once the second half has started */
+  halftimeScore(): string | null {
+    const state = this.displayState;
+    if ((state.half ?? 1) < 2 && state.phase !== 'halftime') return null;
+    const [first] = this.periodStats();
+    return first ? `${first.team1.goals}–${first.team2.goals}` : null;
+  }
+
+  /** Goals, shots, passes and fouls split by half (and extra time) */
+  periodStats(): PeriodStats[] {
+    const events = this.displayState.events;
+    if (events !== this.periodStatsEvents) {
+      this.periodStatsEvents = events;
+      this.periodStatsCache = statsByPeriod(events, this.fieldTeam1?.name ?? '', this.fieldTeam2?.name ?? '');
+    }
+    return this.periodStatsCache;
+  }
+
+  weatherLabel(weather: Weather): string {
+    return weather === 'rain' ? '🌧️ Rain' : weather === 'heat' ? '☀️ Heat' : '🌤️ Clear';
+  }
+
+  /** Penalty shootout tally for the scoreboard, e.g. "4–3" */
+  shootoutScore(): string | null {
+    const shootout = this.displayState.shootout;
+    if (!shootout) return null;
+    const goals = (kicks: string[]) => kicks.filter(k => k === 'goal').length;
+    return `${goals(shootout.team1)}–${goals(shootout.team2)}`;
   }
 
   getTeamById(id: string): Team | undefined {
@@ -0,0 +1,141 @@
+import { Component, Input, Output, EventEmitter, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { Team } from '../../services/team.service';
+import { LeagueService, LeagueView } from '../../services/league.service';
+import { Fixture } from '../../engine/league';
+
+@Component({
+  selector: 'app-league',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="league">
+      <h3>League Mode</h3>
+
+      <div class="league-setup" *ngIf="!view">
+        <label><input type="radio" name="legs" [value]="false" [(ngModel)]="double"> Single round-robin</label>
+        <label><input type="radio" name="legs" [value]="true" [(ngModel)]="double"> Double round-robin</label>
+        <button class="simulate-btn" (click)="create()" [disabled]="teams.length < 2 || disabled">
+          Create Season ({{teams.length}} teams)
+        </button>
+      </div>
+
+      <ng-container *ngIf="view">
+        <div class="league-actions">
+          <button class="league-btn" (click)="league.simulateNext()" [disabled]="busy">Sim Next</button>
+          <button class="league-btn" (click)="league.simulateBatch('round')" [disabled]="busy">Sim Round</button>
+          <button class="league-btn" (click)="league.simulateBatch('season')" [disabled]="busy">Sim Season</button>
+          <button class="league-btn" (click)="watchNext()" [disabled]="busy || disabled">Watch Next Live</button>
+          <button class="league-btn danger" (click)="league.close()" [disabled]="!!view.liveFixtureId">End Season</button>
+        </div>
+
+        <div class="round-nav">
+          <button class="league-btn" (click)="shownRound = roundToShow - 1" [disabled]="roundToShow <= 1">‹</button>
+          <span>Matchday {{roundToShow}} / {{view.season.roundCount}}</span>
+          <button class="league-btn" (click)="shownRound = roundToShow + 1" [disabled]="roundToShow >= view.season.roundCount">›</button>
+          <span class="status" *ngIf="view.simulating">Simulating…</span>
+          <span class="status" *ngIf="view.season.isComplete">Season complete</span>
+        </div>
+
+        <ul class="fixtures">
+          <li *ngFor="let f of fixturesOf(roundToShow)" [class.live]="f.id === view.liveFixtureId">
+            <span class="home">{{teamName(f.homeId)}}</span>
+            <span class="result">{{f.result ? f.result.home + ' - ' + f.result.away : (f.id === view.liveFixtureId ? 'LIVE' : 'vs')}}</span>
+            <span class="away">{{teamName(f.awayId)}}</span>
+          </li>
+        </ul>
+
+        <table class="standings">
+          <thead>
+            <tr><th>#</th><th class="team">Team</th><th>P</th><th>W</th><th>D</th><th>L</th><th>GF</th><th>GA</th><th>GD</th><th>Pts</th></tr>
+          </thead>
+          <tbody>
+            <tr *ngFor="let row of view.standings; let i = index">
+              <td>{{i + 1}}</td>
+              <td class="team"><span class="swatch" [style.background]="row.color"></span>{{row.name}}</td>
+              <td>{{row.played}}</td><td>{{row.won}}</td><td>{{row.drawn}}</td><td>{{row.lost}}</td>
+              <td>{{row.goalsFor}}</td><td>{{row.goalsAgainst}}</td><td>{{row.goalDifference}}</td>
+              <td><strong>{{row.points}}</strong></td>
+            </tr>
+          </tbody>
+        </table>
+      </ng-container>
+    </div>
+  `,
+  styles: [`
+    .league { margin-top: 30px; }
+    .league h3 { margin-bottom: 10px; }
+    .league-setup, .league-actions, .round-nav { display: flex; flex-wrap: wrap; gap: 10px; align-items: center; margin-bottom: 12px; }
+    .league-btn { padding: 6px 12px; border: none; border-radius: 8px; background: #667eea; color: #fff; cursor: pointer; }
+    .league-btn:disabled { background: #ccc; cursor: not-allowed; }
+    .league-btn.danger { background: #dc3545; }
+    .status { color: #666; font-style: italic; }
+    .fixtures { list-style: none; margin-bottom: 15px; }
+    .fixtures li { display: grid; grid-template-columns: 1fr 70px 1fr; gap: 8px; padding: 3px 0; }
+    .fixtures li.live { font-weight: 700; color: #dc3545; }
+    .fixtures .home { text-align: right; }
+    .fixtures .result { text-align: center; }
+    .standings { width: 100%; border-collapse: collapse; font-size: 0.9rem; }
+    .standings th, .standings td { padding: 4px 6px; text-align: center; border-bottom: 1px solid #eee; }
+    .standings .team { text-align: left; }
+    .swatch { display: inline-block; width: 10px; height: 10px; margin-right: 6px; border-radius: 2px; }
+  `]
+})
+export class LeagueComponent implements OnInit, OnDestroy {
+  @Input() teams: Team[] = [];
+  @Input() seed = 1;
+  @Input() duration = 45;
+  @Input() disabled = false; // a live match is running
+  @Output() watchFixture = new EventEmitter<Fixture>();
+
+  view: LeagueView | null = null;
+  double = false;
+  shownRound: number | null = null;
+
+  private subscriptions: Subscription[] = [];
+
+  constructor(public league: LeagueService) {}
+
+  ngOnInit(): void {
+    this.subscriptions.push(
+      this.league.getView().subscribe(view => {
+        // Follow the season's progress unless the user browsed to another matchday
+        if (!view || (this.view && this.shownRound === this.view.currentRound)) this.shownRound = null;
+        this.view = view;
+      })
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.forEach(sub => sub.unsubscribe());
+  }
+
+  get busy(): boolean {
+    return !this.view || this.view.simulating || !!this.view.liveFixtureId || this.view.season.isComplete;
+  }
+
+  get roundToShow(): number {
+    return this.shownRound ?? this.view?.currentRound ?? 1;
+  }
+
+  create(): void {
+    this.league.createSeason(this.teams, this.double, this.seed, this.duration);
+  }
+
+  watchNext(): void {
+    const fixture = this.view?.season.nextFixture();
+    if (!fixture) return;
+    this.league.beginLive(fixture);
+    this.watchFixture.emit(fixture);
+  }
+
+  fixturesOf(round: number): Fixture[] {
+    return this.view ? this.view.season.fixtures.filter(f => f.round === round) : [];
+  }
+
+  teamName(id: string): string {
+    return this.view?.season.team(id)?.name ?? id;
+  }
+}
@@ -0,0 +1,236 @@
+import { Component, Input, OnChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MatchRecording } from '../../engine/match-recorder';
+import {
+  Side, ShotPoint, ShotOutcome, PassNetwork, Heatmap, XgTimeline,
+  shotMap, passNetwork, heatmap, xgTimeline
+} from '../../engine/match-analytics';
+import { PITCH, PitchProjection } from '../../engine/pitch';
+import { environment } from '../../../environments/environment';
+
+type Tab = 'shots' | 'passes' | 'heatmap' | 'xg';
+
+@Component({
+  selector: 'app-match-analytics',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="analytics" *ngIf="recording">
+      <h3>Match Analytics</h3>
+
+      <div class="toolbar">
+        <button *ngFor="let t of tabs" class="tab" [class.active]="tab === t.id" (click)="tab = t.id">{{t.label}}</button>
+        <select *ngIf="tab === 'passes' || tab === 'heatmap'" [ngModel]="side" (ngModelChange)="selectSide($event)">
+          <option value="team1">{{recording.teams[0].name}}</option>
+          <option value="team2">{{recording.teams[1].name}}</option>
+        </select>
+        <select *ngIf="tab === 'heatmap'" [ngModel]="playerId" (ngModelChange)="selectPlayer($event)">
+          <option value="">Whole team (outfield)</option>
+          <option *ngFor="let p of recording.teams[side === 'team1' ? 0 : 1].players" [value]="p.id">{{p.name}}</option>
+        </select>
+        <label *ngIf="tab === 'passes'" class="min-links">
+          Min. passes
+          <input type="number" min="1" max="20" [(ngModel)]="minLinkCount">
+        </label>
+      </div>
+
+      <svg *ngIf="tab !== 'xg'" class="pitch" [attr.viewBox]="'0 0 ' + W + ' ' + H">
+        <rect x="0" y="0" [attr.width]="W" [attr.height]="H" fill="#2f7d32"></rect>
+        <g class="markings" fill="none" stroke="rgba(255,255,255,0.7)" stroke-width="2">
+          <rect [attr.x]="view.x(0)" [attr.y]="view.y(0)" [attr.width]="view.length(pitch.length)" [attr.height]="view.length(pitch.width)"></rect>
+          <line [attr.x1]="view.x(pitch.length / 2)" [attr.y1]="view.y(0)" [attr.x2]="view.x(pitch.length / 2)" [attr.y2]="view.y(pitch.width)"></line>
+          <circle [attr.cx]="view.x(pitch.length / 2)" [attr.cy]="view.y(pitch.width / 2)" [attr.r]="view.length(pitch.circleRadius)"></circle>
+          <rect *ngFor="let box of boxes" [attr.x]="box.x" [attr.y]="box.y" [attr.width]="box.w" [attr.height]="box.h"></rect>
+        </g>
+
+        <g *ngIf="tab === 'shots'">
+          <circle *ngFor="let s of shots" [attr.cx]="view.x(s.x)" [attr.cy]="view.y(s.y)" [attr.r]="6 + s.xg * 24"
+                  [attr.fill]="s.outcome === 'goal' ? color(s.side) : 'rgba(0,0,0,0.25)'"
+                  [attr.stroke]="color(s.side)" [attr.stroke-width]="s.outcome === 'saved' ? 4 : 2"
+                  [attr.stroke-dasharray]="s.outcome === 'off_target' || s.outcome === 'blocked' ? '4 3' : null">
+            <title>{{s.player}} {{s.label}} – xG {{s.xg | number:'1.2-2'}}, {{outcomeLabel(s.outcome)}}{{s.shotType && s.shotType !== 'open_play' ? ' (' + s.shotType.replace('_', ' ') + ')' : ''}}</title>
+          </circle>
+        </g>
+
+        <g *ngIf="tab === 'passes' && network">
+          <line *ngFor="let l of visibleLinks" [attr.x1]="view.x(node(l.from)?.x ?? 0)" [attr.y1]="view.y(node(l.from)?.y ?? 0)"
+                [attr.x2]="view.x(node(l.to)?.x ?? 0)" [attr.y2]="view.y(node(l.to)?.y ?? 0)"
+                stroke="rgba(255,255,255,0.8)" [attr.stroke-width]="Math.min(12, 1 + l.count)">
+            <title>{{l.from}} → {{l.to}}: {{l.count}}</title>
+          </line>
+          <g *ngFor="let n of network.nodes">
+            <circle [attr.cx]="view.x(n.x)" [attr.cy]="view.y(n.y)" [attr.r]="8 + Math.sqrt(n.touches) * 3" [attr.fill]="color(side)" stroke="#fff" stroke-width="2">
+              <title>{{n.player}}: {{n.touches}} completed passes made or received</title>
+            </circle>
+            <text [attr.x]="view.x(n.x)" [attr.y]="view.y(n.y) - 14 - Math.sqrt(n.touches) * 3" text-anchor="middle" class="label">{{n.player}}</text>
+          </g>
+        </g>
+
+        <g *ngIf="tab === 'heatmap' && heat">
+          <ng-container *ngFor="let value of heat.cells; let i = index">
+            <rect *ngIf="value > 0" [attr.x]="view.x((i % heat.cols) * pitch.length / heat.cols)"
+                  [attr.y]="view.y(Math.floor(i / heat.cols) * pitch.width / heat.rows)"
+                  [attr.width]="view.length(pitch.length / heat.cols)" [attr.height]="view.length(pitch.width / heat.rows)" fill="#ff5722" [attr.fill-opacity]="0.85 * value / heat.max"></rect>
+          </ng-container>
+        </g>
+      </svg>
+
+      <svg *ngIf="tab === 'xg' && timeline" class="chart" [attr.viewBox]="'0 0 ' + chart.w + ' ' + chart.h">
+        <line [attr.x1]="chart.pad" [attr.y1]="chart.h - chart.pad" [attr.x2]="chart.w - chart.pad" [attr.y2]="chart.h - chart.pad" stroke="#999"></line>
+        <line [attr.x1]="chart.pad" [attr.y1]="chart.pad" [attr.x2]="chart.pad" [attr.y2]="chart.h - chart.pad" stroke="#999"></line>
+        <g *ngFor="let m of minuteTicks">
+          <line [attr.x1]="chartX(m)" [attr.y1]="chart.h - chart.pad" [attr.x2]="chartX(m)" [attr.y2]="chart.h - chart.pad + 4" stroke="#999"></line>
+          <text [attr.x]="chartX(m)" [attr.y]="chart.h - chart.pad + 16" text-anchor="middle" class="axis">{{m}}'</text>
+        </g>
+        <g *ngFor="let v of xgTicks">
+          <line [attr.x1]="chart.pad" [attr.y1]="chartY(v)" [attr.x2]="chart.w - chart.pad" [attr.y2]="chartY(v)" stroke="#eee"></line>
+          <text [attr.x]="chart.pad - 6" [attr.y]="chartY(v) + 4" text-anchor="end" class="axis">{{v}}</text>
+        </g>
+        <polyline *ngFor="let s of sides" [attr.points]="xgPoints(s)" fill="none" [attr.stroke]="color(s)" stroke-width="3"></polyline>
+        <circle *ngFor="let g of timeline.goals" [attr.cx]="chartX(g.minute)" [attr.cy]="chartY(xgAt(g.side, g.minute))" r="6"
+                [attr.fill]="color(g.side)" stroke="#333">
+          <title>⚽ {{g.player}} {{g.minute}}'</title>
+        </circle>
+      </svg>
+
+      <div class="legend">
+        <span *ngFor="let s of sides"><span class="swatch" [style.background]="color(s)"></span>{{recording.teams[s === 'team1' ? 0 : 1].name}}</span>
+        <span *ngIf="tab === 'shots'">● goal · ◯ saved (thick) · ◌ off target / blocked · size = xG</span>
+        <span *ngIf="tab === 'passes'">line width = completed passes between the pair</span>
+        <span *ngIf="tab === 'heatmap'">time on the pitch while the ball was in play</span>
+        <span *ngIf="tab === 'xg'">cumulative xG · dots = goals</span>
+        <span class="note" *ngIf="tab !== 'xg'">{{recording.teams[0].name}} attack → throughout</span>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .analytics { margin-top: 30px; }
+    .analytics h3 { margin-bottom: 10px; }
+    .toolbar { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; margin-bottom: 10px; }
+    .tab { padding: 6px 12px; border: none; border-radius: 8px; background: #e0e0e0; cursor: pointer; font-size: 0.9rem; }
+    .tab.active { background: #667eea; color: #fff; }
+    .min-links input { width: 50px; }
+    .pitch, .chart { width: 100%; max-width: 900px; display: block; border-radius: 6px; }
+    .chart { background: #fff; }
+    .label { fill: #fff; font-size: 13px; paint-order: stroke; stroke: rgba(0,0,0,0.6); stroke-width: 3px; }
+    .axis { fill: #666; font-size: 11px; }
+    .legend { display: flex; flex-wrap: wrap; gap: 15px; margin-top: 6px; font-size: 0.85rem; color: #666; }
+    .swatch { display: inline-block; width: 10px; height: 10px; border-radius: 2px; margin-right: 4px; }
+  `]
+})
+export class MatchAnalyticsComponent implements OnChanges {
+  @Input() recording: MatchRecording | null = null;
+
+  readonly tabs: { id: Tab; label: string }[] = [
+    { id: 'shots', label: 'Shot Map' },
+    { id: 'passes', label: 'Pass Network' },
+    { id: 'heatmap', label: 'Heatmaps' },
+    { id: 'xg', label: 'xG Timeline' },
+  ];
+  readonly sides: Side[] = ['team1', 'team2'];
+  readonly W = environment.gameSettings.fieldWidth;
+  readonly H = environment.gameSettings.fieldHeight;
+  readonly pitch = PITCH;
+  readonly view = new PitchProjection(this.W, this.H);
+  readonly Math = Math;
+  readonly chart = { w: 600, h: 260, pad: 36 };
+
+  tab: Tab = 'shots';
+  side: Side = 'team1';
+  playerId = '';
+  minLinkCount = 2;
+
+  shots: ShotPoint[] = [];
+  network: PassNetwork | null = null;
+  heat: Heatmap | null = null;
+  timeline: XgTimeline | null = null;
+  minuteTicks: number[] = [];
+  xgTicks: number[] = [];
+  private lastMinute = 90;
+  private maxXg = 1;
+
+  // Penalty and goal areas at both ends, in SVG units
+  readonly boxes = [[PITCH.penaltyAreaDepth, PITCH.penaltyAreaWidth], [PITCH.goalAreaDepth, PITCH.goalAreaWidth]]
+    .flatMap(([depth, width]) => [0, PITCH.length - depth].map(x => ({
+      x: this.view.x(x), y: this.view.y((PITCH.width - width) / 2), w: this.view.length(depth), h: this.view.length(width),
+    })));
+
+  ngOnChanges(): void {
+    this.playerId = '';
+    if (!this.recording) {
+      this.shots = [];
+      this.network = this.heat = this.timeline = null;
+      return;
+    }
+    this.shots = shotMap(this.recording);
+    this.timeline = xgTimeline(this.recording);
+    const last = this.timeline.steps[this.timeline.steps.length - 1];
+    this.lastMinute = Math.max(90, last.minute, ...this.timeline.goals.map(g => g.minute),
+      ...this.recording.events.map(e => e.realMinute ?? 0));
+    this.maxXg = Math.max(1, Math.ceil(Math.max(last.team1, last.team2)));
+    this.minuteTicks = Array.from({ length: Math.floor(this.lastMinute / 15) + 1 }, (_, i) => i * 15);
+    this.xgTicks = Array.from({ length: this.maxXg + 1 }, (_, i) => i);
+    this.refreshTeamViews();
+  }
+
+  selectSide(side: Side): void {
+    this.side = side;
+    this.playerId = '';
+    this.refreshTeamViews();
+  }
+
+  selectPlayer(playerId: string): void {
+    this.playerId = playerId;
+    if (this.recording) this.heat = heatmap(this.recording, this.side, playerId || undefined);
+  }
+
+  get visibleLinks() {
+    return this.network?.links.filter(l => l.count >= this.minLinkCount) ?? [];
+  }
+
+  node(player: string) {
+    return this.network?.nodes.find(n => n.player === player);
+  }
+
+  color(side: Side): string {
+    return this.recording?.teams[side === 'team1' ? 0 : 1].color ?? '#999';
+  }
+
+  outcomeLabel(outcome: ShotOutcome): string {
+    return { goal: 'goal', saved: 'saved', blocked: 'blocked', off_target: 'off target' }[outcome];
+  }
+
+  chartX(minute: number): number {
+    return this.chart.pad + (minute / this.lastMinute) * (this.chart.w - 2 * this.chart.pad);
+  }
+
+  chartY(xg: number): number {
+    return this.chart.h - this.chart.pad - (xg / this.maxXg) * (this.chart.h - 2 * this.chart.pad);
+  }
+
+  /** Cumulative xG of a side just after the given minute */
+  xgAt(side: Side, minute: number): number {
+    const steps = this.timeline?.steps ?? [];
+    return [...steps].reverse().find(s => s.minute <= minute)?.[side] ?? 0;
+  }
+
+  /** Step line: flat between shots, rising at each shot's minute, running on to the final minute */
+  xgPoints(side: Side): string {
+    const points: string[] = [];
+    let value = 0;
+    (this.timeline?.steps ?? []).forEach(s => {
+      points.push(`${this.chartX(s.minute)},${this.chartY(value)}`);
+      value = s[side];
+      points.push(`${this.chartX(s.minute)},${this.chartY(value)}`);
+    });
+    points.push(`${this.chartX(this.lastMinute)},${this.chartY(value)}`);
+    return points.join(' ');
+  }
+
+  private refreshTeamViews(): void {
+    if (!this.recording) return;
+    this.network = passNetwork(this.recording, this.side);
+    this.heat = heatmap(this.recording, this.side, this.playerId || undefined);
+  }
+}
@@ -0,0 +1,64 @@
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Team } from '../../services/team.service';
+import { MatchRecording } from '../../engine/match-recorder';
+import {
+  MatchExport, exportRecording, eventsCsv, playerStatsCsv, teamSheetsCsv, toStatsBombEvents
+} from '../../engine/match-export';
+
+type ExportFormat = 'json' | 'events' | 'players' | 'teams' | 'statsbomb';
+
+@Component({
+  selector: 'app-match-export',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="match-export" *ngIf="recording">
+      <span class="title">Export match data:</span>
+      <button *ngFor="let f of formats" class="export-btn" (click)="download(f.id)" [title]="f.hint">{{f.label}}</button>
+    </div>
+  `,
+  styles: [`
+    .match-export { display: flex; flex-wrap: wrap; justify-content: center; align-items: center; gap: 8px; margin-bottom: 15px; font-size: 0.9rem; }
+    .title { color: #666; }
+    .export-btn { padding: 5px 10px; border: 1px solid #667eea; border-radius: 6px; background: #fff; color: #667eea; cursor: pointer; }
+    .export-btn:hover { background: #667eea; color: #fff; }
+  `]
+})
+export class MatchExportComponent {
+  @Input() recording: MatchRecording | null = null;
+  @Input() teams: [Team, Team] | null = null; // adds abilities to the team sheets when they match the recording
+
+  readonly formats: { id: ExportFormat; label: string; hint: string }[] = [
+    { id: 'json', label: 'Full JSON', hint: 'Events, final state, team sheets and player stats' },
+    { id: 'events', label: 'Events CSV', hint: 'Every event with coordinates, zones and xG' },
+    { id: 'players', label: 'Player Stats CSV', hint: 'Minutes, goals, shots, xG, passes, tackles, fouls and cards per player' },
+    { id: 'teams', label: 'Team Sheets CSV', hint: 'Starters and bench with roles and abilities' },
+    { id: 'statsbomb', label: 'StatsBomb JSON', hint: 'StatsBomb-style events, locations in pitch metres' },
+  ];
+
+  download(format: ExportFormat): void {
+    if (!this.recording) return;
+    const data = exportRecording(this.recording, this.teams ?? undefined);
+    const [t1, t2] = data.teams;
+    const base = `match-${t1.name}-vs-${t2.name}-seed${data.seed ?? 'x'}`.replace(/\s+/g, '_');
+    const [suffix, type, content] = this.render(format, data);
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${base}${suffix}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private render(format: ExportFormat, data: MatchExport): [string, string, string] {
+    switch (format) {
+      case 'json': return ['-export.json', 'application/json', JSON.stringify(data, null, 2)];
+      case 'events': return ['-events.csv', 'text/csv', eventsCsv(data.events)];
+      case 'players': return ['-players.csv', 'text/csv', playerStatsCsv(data.playerStats)];
+      case 'teams': return ['-teams.csv', 'text/csv', teamSheetsCsv(data.teams)];
+      case 'statsbomb': return ['-statsbomb.json', 'application/json', JSON.stringify(toStatsBombEvents(data), null, 2)];
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Team, GameEvent } from '../../services/team.service';
+import { GameState } from '../../services/game-engine.service';
+import { matchStats, MatchStats } from '../../engine/match-stats';
+
+interface StatRow {
+  label: string;
+  team1: string;
+  team2: string;
+  share: number; // team1's share of the bar (0-100)
+}
+
+@Component({
+  selector: 'app-match-stats',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="match-stats" *ngIf="team1 && team2 && state.events.length">
+      <h3>{{fullTime ? 'Full-Time Summary' : 'Match Stats'}}</h3>
+
+      <div class="summary" *ngIf="fullTime">
+        <div class="result">{{team1.name}} {{state.score.team1}} – {{state.score.team2}} {{team2.name}}</div>
+        <div class="scorers">
+          <div><span *ngFor="let g of scorers(team1.name)">⚽ {{g.player}} {{g.displayTime}}</span></div>
+          <div class="right"><span *ngFor="let g of scorers(team2.name)">⚽ {{g.player}} {{g.displayTime}}</span></div>
+        </div>
+      </div>
+
+      <div class="row" *ngFor="let row of rows">
+        <span class="value">{{row.team1}}</span>
+        <div class="middle">
+          <div class="label">{{row.label}}</div>
+          <div class="bar">
+            <span [style.width.%]="row.share" [style.background]="team1.color"></span>
+            <span [style.width.%]="100 - row.share" [style.background]="team2.color"></span>
+          </div>
+        </div>
+        <span class="value right">{{row.team2}}</span>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .match-stats { margin-bottom: 15px; font-size: 0.85rem; }
+    .match-stats h3 { margin-bottom: 8px; text-align: center; }
+    .summary { text-align: center; margin-bottom: 10px; }
+    .summary .result { font-weight: 600; font-size: 1rem; }
+    .scorers { display: flex; justify-content: space-between; gap: 10px; color: #666; }
+    .scorers span { display: block; }
+    .row { display: grid; grid-template-columns: 96px 1fr 96px; align-items: center; gap: 8px; margin-bottom: 5px; }
+    .value { font-weight: 600; }
+    .right { text-align: right; }
+    .label { text-align: center; color: #666; }
+    .bar { display: flex; height: 6px; border-radius: 3px; overflow: hidden; background: #eee; }
+  `]
+})
+export class MatchStatsComponent {
+  @Input() team1: Team | undefined;
+  @Input() team2: Team | undefined;
+  @Input() state!: GameState;
+
+  // matchStats result for the last events/possession seen (change detection reads rows often)
+  private cacheKey: [GameEvent[], GameState['possession']] | null = null;
+  private cacheRows: StatRow[] = [];
+
+  get fullTime(): boolean {
+    return this.state.phase === 'finished';
+  }
+
+  get rows(): StatRow[] {
+    if (!this.team1 || !this.team2) return [];
+    if (this.cacheKey && this.cacheKey[0] === this.state.events && this.cacheKey[1] === this.state.possession) return this.cacheRows;
+    this.cacheKey = [this.state.events, this.state.possession];
+    this.cacheRows = this.buildRows(matchStats(this.state.events, this.team1.name, this.team2.name, this.state.possession));
+    return this.cacheRows;
+  }
+
+  scorers(teamName: string): GameEvent[] {
+    return this.state.events.filter(e => e.type === 'goal' && e.team === teamName && e.period !== 4);
+  }
+
+  private buildRows({ team1: a, team2: b }: MatchStats): StatRow[] {
+    const share = (x: number, y: number) => x + y > 0 ? x / (x + y) * 100 : 50;
+    const accuracy = (completed: number, attempted: number) => attempted ? Math.round(Math.min(completed, attempted) / attempted * 100) : 0;
+    const row = (label: string, x: number, y: number, format = (v: number) => `${v}`): StatRow =>
+      ({ label, team1: format(x), team2: format(y), share: share(x, y) });
+    return [
+      row('Possession', a.possession, b.possession, v => `${v}%`),
+      { ...row('Shots (on target)', a.shots, b.shots), team1: `${a.shots} (${a.onTarget})`, team2: `${b.shots} (${b.onTarget})` },
+      row('Expected goals (xG)', a.xg, b.xg, v => v.toFixed(2)),
+      {
+        ...row('Passes completed', a.passesCompleted, b.passesCompleted),
+        team1: `${a.passesCompleted}/${a.passes} (${accuracy(a.passesCompleted, a.passes)}%)`,
+        team2: `${b.passesCompleted}/${b.passes} (${accuracy(b.passesCompleted, b.passes)}%)`,
+      },
+      row('Interceptions', a.interceptions, b.interceptions),
+      row('Corners', a.corners, b.corners),
+      row('Fouls', a.fouls, b.fouls),
+      row('Yellow cards', a.yellow, b.yellow),
+      row('Red cards', a.red, b.red),
+    ];
+  }
+}
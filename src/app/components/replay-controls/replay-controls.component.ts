@@ -0,0 +1,94 @@
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ReplayService, ReplayView } from '../../services/replay.service';
+
+@Component({
+  selector: 'app-replay-controls',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="replay-controls" *ngIf="view">
+      <button class="replay-btn" (click)="replay.toggle()">
+        {{view.playing ? '⏸ Pause' : '▶ Play'}}
+      </button>
+
+      <input
+        class="scrubber"
+        type="range"
+        min="0"
+        [max]="view.frameCount - 1"
+        [value]="view.frameIndex"
+        (input)="onScrub($event)"
+        aria-label="Replay timeline"
+      >
+
+      <span class="replay-time">{{formatMs(frameTime())}} / {{formatMs(totalTime())}}</span>
+
+      <label for="replay-speed">Speed</label>
+      <select id="replay-speed" [ngModel]="view.speed" (ngModelChange)="replay.setSpeed($event)">
+        <option *ngFor="let s of speeds" [ngValue]="s">{{s}}x</option>
+      </select>
+    </div>
+  `,
+  styles: [`
+    .replay-controls {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+      margin: 10px 0 20px;
+    }
+
+    .scrubber {
+      flex: 1;
+    }
+
+    .replay-btn {
+      padding: 8px 16px;
+      border: none;
+      border-radius: 8px;
+      background: #667eea;
+      color: #fff;
+      cursor: pointer;
+      min-width: 90px;
+    }
+
+    .replay-time {
+      font-family: 'Orbitron', monospace;
+      font-size: 0.9rem;
+      white-space: nowrap;
+    }
+
+    select {
+      min-width: 80px;
+      padding: 6px 8px;
+    }
+  `]
+})
+export class ReplayControlsComponent {
+  @Input() view: ReplayView | null = null;
+
+  readonly speeds = ReplayService.SPEEDS;
+
+  constructor(public replay: ReplayService) {}
+
+  onScrub(event: Event): void {
+    this.replay.seek(Number((event.target as HTMLInputElement).value));
+  }
+
+  frameTime(): number {
+    return this.view ? this.view.recording.frames[this.view.frameIndex].t : 0;
+  }
+
+  totalTime(): number {
+    if (!this.view) return 0;
+    return this.view.recording.frames[this.view.frameCount - 1].t;
+  }
+
+  formatMs(ms: number): string {
+    const total = Math.floor(ms / 1000);
+    const mins = Math.floor(total / 60);
+    const secs = total % 60;
+    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  }
+}
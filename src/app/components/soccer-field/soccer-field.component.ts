@@ -1,7 +1,9 @@
 import { Component, Input, OnInit, OnDestroy, ElementRef, ViewChild, AfterViewInit } from '@angular/core';
-import { Team } from '../../services/team.service';
+import { Team, Player } from '../../services/team.service';
 import { GameState } from '../../services/game-engine.service';
 import { environment } from '../../../environments/environment';
+import { PITCH, PitchProjection } from '../../engine/pitch';
+import { offsideLineX } from '../../engine/offside';
 
 @Component({
   selector: 'app-soccer-field',
@@ -21,12 +23,16 @@ export class SoccerFieldComponent implements OnInit, AfterViewInit, OnDestroy {
   @Input() team1: Team | undefined;
   @Input() team2: Team | undefined;
   @Input() gameState!: GameState;
+  @Input() showOffsideLines = environment.gameSettings.offside.showLines;
 
   private ctx!: CanvasRenderingContext2D;
   private animationFrameId: number | null = null;
+  private rainFrame = 0; // advances the rain streaks each redraw
 
   fieldWidth = environment.gameSettings.fieldWidth;
   fieldHeight = environment.gameSettings.fieldHeight;
+  // Pitch metres → canvas px; the only place the canvas size matters
+  private readonly view = new PitchProjection(this.fieldWidth, this.fieldHeight);
 
   ngOnInit(): void {
     // Component initialization
@@ -57,121 +63,106 @@ export class SoccerFieldComponent implements OnInit, AfterViewInit, OnDestroy {
 
     // Clear canvas
     this.ctx.clearRect(0, 0, this.fieldWidth, this.fieldHeight);
-    // Striped grass background (alternating shades)
+    // Striped grass background (alternating shades, darker on a wet pitch)
+    const wet = this.gameState?.weather === 'rain';
     const stripeCount = 12;
     const stripeWidth = this.fieldWidth / stripeCount;
     for (let i = 0; i < stripeCount; i++) {
-      this.ctx.fillStyle = i % 2 === 0 ? '#237B22' : '#2A8F26';
+      this.ctx.fillStyle = wet ? (i % 2 === 0 ? '#1A5C1A' : '#1F6B1D') : (i % 2 === 0 ? '#237B22' : '#2A8F26');
       this.ctx.fillRect(i * stripeWidth, 0, stripeWidth, this.fieldHeight);
     }
 
     // Draw field lines
     this.drawFieldLines();
 
+    // Offside lines (overlay)
+    if (this.showOffsideLines && this.gameState?.phase === 'inplay') this.drawOffsideLines();
+
     // Draw players
     this.drawPlayers();
 
     // Draw ball
     this.drawBall();
+
+    // Weather overlay
+    if (this.gameState?.weather === 'rain') this.drawRain();
+    else if (this.gameState?.weather === 'heat') this.drawHeatHaze();
+
+    // Penalty shootout tally
+    if (this.gameState?.shootout) this.drawShootout();
   }
 
   private drawFieldLines(): void {
     this.ctx.strokeStyle = '#FFFFFF';
     this.ctx.lineWidth = 2.5;
 
-    const gs = environment.gameSettings;
-    const M = 10; // boundary margin
-    const innerLengthPx = this.fieldWidth - 2 * M; // corresponds to 105m
-    const innerWidthPx = this.fieldHeight - 2 * M;  // corresponds to 68m
-    const pxPerMeterX = innerLengthPx / gs.pitchLengthM;
-    const pxPerMeterY = innerWidthPx / gs.pitchWidthM;
-
-    // Helper functions
-    const xFromM = (m: number) => M + m * pxPerMeterX;
-    const yFromM = (m: number) => M + m * pxPerMeterY;
+    const v = this.view;
+    const left = v.x(0);
+    const right = v.x(PITCH.length);
+    const top = v.y(0);
+    const lengthPx = v.length(PITCH.length);
+    const widthPx = v.length(PITCH.width);
 
     // Outer boundary
-    this.ctx.strokeRect(M, M, innerLengthPx, innerWidthPx);
+    this.ctx.strokeRect(left, top, lengthPx, widthPx);
 
     // Halfway line
+    const centerX = v.x(PITCH.length / 2);
+    const centerY = v.y(PITCH.width / 2);
     this.ctx.beginPath();
-    this.ctx.moveTo(M + innerLengthPx / 2, M);
-    this.ctx.lineTo(M + innerLengthPx / 2, M + innerWidthPx);
+    this.ctx.moveTo(centerX, top);
+    this.ctx.lineTo(centerX, top + widthPx);
     this.ctx.stroke();
 
     // Center circle & spot
-    const centerCircleR = gs.centerCircleRadiusM * pxPerMeterY;
-    const centerX = M + innerLengthPx / 2;
-    const centerY = M + innerWidthPx / 2;
     this.ctx.beginPath();
-    this.ctx.arc(centerX, centerY, centerCircleR, 0, 2 * Math.PI);
+    this.ctx.arc(centerX, centerY, v.length(PITCH.circleRadius), 0, 2 * Math.PI);
     this.ctx.stroke();
     this.ctx.fillStyle = '#FFFFFF';
     this.ctx.beginPath();
     this.ctx.arc(centerX, centerY, 3, 0, 2 * Math.PI);
     this.ctx.fill();
 
-    // Penalty & goal areas (left side origin at 0m horizontally)
-    const goalAreaDepthPx = gs.goalAreaDepthM * pxPerMeterX;
-    const goalAreaWidthPx = 18.32 * pxPerMeterY; // standard width
-    const penaltyAreaDepthPx = gs.penaltyAreaDepthM * pxPerMeterX;
-    const penaltyAreaWidthPx = 40.32 * pxPerMeterY;
-
-    const goalAreaY = centerY - goalAreaWidthPx / 2;
-    const penaltyAreaY = centerY - penaltyAreaWidthPx / 2;
-
-    // Left goal area
-    this.ctx.strokeRect(M, goalAreaY, goalAreaDepthPx, goalAreaWidthPx);
-    // Right goal area
-    this.ctx.strokeRect(M + innerLengthPx - goalAreaDepthPx, goalAreaY, goalAreaDepthPx, goalAreaWidthPx);
-
-    // Left penalty area
-    this.ctx.strokeRect(M, penaltyAreaY, penaltyAreaDepthPx, penaltyAreaWidthPx);
-    // Right penalty area
-    this.ctx.strokeRect(M + innerLengthPx - penaltyAreaDepthPx, penaltyAreaY, penaltyAreaDepthPx, penaltyAreaWidthPx);
+    // Penalty & goal areas at both ends
+    [[PITCH.goalAreaDepth, PITCH.goalAreaWidth], [PITCH.penaltyAreaDepth, PITCH.penaltyAreaWidth]].forEach(([depth, width]) => {
+      const y = v.y((PITCH.width - width) / 2);
+      this.ctx.strokeRect(left, y, v.length(depth), v.length(width));
+      this.ctx.strokeRect(right - v.length(depth), y, v.length(depth), v.length(width));
+    });
 
     // Penalty spots (11m)
-    const penSpotXLeft = M + gs.penaltySpotDistM * pxPerMeterX;
-    const penSpotXRight = M + innerLengthPx - gs.penaltySpotDistM * pxPerMeterX;
+    const penSpotXLeft = v.x(PITCH.penaltySpot);
+    const penSpotXRight = v.x(PITCH.length - PITCH.penaltySpot);
     this.ctx.beginPath(); this.ctx.arc(penSpotXLeft, centerY, 3, 0, 2 * Math.PI); this.ctx.fill();
     this.ctx.beginPath(); this.ctx.arc(penSpotXRight, centerY, 3, 0, 2 * Math.PI); this.ctx.fill();
 
-  // Penalty arcs (9.15m radius) tangent to penalty area line
-  const arcR = gs.centerCircleRadiusM * pxPerMeterY;
-  // Distance from penalty spot (11m) to penalty area line (16.5m) horizontally
-  const spotToBoxEdgeM = gs.penaltyAreaDepthM - gs.penaltySpotDistM; // 5.5m
-  const spotToBoxEdgePx = spotToBoxEdgeM * pxPerMeterX;
-  // Tangent angle: cos(theta) = adjacent / radius (using vertical radius)
-  const ratio = Math.min(1, spotToBoxEdgePx / arcR);
-  const theta = Math.acos(ratio); // angle above/below horizontal center line
-  // Left arc (open toward midfield)
-  this.ctx.beginPath();
-  this.ctx.arc(penSpotXLeft, centerY, arcR, -theta, theta);
-  this.ctx.stroke();
-  // Right arc (mirror)
-  this.ctx.beginPath();
-  this.ctx.arc(penSpotXRight, centerY, arcR, Math.PI - theta, Math.PI + theta);
-  this.ctx.stroke();
-
-    // Goals (7.32m width, 2.44m height) simplified 2D front view outside boundary
-    const goalWidthPx = gs.goalWidthM * pxPerMeterY;
-    const goalHeightPx = 2.44 * pxPerMeterY;
+    // Penalty arcs (9.15m radius) outside the penalty area: the spot is 5.5m from the area line
+    const theta = Math.acos(Math.min(1, (PITCH.penaltyAreaDepth - PITCH.penaltySpot) / PITCH.circleRadius));
+    const arcR = v.length(PITCH.circleRadius);
+    this.ctx.beginPath();
+    this.ctx.arc(penSpotXLeft, centerY, arcR, -theta, theta);
+    this.ctx.stroke();
+    this.ctx.beginPath();
+    this.ctx.arc(penSpotXRight, centerY, arcR, Math.PI - theta, Math.PI + theta);
+    this.ctx.stroke();
+
+    // Goals (7.32m wide) drawn just outside the goal lines
+    const goalWidthPx = v.length(PITCH.goalWidth);
     const goalTopY = centerY - goalWidthPx / 2;
-    // Left goal posts just outside left boundary
     const goalDepth = 8; // pixels
     this.ctx.lineWidth = 2;
-    this.ctx.strokeRect(M - goalDepth, goalTopY, goalDepth, goalWidthPx);
-    // Right goal
-    this.ctx.strokeRect(M + innerLengthPx, goalTopY, goalDepth, goalWidthPx);
+    this.ctx.strokeRect(left - goalDepth, goalTopY, goalDepth, goalWidthPx);
+    this.ctx.strokeRect(right, goalTopY, goalDepth, goalWidthPx);
     this.ctx.lineWidth = 2.5;
 
     // Corner arcs (radius 1m)
-    const cornerR = 1 * pxPerMeterX;
+    const cornerR = v.length(PITCH.cornerArcRadius);
+    const bottom = top + widthPx;
     const corners: [number, number, number, number][] = [
-      [M, M, 0, Math.PI / 2],
-      [M + innerLengthPx, M, Math.PI / 2, Math.PI],
-      [M, M + innerWidthPx, -Math.PI / 2, 0],
-      [M + innerLengthPx, M + innerWidthPx, Math.PI, 3 * Math.PI / 2]
+      [left, top, 0, Math.PI / 2],
+      [right, top, Math.PI / 2, Math.PI],
+      [left, bottom, -Math.PI / 2, 0],
+      [right, bottom, Math.PI, 3 * Math.PI / 2]
     ];
     corners.forEach(([cx, cy, a1, a2]) => {
       this.ctx.beginPath();
@@ -183,6 +174,28 @@ export class SoccerFieldComponent implements OnInit, AfterViewInit, OnDestroy {
     this.ctx.lineWidth = 3;
   }
 
+  /**
+   * Each side's offside line as a dashed line in that side's kit colour: where its attackers are
+   * judged against the opponents' second-last player, the ball and the halfway line.
+   */
+  private drawOffsideLines(): void {
+    if (!this.team1 || !this.team2) return;
+    const team1Dir: 1 | -1 = (this.gameState.half ?? 1) === 1 ? 1 : -1; // ends are swapped for the second half
+    const sides: [Team, Team, 1 | -1][] = [[this.team1, this.team2, team1Dir], [this.team2, this.team1, team1Dir === 1 ? -1 : 1]];
+    this.ctx.save();
+    this.ctx.lineWidth = 2;
+    this.ctx.setLineDash([8, 6]);
+    sides.forEach(([attackers, defenders, dir]) => {
+      const x = this.view.x(offsideLineX(defenders.players, dir, this.gameState.ball.x));
+      this.ctx.strokeStyle = attackers.color;
+      this.ctx.beginPath();
+      this.ctx.moveTo(x, this.view.y(0));
+      this.ctx.lineTo(x, this.view.y(PITCH.width));
+      this.ctx.stroke();
+    });
+    this.ctx.restore();
+  }
+
   private drawPlayers(): void {
     const playerSize = environment.gameSettings.playerSize;
 
@@ -194,8 +207,10 @@ export class SoccerFieldComponent implements OnInit, AfterViewInit, OnDestroy {
         this.ctx.lineWidth = 2;
 
         // Draw player as square
-        const x = player.position.x - playerSize / 2;
-        const y = player.position.y - playerSize / 2;
+        const px = this.view.x(player.position.x);
+        const py = this.view.y(player.position.y);
+        const x = px - playerSize / 2;
+        const y = py - playerSize / 2;
         
         this.ctx.fillRect(x, y, playerSize, playerSize);
         this.ctx.strokeRect(x, y, playerSize, playerSize);
@@ -204,7 +219,7 @@ export class SoccerFieldComponent implements OnInit, AfterViewInit, OnDestroy {
         this.ctx.fillStyle = '#FFFFFF';
         this.ctx.font = '10px Arial';
         this.ctx.textAlign = 'center';
-        this.ctx.fillText((index + 1).toString(), player.position.x, player.position.y + 3);
+        this.ctx.fillText((index + 1).toString(), px, py + 3);
 
         // Draw goalkeeper differently
         if (player.role === 'goalkeeper') {
@@ -212,6 +227,9 @@ export class SoccerFieldComponent implements OnInit, AfterViewInit, OnDestroy {
           this.ctx.lineWidth = 3;
           this.ctx.strokeRect(x, y, playerSize, playerSize);
         }
+
+        this.drawFacing(player, px, py, playerSize);
+        this.drawStaminaBar(player, x, y + playerSize + 2, playerSize);
       });
     }
 
@@ -223,8 +241,10 @@ export class SoccerFieldComponent implements OnInit, AfterViewInit, OnDestroy {
         this.ctx.lineWidth = 2;
 
         // Draw player as square
-        const x = player.position.x - playerSize / 2;
-        const y = player.position.y - playerSize / 2;
+        const px = this.view.x(player.position.x);
+        const py = this.view.y(player.position.y);
+        const x = px - playerSize / 2;
+        const y = py - playerSize / 2;
         
         this.ctx.fillRect(x, y, playerSize, playerSize);
         this.ctx.strokeRect(x, y, playerSize, playerSize);
@@ -233,7 +253,7 @@ export class SoccerFieldComponent implements OnInit, AfterViewInit, OnDestroy {
         this.ctx.fillStyle = '#FFFFFF';
         this.ctx.font = '10px Arial';
         this.ctx.textAlign = 'center';
-        this.ctx.fillText((index + 1).toString(), player.position.x, player.position.y + 3);
+        this.ctx.fillText((index + 1).toString(), px, py + 3);
 
         // Draw goalkeeper differently
         if (player.role === 'goalkeeper') {
@@ -241,13 +261,51 @@ export class SoccerFieldComponent implements OnInit, AfterViewInit, OnDestroy {
           this.ctx.lineWidth = 3;
           this.ctx.strokeRect(x, y, playerSize, playerSize);
         }
+
+        this.drawFacing(player, px, py, playerSize);
+        this.drawStaminaBar(player, x, y + playerSize + 2, playerSize);
       });
     }
   }
 
+  /** Small arrowhead just outside the square pointing where the player faces; gold while striking the ball */
+  private drawFacing(player: Player, px: number, py: number, size: number): void {
+    if (player.facing == null) return; // replays do not record orientation
+    const a = player.facing;
+    const tip = size * 0.95; const base = size * 0.6; const half = 0.45;
+    this.ctx.fillStyle = player.mode === 'kick' ? '#FFD700' : '#FFFFFF';
+    this.ctx.beginPath();
+    this.ctx.moveTo(px + Math.cos(a) * tip, py + Math.sin(a) * tip);
+    this.ctx.lineTo(px + Math.cos(a + half) * base, py + Math.sin(a + half) * base);
+    this.ctx.lineTo(px + Math.cos(a - half) * base, py + Math.sin(a - half) * base);
+    this.ctx.closePath();
+    this.ctx.fill();
+  }
+
+  /** Thin bar under a player: green when fresh, amber when tiring, red when exhausted */
+  private drawStaminaBar(player: Player, x: number, y: number, width: number): void {
+    const a = player.abilities;
+    if (!a || !a.maxStamina) return;
+    const ratio = Math.max(0, Math.min(1, a.stamina / a.maxStamina));
+    this.ctx.fillStyle = 'rgba(0, 0, 0, 0.45)';
+    this.ctx.fillRect(x, y, width, 3);
+    this.ctx.fillStyle = ratio > 0.6 ? '#28a745' : ratio > 0.35 ? '#ffc107' : '#dc3545';
+    this.ctx.fillRect(x, y, width * ratio, 3);
+  }
+
   private drawBall(): void {
-    const ballSize = environment.gameSettings.ballSize;
-    const ball = this.gameState.ball;
+    const z = this.gameState.ball.z ?? 0;
+    const ballSize = environment.gameSettings.ballSize * (1 + z / 5);
+    const ball = { x: this.view.x(this.gameState.ball.x), y: this.view.y(this.gameState.ball.y) };
+
+    // In the air: a shadow stays on the grass and the ball is drawn raised and larger
+    if (z > 0.05) {
+      this.ctx.fillStyle = 'rgba(0, 0, 0, 0.3)';
+      this.ctx.beginPath();
+      this.ctx.ellipse(ball.x, ball.y, environment.gameSettings.ballSize / 2, environment.gameSettings.ballSize / 4, 0, 0, 2 * Math.PI);
+      this.ctx.fill();
+      ball.y -= this.view.length(z) * 0.6;
+    }
 
     // Draw ball as circle
     this.ctx.fillStyle = '#FFFFFF';
@@ -279,4 +337,67 @@ export class SoccerFieldComponent implements OnInit, AfterViewInit, OnDestroy {
     this.ctx.closePath();
     this.ctx.stroke();
   }
-}
\ No newline at end of file
+
+  /** Slanted streaks drifting down the pitch plus a grey wash */
+  private drawRain(): void {
+    this.rainFrame = (this.rainFrame + 1) % 100000;
+    this.ctx.fillStyle = 'rgba(40, 50, 70, 0.18)';
+    this.ctx.fillRect(0, 0, this.fieldWidth, this.fieldHeight);
+    this.ctx.strokeStyle = 'rgba(200, 215, 235, 0.45)';
+    this.ctx.lineWidth = 1;
+    this.ctx.beginPath();
+    for (let i = 0; i < 140; i++) {
+      const x = (i * 137.5 + this.rainFrame * 2) % (this.fieldWidth + 40) - 20;
+      const y = (i * 89.3 + this.rainFrame * 11) % this.fieldHeight;
+      this.ctx.moveTo(x, y);
+      this.ctx.lineTo(x - 4, y + 12);
+    }
+    this.ctx.stroke();
+  }
+
+  private drawHeatHaze(): void {
+    this.ctx.fillStyle = 'rgba(255, 170, 60, 0.08)';
+    this.ctx.fillRect(0, 0, this.fieldWidth, this.fieldHeight);
+  }
+
+  /** One row of kick markers per team: filled = scored, cross = saved/missed, hollow = still to take */
+  private drawShootout(): void {
+    const shootout = this.gameState.shootout!;
+    const kicks = Math.max(environment.gameSettings.knockout.shootoutKicks, shootout.team1.length, shootout.team2.length);
+    const radius = 7;
+    const gap = 20;
+    const rowWidth = kicks * gap;
+    const left = this.fieldWidth / 2 - rowWidth / 2;
+    const rows: [string, typeof shootout.team1][] = [
+      [this.team1?.color ?? '#FFFFFF', shootout.team1],
+      [this.team2?.color ?? '#FFFFFF', shootout.team2],
+    ];
+
+    this.ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+    this.ctx.fillRect(left - 30, 12, rowWidth + 40, 58);
+
+    rows.forEach(([color, outcomes], row) => {
+      const y = 28 + row * 24;
+      this.ctx.fillStyle = color;
+      this.ctx.fillRect(left - 22, y - 6, 12, 12);
+      for (let i = 0; i < kicks; i++) {
+        const x = left + i * gap + gap / 2;
+        const outcome = outcomes[i];
+        this.ctx.beginPath();
+        this.ctx.arc(x, y, radius, 0, 2 * Math.PI);
+        this.ctx.lineWidth = 2;
+        this.ctx.strokeStyle = '#FFFFFF';
+        if (outcome === 'goal') {
+          this.ctx.fillStyle = '#28a745';
+          this.ctx.fill();
+        } else if (outcome) {
+          this.ctx.fillStyle = '#dc3545';
+          this.ctx.fill();
+          this.ctx.moveTo(x - 3, y - 3); this.ctx.lineTo(x + 3, y + 3);
+          this.ctx.moveTo(x + 3, y - 3); this.ctx.lineTo(x - 3, y + 3);
+        }
+        this.ctx.stroke();
+      }
+    });
+  }
+}
@@ -0,0 +1,54 @@
+import { Component, Input, Output, EventEmitter } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Team } from '../../services/team.service';
+import { FORMATIONS, TeamTactics, DEFAULT_TACTICS } from '../../engine/tactics';
+
+@Component({
+  selector: 'app-tactics',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="tactics" *ngIf="team">
+      <div class="tactics-header">
+        <span class="swatch" [style.background]="team.color"></span>
+        <strong>{{team.name}}</strong>
+        <select [ngModel]="tactics.formation ?? ''" (ngModelChange)="update('formation', $event || undefined)" title="Formation">
+          <option value="" *ngIf="!live">Random formation</option>
+          <option *ngFor="let f of formations" [value]="f.name">{{f.name}}</option>
+        </select>
+      </div>
+      <label *ngFor="let s of sliders" class="slider" [title]="s.hint">
+        <span>{{s.label}}</span>
+        <input type="range" min="0" max="100" step="5" [ngModel]="tactics[s.key]" (ngModelChange)="update(s.key, +$event)">
+        <span class="value">{{tactics[s.key]}}</span>
+      </label>
+    </div>
+  `,
+  styles: [`
+    .tactics { font-size: 0.85rem; }
+    .tactics-header { display: flex; align-items: center; gap: 6px; margin-bottom: 4px; }
+    .tactics-header select { margin-left: auto; }
+    .slider { display: grid; grid-template-columns: 90px 1fr 28px; align-items: center; gap: 6px; }
+    .slider .value { text-align: right; color: #666; }
+    .swatch { display: inline-block; width: 10px; height: 10px; border-radius: 2px; }
+  `]
+})
+export class TacticsComponent {
+  @Input() team: Team | undefined;
+  @Input() tactics: TeamTactics = { ...DEFAULT_TACTICS };
+  @Input() live = false; // the match is running: changes go straight to the engine
+  @Output() tacticsChange = new EventEmitter<TeamTactics>();
+
+  readonly formations = FORMATIONS;
+  readonly sliders: { key: Exclude<keyof TeamTactics, 'formation'>; label: string; hint: string }[] = [
+    { key: 'lineHeight', label: 'Line height', hint: 'How high the back and middle lines sit' },
+    { key: 'pressing', label: 'Pressing', hint: 'How many players close down the ball carrier, and how hard' },
+    { key: 'width', label: 'Width', hint: 'How far the shape and support runs stretch across the pitch' },
+    { key: 'tempo', label: 'Tempo', hint: 'How quickly the ball is moved on and how far runners push' },
+  ];
+
+  update<K extends keyof TeamTactics>(key: K, value: TeamTactics[K]): void {
+    this.tacticsChange.emit({ ...this.tactics, [key]: value });
+  }
+}
@@ -0,0 +1,202 @@
+import { Component, Input, Output, EventEmitter } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Team, Player, PlayerAbilities, TeamService, TeamValidation } from '../../services/team.service';
+import { TeamStoreService } from '../../services/team-store.service';
+import { cloneTeam } from '../../engine/match-engine';
+
+@Component({
+  selector: 'app-team-editor',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="team-editor">
+      <h3>Team Editor</h3>
+
+      <div class="editor-actions">
+        <select [ngModel]="draft?.id ?? ''" (ngModelChange)="edit($event)" [disabled]="disabled">
+          <option value="" disabled>Pick a team to edit</option>
+          <option *ngFor="let team of teams" [value]="team.id">{{team.name}}</option>
+        </select>
+        <button class="editor-btn" (click)="apply()" [disabled]="!draft || validation.errors.length > 0 || disabled">Save Team</button>
+        <button class="editor-btn" (click)="draft = null" [disabled]="!draft">Discard Changes</button>
+        <button class="editor-btn" (click)="exportTeams()" [disabled]="!teams.length">Export JSON</button>
+        <label class="editor-btn file-btn" [class.disabled]="disabled">
+          Import JSON
+          <input type="file" accept=".json,application/json" (change)="importTeams($event)" [disabled]="disabled" hidden>
+        </label>
+        <button class="editor-btn danger" (click)="forgetSaved()" [disabled]="!store.hasSaved() || disabled">Forget Saved Teams</button>
+        <span class="status" *ngIf="status">{{status}}</span>
+      </div>
+
+      <ng-container *ngIf="draft">
+        <div class="team-fields">
+          <label>Name <input type="text" [(ngModel)]="draft.name" maxlength="40"></label>
+          <label>
+            Kit
+            <input type="color" [(ngModel)]="draft.color">
+            <input type="text" class="hex" [(ngModel)]="draft.color" maxlength="7">
+          </label>
+        </div>
+
+        <ul class="messages" *ngIf="validation.errors.length || validation.warnings.length">
+          <li class="error" *ngFor="let e of validation.errors">{{e}}</li>
+          <li class="warning" *ngFor="let w of validation.warnings">{{w}}</li>
+        </ul>
+
+        <table class="players">
+          <thead>
+            <tr>
+              <th>#</th><th class="name">Name</th><th>Role</th>
+              <th *ngFor="let a of abilityKeys" [title]="rangeLabel(a.key)">{{a.label}}</th>
+            </tr>
+          </thead>
+          <tbody>
+            <ng-container *ngFor="let group of groups">
+              <tr class="group-row" *ngIf="group.players.length"><td [attr.colspan]="3 + abilityKeys.length">{{group.label}}</td></tr>
+              <tr *ngFor="let p of group.players; let i = index">
+                <td>{{group.offset + i + 1}}</td>
+                <td class="name"><input type="text" [(ngModel)]="p.name" maxlength="30"></td>
+                <td>
+                  <select [(ngModel)]="p.role">
+                    <option *ngFor="let r of roles" [value]="r">{{r}}</option>
+                  </select>
+                </td>
+                <td *ngFor="let a of abilityKeys">
+                  <input type="number" [(ngModel)]="p.abilities![a.key]" *ngIf="!a.keeper || p.role === 'goalkeeper'"
+                         [min]="range(a.key)[0]" [max]="range(a.key)[1]" [step]="a.key === 'speedFactor' ? 0.01 : 1">
+                </td>
+              </tr>
+            </ng-container>
+          </tbody>
+        </table>
+      </ng-container>
+    </div>
+  `,
+  styles: [`
+    .team-editor { margin-top: 30px; }
+    .team-editor h3 { margin-bottom: 10px; }
+    .editor-actions, .team-fields { display: flex; flex-wrap: wrap; gap: 10px; align-items: center; margin-bottom: 12px; }
+    .editor-btn { padding: 6px 12px; border: none; border-radius: 8px; background: #667eea; color: #fff; cursor: pointer; font-size: 0.9rem; }
+    .editor-btn:disabled, .editor-btn.disabled { background: #ccc; cursor: not-allowed; }
+    .editor-btn.danger { background: #dc3545; }
+    .editor-btn.danger:disabled { background: #ccc; }
+    .file-btn { display: inline-flex; align-items: center; }
+    .status { color: #666; font-style: italic; white-space: pre-line; }
+    .hex { width: 80px; }
+    .messages { list-style: none; margin-bottom: 10px; font-size: 0.85rem; }
+    .messages .error { color: #dc3545; }
+    .messages .warning { color: #b8860b; }
+    .players { width: 100%; border-collapse: collapse; font-size: 0.85rem; }
+    .players th, .players td { padding: 3px 4px; text-align: center; border-bottom: 1px solid #eee; }
+    .players .name { text-align: left; }
+    .players .name input { width: 100%; }
+    .players input[type=number] { width: 56px; }
+    .group-row td { text-align: left; font-weight: 600; color: #666; }
+  `]
+})
+export class TeamEditorComponent {
+  @Input() teams: Team[] = [];
+  @Input() disabled = false; // a live match is running
+  @Output() teamsChange = new EventEmitter<Team[]>();
+  @Output() reset = new EventEmitter<void>(); // saved teams were forgotten: regenerate the pool
+
+  readonly roles: Player['role'][] = ['goalkeeper', 'defender', 'midfielder', 'forward'];
+  readonly abilityKeys: { key: keyof PlayerAbilities; label: string; keeper?: boolean }[] = [
+    { key: 'passPower', label: 'Pass' },
+    { key: 'shotPower', label: 'Shot' },
+    { key: 'accuracy', label: 'Acc' },
+    { key: 'stamina', label: 'Stam' },
+    { key: 'maxStamina', label: 'Max Stam' },
+    { key: 'speedFactor', label: 'Speed' },
+    { key: 'agility', label: 'Agil' },
+    { key: 'reflexes', label: 'Reflex', keeper: true },
+    { key: 'handling', label: 'Hand', keeper: true },
+    { key: 'distribution', label: 'Dist', keeper: true },
+  ];
+
+  draft: Team | null = null;
+  status = '';
+
+  constructor(private teamService: TeamService, public store: TeamStoreService) {}
+
+  get validation(): TeamValidation {
+    return this.draft ? this.teamService.validateTeam(this.draft, this.teams) : { errors: [], warnings: [] };
+  }
+
+  get groups(): { label: string; players: Player[]; offset: number }[] {
+    if (!this.draft) return [];
+    return [
+      { label: 'Starting XI', players: this.draft.players, offset: 0 },
+      { label: 'Bench', players: this.draft.bench ?? [], offset: this.draft.players.length },
+    ];
+  }
+
+  /** Edit a copy so an invalid team never reaches the pool */
+  edit(teamId: string): void {
+    const team = this.teams.find(t => t.id === teamId);
+    if (!team) return;
+    this.draft = cloneTeam(team);
+    this.draft.bench = this.draft.bench ?? [];
+    [...this.draft.players, ...this.draft.bench].forEach(p => {
+      p.abilities = p.abilities ?? { passPower: 70, shotPower: 70, accuracy: 70, stamina: 80, maxStamina: 80, speedFactor: 1, agility: 70 };
+    });
+    this.status = '';
+  }
+
+  /** Put the edited team into the pool and save the whole pool for the next session */
+  apply(): void {
+    if (!this.draft || this.validation.errors.length) return;
+    const edited = this.draft;
+    const teams = this.teams.map(t => t.id === edited.id ? edited : t);
+    this.store.save(teams);
+    this.teamsChange.emit(teams);
+    this.draft = null;
+    this.status = `Saved ${edited.name}.`;
+  }
+
+  exportTeams(): void {
+    const blob = new Blob([this.store.serialize(this.teams)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'teams.json';
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  importTeams(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+    file.text().then(text => {
+      try {
+        const teams = this.store.parse(text);
+        this.store.save(teams);
+        this.draft = null;
+        this.teamsChange.emit(teams);
+        this.status = `Imported ${teams.length} teams.`;
+      } catch (err) {
+        console.error('Could not import teams:', err);
+        this.status = `Import failed: ${(err as Error).message}`;
+      }
+      input.value = '';
+    });
+  }
+
+  forgetSaved(): void {
+    this.store.clear();
+    this.draft = null;
+    this.status = 'Saved teams removed.';
+    this.reset.emit();
+  }
+
+  range(key: keyof PlayerAbilities): [number, number] {
+    return TeamService.ABILITY_RANGES[key];
+  }
+
+  rangeLabel(key: keyof PlayerAbilities): string {
+    const [min, max] = this.range(key);
+    return `${key}: ${min}–${max}`;
+  }
+}
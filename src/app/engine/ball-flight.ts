@@ -0,0 +1,47 @@
+import { environment } from '../../environments/environment';
+
+// ----- Ball flight -----
+// Vertical motion of a ball in the air (metres, seconds). The engine moves the ball across the
+// pitch itself; these helpers give the height of a kick launched upwards at vz0 under gravity.
+
+const flight = () => environment.gameSettings.ballFlight;
+
+/** Launch speed (m/s) that peaks at apex metres */
+export function launchForApex(apex: number): number {
+  return Math.sqrt(2 * flight().gravity * Math.max(0, apex));
+}
+
+/** Launch speed (m/s) that is at endHeight metres after seconds in the air */
+export function launchForLanding(endHeight: number, seconds: number): number {
+  const t = Math.max(0.05, seconds);
+  return (endHeight + flight().gravity * t * t / 2) / t;
+}
+
+/** Seconds until a ball launched at vz0 comes down through endHeight (0 = lands) */
+export function timeToDescend(vz0: number, endHeight = 0): number {
+  const g = flight().gravity;
+  return (vz0 + Math.sqrt(Math.max(0, vz0 * vz0 - 2 * g * endHeight))) / g;
+}
+
+/** Height (m) and vertical speed (m/s) seconds after launch at vz0 */
+export function heightAt(vz0: number, seconds: number): { z: number; vz: number } {
+  const g = flight().gravity;
+  return { z: Math.max(0, vz0 * seconds - g * seconds * seconds / 2), vz: vz0 - g * seconds };
+}
+
+/**
+ * One tick of a loose ball's vertical motion: gravity, then a bounce that keeps `restitution` of
+ * the speed. Bounces too weak to matter settle the ball on the grass.
+ */
+export function fallStep(z: number, vz: number, dtSec: number): { z: number; vz: number } {
+  if (z <= 0 && vz <= 0) return { z: 0, vz: 0 };
+  const cfg = flight();
+  vz -= cfg.gravity * dtSec;
+  z += vz * dtSec;
+  if (z <= 0) {
+    z = 0;
+    vz = -vz * cfg.restitution;
+    if (vz < 1) vz = 0;
+  }
+  return { z, vz };
+}
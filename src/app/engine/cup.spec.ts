@@ -0,0 +1,66 @@
+import { Team } from '../services/team.service';
+import { KnockoutCup, generateBracket, roundName } from './cup';
+
+describe('generateBracket', () => {
+  const ids = (n: number) => Array.from({ length: n }, (_, i) => `t${i}`);
+
+  it('draws every team once into a power-of-two bracket', () => {
+    const ties = generateBracket(ids(8), 7);
+    expect(ties.map(t => t.round)).toEqual([1, 1, 1, 1, 2, 2, 3]);
+    const drawn = ties.filter(t => t.round === 1).flatMap(t => [t.homeId, t.awayId]);
+    expect([...drawn].sort()).toEqual(ids(8));
+    expect(generateBracket(ids(8), 7)).toEqual(ties);
+  });
+
+  it('spreads the byes so bye teams do not meet in round two', () => {
+    const firstRound = generateBracket(ids(6), 7).filter(t => t.round === 1);
+    expect(firstRound.filter(t => !t.awayId).map(t => t.slot)).toEqual([0, 2]);
+    expect(firstRound.every(t => !!t.homeId)).toBeTrue();
+  });
+});
+
+describe('KnockoutCup', () => {
+  const team = (id: string): Team => ({ id, name: id.toUpperCase(), color: '#FF6B6B', players: [] });
+  const score = (team1: number, team2: number) => ({ score: { team1, team2 } });
+
+  it('sends bye teams straight into round two', () => {
+    const cup = new KnockoutCup(['a', 'b', 'c', 'd', 'e', 'f'].map(team), { seed: 7, duration: 45 });
+    const byes = cup.tiesOf(1).filter(t => t.bye);
+    expect(byes.length).toBe(2);
+    byes.forEach(t => expect(t.winnerId).toBe(t.homeId!));
+    const [semi1, semi2] = cup.tiesOf(2);
+    expect(semi1.homeId).toBe(byes[0].homeId);
+    expect(semi2.homeId).toBe(byes[1].homeId);
+    expect(cup.nextTie()?.round).toBe(1);
+  });
+
+  it('carries each winner to the right side of the next tie and crowns the champion', () => {
+    const cup = new KnockoutCup(['a', 'b', 'c', 'd'].map(team), { seed: 3, duration: 45 });
+    const [first, second] = cup.tiesOf(1);
+    cup.recordResult(first.id, score(2, 1));
+    cup.recordResult(second.id, score(0, 1));
+    const final = cup.tiesOf(2)[0];
+    expect(final.homeId).toBe(first.homeId);
+    expect(final.awayId).toBe(second.awayId);
+    expect(cup.isComplete).toBeFalse();
+    cup.recordResult(final.id, score(0, 3));
+    expect(cup.championId).toBe(second.awayId);
+  });
+
+  it('settles a level tie on penalties and ignores a second result', () => {
+    const cup = new KnockoutCup(['a', 'b'].map(team), { seed: 3, duration: 45 });
+    const [final] = cup.tiesOf(1);
+    cup.recordResult(final.id, {
+      score: { team1: 1, team2: 1 }, extraTime: true,
+      shootout: { team1: ['goal', 'saved', 'goal'], team2: ['goal', 'goal', 'goal'], firstKicker: 'team1' },
+    });
+    expect(final.result).toEqual({ home: 1, away: 1, extraTime: true, shootout: { home: 2, away: 3 } });
+    expect(cup.championId).toBe(final.awayId);
+    cup.recordResult(final.id, score(5, 0));
+    expect(cup.championId).toBe(final.awayId);
+  });
+
+  it('names rounds back from the final', () => {
+    expect([1, 2, 3, 4].map(r => roundName(r, 4))).toEqual(['Round of 16', 'Quarter-finals', 'Semi-finals', 'Final']);
+  });
+});
@@ -0,0 +1,155 @@
+import { Team } from '../services/team.service';
+import { GameState } from './match-engine';
+import { SeededRandom } from './seeded-random';
+import { simulateMatch, HeadlessMatchOptions } from './headless-runner';
+
+export interface CupResult {
+  home: number;
+  away: number;
+  extraTime: boolean;
+  shootout?: { home: number; away: number }; // penalties scored by each side
+}
+
+export interface CupTie {
+  id: string;
+  round: number;            // 1-based; the last round is the final
+  slot: number;             // position within the round; slots 2k and 2k+1 feed slot k of the next round
+  homeId: string | null;    // null until the feeding tie is decided
+  awayId: string | null;    // null in a first-round bye
+  seed: number;             // match seed, derived from the cup seed so the whole draw replays exactly
+  bye?: boolean;
+  result?: CupResult;
+  winnerId?: string;
+}
+
+export interface CupOptions {
+  seed: number;
+  duration: number;         // match length in simulated seconds
+}
+
+/**
+ * Single-elimination bracket. The draw is shuffled from the cup seed; when the team count is
+ * not a power of two some first-round ties are byes straight into round two.
+ */
+export function generateBracket(teamIds: string[], seed = 1): CupTie[] {
+  const size = Math.max(2, 2 ** Math.ceil(Math.log2(Math.max(2, teamIds.length))));
+  const rounds = Math.log2(size);
+  const drawn = new SeededRandom(seed).shuffle([...teamIds]);
+  const byes = size - drawn.length;
+  const ties: CupTie[] = [];
+  for (let round = 1; round <= rounds; round++) {
+    const count = size / 2 ** round;
+    for (let slot = 0; slot < count; slot++) {
+      ties.push({ id: `cup_${round}_${slot}`, round, slot, homeId: null, awayId: null, seed: 0 });
+    }
+  }
+  // Byes go to alternate ties first so teams with a bye do not meet each other in round two
+  const firstRound = ties.filter(t => t.round === 1);
+  const byeSlots = new Set([...firstRound.filter(t => t.slot % 2 === 0), ...firstRound.filter(t => t.slot % 2 === 1)]
+    .slice(0, byes).map(t => t.slot));
+  let next = 0;
+  firstRound.forEach(tie => {
+    tie.homeId = drawn[next++] ?? null;
+    tie.awayId = byeSlots.has(tie.slot) ? null : drawn[next++] ?? null;
+  });
+  ties.forEach((t, i) => t.seed = (seed + i * 7919) >>> 0 || 1);
+  return ties;
+}
+
+/** Human name of a round counted back from the final */
+export function roundName(round: number, roundCount: number): string {
+  const fromEnd = roundCount - round;
+  if (fromEnd === 0) return 'Final';
+  if (fromEnd === 1) return 'Semi-finals';
+  if (fromEnd === 2) return 'Quarter-finals';
+  return `Round of ${2 ** (fromEnd + 1)}`;
+}
+
+/** A knockout cup over a fixed team pool; ties are simulated headless or reported from live matches */
+export class KnockoutCup {
+  readonly ties: CupTie[];
+  private readonly teamsById: Map<string, Team>;
+
+  constructor(readonly teams: Team[], readonly options: CupOptions) {
+    this.teamsById = new Map(teams.map(t => [t.id, t]));
+    this.ties = generateBracket(teams.map(t => t.id), options.seed);
+    this.ties.filter(t => t.round === 1 && t.homeId && !t.awayId).forEach(t => {
+      t.bye = true;
+      this.decide(t, t.homeId!);
+    });
+  }
+
+  get roundCount(): number {
+    return this.ties.reduce((max, t) => Math.max(max, t.round), 0);
+  }
+
+  get isComplete(): boolean {
+    return !!this.final.winnerId;
+  }
+
+  get championId(): string | null {
+    return this.final.winnerId ?? null;
+  }
+
+  private get final(): CupTie {
+    return this.ties[this.ties.length - 1];
+  }
+
+  team(id: string | null): Team | undefined {
+    return id ? this.teamsById.get(id) : undefined;
+  }
+
+  tiesOf(round: number): CupTie[] {
+    return this.ties.filter(t => t.round === round);
+  }
+
+  roundName(round: number): string {
+    return roundName(round, this.roundCount);
+  }
+
+  /** Next tie with both teams known and no winner yet (bracket order) */
+  nextTie(): CupTie | undefined {
+    return this.ties.find(t => !t.winnerId && t.homeId && t.awayId);
+  }
+
+  /** Round of the next playable tie (or the final once complete) */
+  currentRound(): number {
+    return this.nextTie()?.round ?? this.roundCount;
+  }
+
+  /** Record a finished knockout match (team1 = home) and send the winner through */
+  recordResult(tieId: string, state: Pick<GameState, 'score' | 'extraTime' | 'shootout'>): void {
+    const tie = this.ties.find(t => t.id === tieId);
+    if (!tie || tie.winnerId || !tie.homeId || !tie.awayId) return;
+    const goals = (kicks: string[]) => kicks.filter(k => k === 'goal').length;
+    const shootout = state.shootout ? { home: goals(state.shootout.team1), away: goals(state.shootout.team2) } : undefined;
+    tie.result = { home: state.score.team1, away: state.score.team2, extraTime: !!state.extraTime, shootout };
+    const [decidingHome, decidingAway] = shootout && state.score.team1 === state.score.team2
+      ? [shootout.home, shootout.away]
+      : [state.score.team1, state.score.team2];
+    this.decide(tie, decidingHome >= decidingAway ? tie.homeId : tie.awayId);
+  }
+
+  /** Simulate one tie headless with extra time and penalties (teams are cloned, so the pool is untouched) */
+  simulateTie(tie: CupTie, options: HeadlessMatchOptions = {}): CupTie {
+    const home = this.team(tie.homeId);
+    const away = this.team(tie.awayId);
+    if (!home || !away || tie.winnerId) return tie;
+    const { finalState } = simulateMatch(home, away, {
+      ...options, duration: this.options.duration, seed: tie.seed, knockout: true,
+    });
+    this.recordResult(tie.id, finalState);
+    return tie;
+  }
+
+  simulateRemaining(options: HeadlessMatchOptions = {}): void {
+    for (let tie = this.nextTie(); tie; tie = this.nextTie()) this.simulateTie(tie, options);
+  }
+
+  private decide(tie: CupTie, winnerId: string): void {
+    tie.winnerId = winnerId;
+    const next = this.ties.find(t => t.round === tie.round + 1 && t.slot === Math.floor(tie.slot / 2));
+    if (!next) return;
+    if (tie.slot % 2 === 0) next.homeId = winnerId; else next.awayId = winnerId;
+  }
+}
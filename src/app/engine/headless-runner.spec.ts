@@ -0,0 +1,66 @@
+import { TeamService } from '../services/team.service';
+import { HeadlessMatchResult, simulateMatch } from './headless-runner';
+
+describe('simulateMatch', () => {
+  const teams = new TeamService().generateRandomTeams(4242);
+  const play = (seed: number) => simulateMatch(teams[0], teams[1], { duration: 30, seed });
+
+  it('replays a seed exactly: same event stream, score and tick count', () => {
+    const first = play(42);
+    const second = play(42);
+    expect(second.events).toEqual(first.events);
+    expect(second.finalState.score).toEqual(first.finalState.score);
+    expect(second.ticks).toBe(first.ticks);
+    expect(second.seed).toBe(42);
+  });
+
+  it('plays a different match for a different seed', () => {
+    expect(play(7).events).not.toEqual(play(42).events);
+  });
+
+  it('advances the clock in fixed steps of tickMs', () => {
+    const result = simulateMatch(teams[0], teams[1], { duration: 30, tickMs: 20, seed: 42 });
+    expect(result.simulatedMs).toBe(result.ticks * 20);
+  });
+
+  it('runs to the final whistle without touching the caller\'s teams', () => {
+    const before = JSON.stringify(teams[0]);
+    const result = play(42);
+    expect(result.finalState.phase).toBe('finished');
+    expect(result.finalState.timeRemaining).toBe(0);
+    expect(JSON.stringify(teams[0])).toBe(before);
+  });
+
+  it('generates the same squads from the same seed', () => {
+    expect(new TeamService().generateRandomTeams(4242)).toEqual(teams);
+  });
+});
+
+describe('simulateMatch scoring', () => {
+  const teams = new TeamService().generateRandomTeams(4242);
+  let batch: HeadlessMatchResult[] = [];
+  const perMatch = (count: (result: HeadlessMatchResult) => number) => batch.reduce((sum, r) => sum + count(r), 0) / batch.length;
+
+  // A seeded batch of full-length matches, each side meeting the next in the list
+  beforeAll(() => {
+    batch = Array.from({ length: 20 }, (_, i) =>
+      simulateMatch(teams[i % teams.length], teams[(i + 1) % teams.length], { duration: 45, seed: i + 1 }));
+  });
+
+  it('takes 4–9 shots per match', () => {
+    const shots = perMatch(r => r.events.filter(e => e.type === 'shot' && e.result === 'attempt').length);
+    expect(shots).toBeGreaterThanOrEqual(4);
+    expect(shots).toBeLessThanOrEqual(9);
+  });
+
+  it('scores 1.2–3 goals per match', () => {
+    const goals = perMatch(r => r.finalState.score.team1 + r.finalState.score.team2);
+    expect(goals).toBeGreaterThanOrEqual(1.2);
+    expect(goals).toBeLessThanOrEqual(3);
+  });
+
+  it('draws fewer than half of the matches', () => {
+    const draws = batch.filter(r => r.finalState.score.team1 === r.finalState.score.team2).length;
+    expect(draws).toBeLessThan(batch.length / 2);
+  });
+});
@@ -0,0 +1,58 @@
+import { Team, GameEvent } from '../services/team.service';
+import { environment } from '../../environments/environment';
+import { MatchEngine, GameState, MatchOptions, Weather, cloneTeam } from './match-engine';
+import { MatchRecorder, MatchRecording } from './match-recorder';
+
+export interface HeadlessMatchOptions {
+  duration?: number;               // match length in simulated seconds
+  tickMs?: number;                 // fixed step size (defaults to gameSettings.simTickMs)
+  seed?: number | null;            // match seed (defaults to gameSettings.randomSeed, else random)
+  record?: boolean;                // capture a per-tick MatchRecording
+  knockout?: boolean;              // level after full time → extra time, then penalties
+  weather?: Weather;               // starting conditions (defaults to gameSettings.weather)
+  tactics?: MatchOptions['tactics']; // formations and sliders (formation drawn from the seed when absent)
+  log?: (message: string) => void; // engine trace output (silent by default)
+}
+
+export interface HeadlessMatchResult {
+  team1: Team;
+  team2: Team;
+  seed: number;
+  finalState: GameState;
+  events: GameEvent[];
+  ticks: number;
+  simulatedMs: number;
+  recording?: MatchRecording;
+}
+
+/**
+ * Simulate one full match as fast as the CPU allows.
+ * Teams are cloned first so the caller's objects can be reused for the next fixture.
+ */
+export function simulateMatch(team1: Team, team2: Team, options: HeadlessMatchOptions = {}): HeadlessMatchResult {
+  const home = cloneTeam(team1);
+  const away = cloneTeam(team2);
+  const engine = new MatchEngine({ tickMs: options.tickMs, log: options.log ?? (() => {}) });
+  const startMs = engine.now();
+  engine.startGame(home, away, options.duration ?? environment.gameSettings.defaultGameDuration, options.seed, {
+    knockout: options.knockout,
+    weather: options.weather,
+    tactics: options.tactics,
+  });
+  const recorder = options.record
+    ? new MatchRecorder(home, away, engine.state.timeRemaining, engine.tickMs, startMs)
+    : null;
+  recorder?.capture(engine.state, engine.now());
+  const ticks = engine.runToCompletion(undefined, recorder ? () => recorder.capture(engine.state, engine.now()) : undefined);
+  const finalState = engine.state;
+  return {
+    team1: home,
+    team2: away,
+    seed: finalState.seed!,
+    finalState,
+    events: finalState.events,
+    ticks,
+    simulatedMs: engine.now() - startMs,
+    recording: recorder?.finish(finalState),
+  };
+}
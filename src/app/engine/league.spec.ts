@@ -0,0 +1,79 @@
+import { Team } from '../services/team.service';
+import { Fixture, computeStandings, generateRoundRobin } from './league';
+
+describe('generateRoundRobin', () => {
+  const ids = (n: number) => Array.from({ length: n }, (_, i) => `t${i}`);
+  const pairKey = (f: Fixture) => [f.homeId, f.awayId].sort().join('-');
+
+  it('has every pair meet once, each team playing once per round', () => {
+    const fixtures = generateRoundRobin(ids(6));
+    expect(fixtures.length).toBe(15);
+    expect(new Set(fixtures.map(pairKey)).size).toBe(15);
+    for (let round = 1; round <= 5; round++) {
+      const teams = fixtures.filter(f => f.round === round).flatMap(f => [f.homeId, f.awayId]);
+      expect(new Set(teams).size).toBe(6);
+    }
+  });
+
+  it('sits out one team per round when the count is odd', () => {
+    const fixtures = generateRoundRobin(ids(5));
+    expect(fixtures.length).toBe(10);
+    expect(Math.max(...fixtures.map(f => f.round))).toBe(5);
+    ids(5).forEach(id => {
+      const rounds = new Set(fixtures.filter(f => f.homeId === id || f.awayId === id).map(f => f.round));
+      expect(rounds.size).toBe(4);
+    });
+  });
+
+  it('shares home games out evenly', () => {
+    const fixtures = generateRoundRobin(ids(6));
+    ids(6).forEach(id => {
+      const home = fixtures.filter(f => f.homeId === id).length;
+      expect(Math.abs(home - (5 - home))).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it('plays the return legs with home and away swapped', () => {
+    const fixtures = generateRoundRobin(ids(4), true);
+    const [firstLeg, secondLeg] = [fixtures.slice(0, 6), fixtures.slice(6)];
+    expect(secondLeg.map(f => [f.round - 3, f.awayId, f.homeId])).toEqual(firstLeg.map(f => [f.round, f.homeId, f.awayId]));
+  });
+
+  it('derives distinct fixture seeds from the season seed', () => {
+    const fixtures = generateRoundRobin(ids(6), false, 42);
+    expect(new Set(fixtures.map(f => f.seed)).size).toBe(fixtures.length);
+    expect(generateRoundRobin(ids(6), false, 42)).toEqual(fixtures);
+  });
+});
+
+describe('computeStandings', () => {
+  const team = (id: string, name: string): Team => ({ id, name, color: '#FF6B6B', players: [] });
+  const teams = [team('a', 'Alpha'), team('b', 'Bravo'), team('c', 'Charlie'), team('d', 'Delta')];
+  const played = (homeId: string, awayId: string, home: number, away: number): Fixture =>
+    ({ id: `${homeId}-${awayId}`, round: 1, homeId, awayId, seed: 1, result: { home, away } });
+
+  it('separates teams level on points, goal difference and goals by their head-to-head', () => {
+    // Alpha and Bravo both finish on 3 points, 1 scored and 1 conceded; Bravo won their meeting
+    const table = computeStandings(teams, [
+      played('b', 'a', 1, 0),
+      played('a', 'c', 1, 0),
+      played('d', 'b', 1, 0),
+    ]);
+    expect(table.map(r => r.name)).toEqual(['Delta', 'Bravo', 'Alpha', 'Charlie']);
+    expect(table[1].points).toBe(table[2].points);
+    expect(table[1].goalDifference).toBe(table[2].goalDifference);
+  });
+
+  it('falls back to wins and then the name when the head-to-head is level too', () => {
+    const table = computeStandings(teams, [
+      played('b', 'a', 1, 1),
+      played('c', 'd', 2, 2),
+    ]);
+    expect(table.map(r => r.name)).toEqual(['Charlie', 'Delta', 'Alpha', 'Bravo']);
+  });
+
+  it('ignores unplayed fixtures', () => {
+    const table = computeStandings(teams, [{ id: 'x', round: 1, homeId: 'a', awayId: 'b', seed: 1 }]);
+    expect(table.every(r => r.played === 0)).toBeTrue();
+  });
+});
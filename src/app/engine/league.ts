@@ -0,0 +1,180 @@
+import { Team } from '../services/team.service';
+import { simulateMatch, HeadlessMatchOptions } from './headless-runner';
+
+export interface Fixture {
+  id: string;
+  round: number;            // 1-based matchday
+  homeId: string;           // plays as team1 (left side at kickoff)
+  awayId: string;
+  seed: number;             // match seed, derived from the season seed so a season replays exactly
+  result?: { home: number; away: number };
+}
+
+export interface StandingRow {
+  teamId: string;
+  name: string;
+  color: string;
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  goalDifference: number;
+  points: number;
+}
+
+export interface LeagueOptions {
+  double?: boolean;         // home and away legs
+  seed: number;
+  duration: number;         // match length in simulated seconds
+}
+
+/**
+ * Round-robin schedule (circle method): every team meets every other team once per leg.
+ * With an odd team count one team sits out each round.
+ */
+export function generateRoundRobin(teamIds: string[], double = false, seed = 1): Fixture[] {
+  const ids = teamIds.length % 2 === 0 ? [...teamIds] : [...teamIds, ''];
+  const n = ids.length;
+  const rounds = n - 1;
+  const fixtures: Fixture[] = [];
+  const homeGames = new Map<string, number>(ids.map(id => [id, 0]));
+  let rotation = [...ids];
+  for (let r = 0; r < rounds; r++) {
+    for (let i = 0; i < n / 2; i++) {
+      const a = rotation[i];
+      const b = rotation[n - 1 - i];
+      if (!a || !b) continue;
+      // Give home advantage to whoever has hosted less so far (alternating on ties)
+      const ha = homeGames.get(a)!; const hb = homeGames.get(b)!;
+      const aHome = ha !== hb ? ha < hb : (r + i) % 2 === 0;
+      const [homeId, awayId] = aHome ? [a, b] : [b, a];
+      homeGames.set(homeId, homeGames.get(homeId)! + 1);
+      fixtures.push({ id: '', round: r + 1, homeId, awayId, seed: 0 });
+    }
+    rotation = [rotation[0], rotation[n - 1], ...rotation.slice(1, n - 1)];
+  }
+  if (double) {
+    const firstLeg = [...fixtures];
+    firstLeg.forEach(f => fixtures.push({ ...f, round: f.round + rounds, homeId: f.awayId, awayId: f.homeId }));
+  }
+  fixtures.forEach((f, i) => {
+    f.id = `fx_${f.round}_${f.homeId}_${f.awayId}`;
+    f.seed = (seed + i * 7919) >>> 0 || 1;
+  });
+  return fixtures;
+}
+
+/**
+ * League table from the played fixtures.
+ * Order: points, goal difference, goals for, head-to-head points and goal difference
+ * among the tied teams, wins, then name.
+ */
+export function computeStandings(teams: Team[], fixtures: Fixture[]): StandingRow[] {
+  const rows = new Map<string, StandingRow>();
+  teams.forEach(t => rows.set(t.id, {
+    teamId: t.id, name: t.name, color: t.color,
+    played: 0, won: 0, drawn: 0, lost: 0, goalsFor: 0, goalsAgainst: 0, goalDifference: 0, points: 0,
+  }));
+  const played = fixtures.filter(f => f.result && rows.has(f.homeId) && rows.has(f.awayId));
+  played.forEach(f => {
+    const home = rows.get(f.homeId)!; const away = rows.get(f.awayId)!;
+    const { home: hg, away: ag } = f.result!;
+    home.played++; away.played++;
+    home.goalsFor += hg; home.goalsAgainst += ag;
+    away.goalsFor += ag; away.goalsAgainst += hg;
+    if (hg > ag) { home.won++; away.lost++; home.points += 3; }
+    else if (hg < ag) { away.won++; home.lost++; away.points += 3; }
+    else { home.drawn++; away.drawn++; home.points++; away.points++; }
+  });
+  rows.forEach(r => r.goalDifference = r.goalsFor - r.goalsAgainst);
+
+  const primary = (a: StandingRow, b: StandingRow) =>
+    (b.points - a.points) || (b.goalDifference - a.goalDifference) || (b.goalsFor - a.goalsFor);
+  const sorted = [...rows.values()].sort(primary);
+
+  // Resolve groups still level on the primary criteria with a head-to-head mini table
+  const result: StandingRow[] = [];
+  for (let i = 0; i < sorted.length;) {
+    let j = i + 1;
+    while (j < sorted.length && primary(sorted[i], sorted[j]) === 0) j++;
+    const group = sorted.slice(i, j);
+    if (group.length > 1) {
+      const h2h = headToHead(group.map(r => r.teamId), played);
+      group.sort((a, b) =>
+        (h2h.get(b.teamId)!.points - h2h.get(a.teamId)!.points) ||
+        (h2h.get(b.teamId)!.gd - h2h.get(a.teamId)!.gd) ||
+        (b.won - a.won) ||
+        a.name.localeCompare(b.name));
+    }
+    result.push(...group);
+    i = j;
+  }
+  return result;
+}
+
+function headToHead(ids: string[], fixtures: Fixture[]): Map<string, { points: number; gd: number }> {
+  const table = new Map(ids.map(id => [id, { points: 0, gd: 0 }]));
+  fixtures.filter(f => table.has(f.homeId) && table.has(f.awayId)).forEach(f => {
+    const home = table.get(f.homeId)!; const away = table.get(f.awayId)!;
+    const { home: hg, away: ag } = f.result!;
+    home.gd += hg - ag; away.gd += ag - hg;
+    if (hg > ag) home.points += 3; else if (hg < ag) away.points += 3; else { home.points++; away.points++; }
+  });
+  return table;
+}
+
+/** A season over a fixed team pool; fixtures are simulated headless or reported from live matches */
+export class LeagueSeason {
+  readonly fixtures: Fixture[];
+  private readonly teamsById: Map<string, Team>;
+
+  constructor(readonly teams: Team[], readonly options: LeagueOptions) {
+    this.teamsById = new Map(teams.map(t => [t.id, t]));
+    this.fixtures = generateRoundRobin(teams.map(t => t.id), !!options.double, options.seed);
+  }
+
+  get roundCount(): number {
+    return this.fixtures.reduce((max, f) => Math.max(max, f.round), 0);
+  }
+
+  get isComplete(): boolean {
+    return this.fixtures.every(f => !!f.result);
+  }
+
+  team(id: string): Team | undefined {
+    return this.teamsById.get(id);
+  }
+
+  nextFixture(): Fixture | undefined {
+    return this.fixtures.find(f => !f.result);
+  }
+
+  /** Round of the next unplayed fixture (or the last round once complete) */
+  currentRound(): number {
+    return this.nextFixture()?.round ?? this.roundCount;
+  }
+
+  recordResult(fixtureId: string, home: number, away: number): void {
+    const fixture = this.fixtures.find(f => f.id === fixtureId);
+    if (fixture) fixture.result = { home, away };
+  }
+
+  /** Simulate one fixture headless (teams are cloned, so the pool is untouched) */
+  simulateFixture(fixture: Fixture, options: HeadlessMatchOptions = {}): Fixture {
+    const home = this.teamsById.get(fixture.homeId)!;
+    const away = this.teamsById.get(fixture.awayId)!;
+    const { finalState } = simulateMatch(home, away, { ...options, duration: this.options.duration, seed: fixture.seed });
+    fixture.result = { home: finalState.score.team1, away: finalState.score.team2 };
+    return fixture;
+  }
+
+  simulateRemaining(options: HeadlessMatchOptions = {}): void {
+    this.fixtures.filter(f => !f.result).forEach(f => this.simulateFixture(f, options));
+  }
+
+  standings(): StandingRow[] {
+    return computeStandings(this.teams, this.fixtures);
+  }
+}
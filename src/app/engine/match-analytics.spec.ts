@@ -0,0 +1,38 @@
+import { GameEvent } from '../services/team.service';
+import { shotOutcomes } from './match-analytics';
+
+describe('shotOutcomes', () => {
+  let time = 0;
+  const event = (type: GameEvent['type'], team: string, extra: Partial<GameEvent> = {}): GameEvent =>
+    ({ time: time++, type, team, player: `${team} 9`, description: '', period: 1, ...extra });
+  const attempt = (team: string) => event('shot', team, { subtype: 'shot_attempt', result: 'attempt', xg: 0.1 });
+
+  it('reads each attempt\'s outcome from the goal, save or miss that follows it', () => {
+    const scored = attempt('Reds');
+    const saved = attempt('Blues');
+    const missed = attempt('Reds');
+    const miss = event('shot', 'Reds', { result: 'off_target', subtype: 'wide', endX: 104, endY: 20 });
+    const wall = event('shot', 'Blues', { subtype: 'direct_free_kick', result: 'blocked' });
+    const outcomes = shotOutcomes([
+      scored, event('goal', 'Reds'),
+      saved, event('save', 'Reds', { subtype: 'goalkeeper_save', result: 'saved' }),
+      missed, miss,
+      wall,
+    ], 'Reds', 'Blues');
+    expect(outcomes.get(scored)).toBe('goal');
+    expect(outcomes.get(saved)).toBe('saved');
+    expect(outcomes.get(missed)).toBe('off_target');
+    expect(outcomes.get(wall)).toBe('blocked');
+    expect(outcomes.has(miss)).toBeFalse();
+    expect(outcomes.size).toBe(4);
+  });
+
+  it('does not credit a later goal to an attempt that missed', () => {
+    const missed = attempt('Reds');
+    const outcomes = shotOutcomes([
+      missed, event('shot', 'Reds', { result: 'off_target', subtype: 'over_bar' }),
+      event('goal', 'Reds'),
+    ], 'Reds', 'Blues');
+    expect(outcomes.get(missed)).toBe('off_target');
+  });
+});
@@ -0,0 +1,204 @@
+import { GameEvent } from '../services/team.service';
+import { MatchRecording, phaseOf } from './match-recorder';
+import { PITCH } from './pitch';
+
+// ----- Post-match analytics -----
+// Everything is drawn from a MatchRecording (events + frames), so a downloaded match file can be
+// analysed as well as the match just played. Coordinates are pitch metres with the first-half
+// orientation kept for the whole match: team1 attacks to the right, team2 to the left.
+
+export type Side = 'team1' | 'team2';
+
+export type ShotOutcome = 'goal' | 'saved' | 'blocked' | 'off_target';
+
+export interface ShotPoint {
+  side: Side;
+  player: string;
+  x: number; y: number;   // where the shot was struck
+  xg: number;
+  outcome: ShotOutcome;
+  shotType?: string;      // open_play, header, free_kick or penalty (absent in older match files)
+  minute: number;
+  label?: string;         // match clock label (e.g. 45+2')
+}
+
+export interface PassNode {
+  player: string;
+  x: number; y: number;   // average position on the ball (passes made and received)
+  touches: number;        // completed passes made plus received
+}
+
+export interface PassLink {
+  from: string;
+  to: string;
+  count: number;          // completed passes from → to
+}
+
+export interface PassNetwork {
+  nodes: PassNode[];
+  links: PassLink[];
+}
+
+export interface Heatmap {
+  cols: number;
+  rows: number;
+  cells: number[];        // ticks spent in each cell, row by row from the top-left
+  max: number;
+}
+
+export interface XgStep {
+  minute: number;
+  team1: number;          // cumulative xG after this minute's shots
+  team2: number;
+}
+
+export interface XgTimeline {
+  steps: XgStep[];
+  goals: { side: Side; minute: number; player: string }[];
+}
+
+const W = PITCH.length;
+
+/** Which recorded side a team name belongs to (null for neutral / referee events) */
+function sideOf(recording: MatchRecording, team: string): Side | null {
+  return team === recording.teams[0].name ? 'team1' : team === recording.teams[1].name ? 'team2' : null;
+}
+
+/** Ends are swapped from the half-time whistle on (extra time keeps the second-half ends) */
+function switchedAtEvent(recording: MatchRecording): number {
+  const i = recording.events.findIndex(e => e.subtype === 'halftime');
+  return i < 0 ? recording.events.length : i;
+}
+
+function switchedAtFrame(recording: MatchRecording): number {
+  const i = switchedAtEvent(recording);
+  return i < recording.eventFrames.length ? recording.eventFrames[i] : recording.frames.length;
+}
+
+/**
+ * Outcome of every shot event (attempts and wall blocks), read from the save, goal or miss that
+ * followed it. Shootout kicks are penalty events and are not included.
+ */
+export function shotOutcomes(events: GameEvent[], team1Name: string, team2Name: string): Map<GameEvent, ShotOutcome> {
+  const outcomes = new Map<GameEvent, ShotOutcome>();
+  const open = new Map<string, GameEvent>(); // attempt still in flight per team
+  events.forEach(e => {
+    if (e.period === 4 || (e.team !== team1Name && e.team !== team2Name)) return;
+    if (e.type === 'shot' && (e.subtype === 'shot_attempt' || e.result === 'blocked')) {
+      outcomes.set(e, e.result === 'blocked' ? 'blocked' : 'off_target');
+      if (e.result !== 'blocked') open.set(e.team, e);
+    } else if (e.type === 'goal' && open.has(e.team)) {
+      outcomes.set(open.get(e.team)!, 'goal');
+      open.delete(e.team);
+    } else if (e.type === 'save' && e.subtype === 'goalkeeper_save') {
+      const shooter = e.team === team1Name ? team2Name : team1Name;
+      if (open.has(shooter)) outcomes.set(open.get(shooter)!, 'saved');
+      open.delete(shooter);
+    } else if (e.type === 'shot' && e.result === 'off_target') {
+      open.delete(e.team); // missed the target: stays off_target
+    }
+  });
+  return outcomes;
+}
+
+/** Shots ordered by time, each with its outcome */
+export function shotMap(recording: MatchRecording): ShotPoint[] {
+  const switchAt = switchedAtEvent(recording);
+  const outcomes = shotOutcomes(recording.events, recording.teams[0].name, recording.teams[1].name);
+  const shots: ShotPoint[] = [];
+  recording.events.forEach((e, i) => {
+    const outcome = outcomes.get(e);
+    const side = sideOf(recording, e.team);
+    if (!outcome || !side) return;
+    const flip = i > switchAt;
+    shots.push({
+      side, player: e.player, xg: e.xg ?? 0, minute: e.realMinute ?? 0, label: e.displayTime,
+      x: flip ? W - (e.startX ?? 0) : e.startX ?? 0, y: e.startY ?? 0, outcome, shotType: e.shotType,
+    });
+  });
+  return shots;
+}
+
+/**
+ * Who passes to whom. A completed pass is logged twice: the attempt (player = passer) and the
+ * completion (player = receiver) share the start coordinates, which pairs them up.
+ */
+export function passNetwork(recording: MatchRecording, side: Side): PassNetwork {
+  const switchAt = switchedAtEvent(recording);
+  const teamName = recording.teams[side === 'team1' ? 0 : 1].name;
+  const attempts = new Map<string, string>(); // start key → passer
+  const spots = new Map<string, { x: number; y: number; n: number }>();
+  const links = new Map<string, PassLink>();
+  const touch = (player: string, x: number, y: number) => {
+    const s = spots.get(player) ?? { x: 0, y: 0, n: 0 };
+    s.x += x; s.y += y; s.n++;
+    spots.set(player, s);
+  };
+  recording.events.forEach((e, i) => {
+    if (e.type !== 'pass' || e.team !== teamName) return;
+    const key = `${e.startX},${e.startY}`;
+    if (e.result === 'attempt') {
+      attempts.set(key, e.player);
+      return;
+    }
+    const passer = attempts.get(key);
+    if (e.result !== 'complete' || !passer || passer === e.player) return;
+    attempts.delete(key);
+    const flip = i > switchAt;
+    const fx = (x: number | undefined) => flip ? W - (x ?? 0) : x ?? 0;
+    touch(passer, fx(e.startX), e.startY ?? 0);
+    touch(e.player, fx(e.endX), e.endY ?? 0);
+    const linkKey = `${passer}→${e.player}`;
+    const link = links.get(linkKey) ?? { from: passer, to: e.player, count: 0 };
+    link.count++;
+    links.set(linkKey, link);
+  });
+  return {
+    nodes: [...spots.entries()].map(([player, s]) => ({ player, x: s.x / s.n, y: s.y / s.n, touches: s.n })),
+    links: [...links.values()].sort((a, b) => b.count - a.count),
+  };
+}
+
+/**
+ * Time spent in each cell of a cols × rows grid while the ball was in play, for one player or the
+ * team's outfield players (the keeper would swamp the team map).
+ */
+export function heatmap(recording: MatchRecording, side: Side, playerId?: string, cols = 21, rows = 14): Heatmap {
+  const H = PITCH.width;
+  const team = recording.teams[side === 'team1' ? 0 : 1];
+  const indices = team.players.map((p, i) => ({ p, i }))
+    .filter(({ p }) => playerId ? p.id === playerId : p.role !== 'goalkeeper')
+    .map(({ i }) => i);
+  const switchAt = switchedAtFrame(recording);
+  const cells = new Array(cols * rows).fill(0);
+  recording.frames.forEach((frame, f) => {
+    if (phaseOf(frame) !== 'inplay') return;
+    const flat = side === 'team1' ? frame.p1 : frame.p2;
+    indices.forEach(i => {
+      let x = flat[i * 2]; const y = flat[i * 2 + 1];
+      if (x == null || x < 0 || y < 0) return; // not on the pitch (bench, sent off, substituted)
+      if (f >= switchAt) x = W - x;
+      const c = Math.min(cols - 1, Math.floor(x / W * cols));
+      const r = Math.min(rows - 1, Math.floor(y / H * rows));
+      cells[r * cols + c]++;
+    });
+  });
+  return { cols, rows, cells, max: Math.max(0, ...cells) };
+}
+
+/** Cumulative xG per side, one step for each minute with a shot, plus when the goals went in */
+export function xgTimeline(recording: MatchRecording): XgTimeline {
+  const steps: XgStep[] = [{ minute: 0, team1: 0, team2: 0 }];
+  const goals: XgTimeline['goals'] = [];
+  shotMap(recording).forEach(shot => {
+    const last = steps[steps.length - 1];
+    const step = last.minute === shot.minute ? last : { ...last, minute: shot.minute };
+    step[shot.side] += shot.xg;
+    if (step !== last) steps.push(step);
+  });
+  recording.events.forEach((e: GameEvent) => {
+    const side = sideOf(recording, e.team);
+    if (e.type === 'goal' && side && e.period !== 4) goals.push({ side, minute: e.realMinute ?? 0, player: e.player });
+  });
+  return { steps, goals };
+}
@@ -0,0 +1,105 @@
+import { GameEvent, TeamService } from '../services/team.service';
+import { DisciplineSettings, MatchEngine, cloneTeam } from './match-engine';
+import { PITCH } from './pitch';
+
+describe('MatchEngine fouls', () => {
+  const teams = new TeamService().generateRandomTeams(4242);
+
+  interface WhistledFoul { foul: GameEvent; restart: GameEvent; inOwnBox: boolean; events: GameEvent[] }
+
+  /** Every foul of a seeded league match with the restart it led to (the next penalty or free kick) */
+  function playFouls(seed: number, discipline: Partial<DisciplineSettings>): WhistledFoul[] {
+    const engine = new MatchEngine({ log: () => {}, discipline });
+    const team1 = cloneTeam(teams[0]);
+    engine.startGame(team1, cloneTeam(teams[1]), 45, seed);
+    engine.runToCompletion();
+    const events = engine.state.events;
+    return events.flatMap((foul, i) => {
+      const restart = events.slice(i + 1).find(e => e.type === 'penalty' || e.type === 'free_kick');
+      if (foul.type !== 'foul' || !restart) return [];
+      // Team1 defends the left goal in the first half and the right one after the break
+      const defendsLeft = (foul.team === team1.name) === (foul.period === 1);
+      const inOwnBox = Math.abs(foul.endY! - PITCH.width / 2) <= PITCH.penaltyAreaWidth / 2
+        && (defendsLeft ? foul.endX! <= PITCH.penaltyAreaDepth : foul.endX! >= PITCH.length - PITCH.penaltyAreaDepth);
+      return [{ foul, restart, inOwnBox, events: events.slice(i + 1, events.indexOf(restart)) }];
+    });
+  }
+
+  /** The first foul in the offender's own box over a run of seeds (box fouls are rare in any one match) */
+  function firstBoxFoul(discipline: Partial<DisciplineSettings>): WhistledFoul {
+    for (let seed = 1; seed <= 60; seed++) {
+      const found = playFouls(seed, discipline).find(f => f.inOwnBox);
+      if (found) return found;
+    }
+    throw new Error('no foul in the box in 60 seeded matches');
+  }
+
+  it('gives a penalty for a red-card foul inside the offender\'s box', () => {
+    const { foul, restart, events } = firstBoxFoul({ redChance: 1 });
+    expect(events.some(e => e.type === 'red_card' && e.player === foul.player && e.team === foul.team)).toBeTrue();
+    expect(restart.type).toBe('penalty');
+    expect(restart.result).toBe('awarded');
+    expect(restart.team).not.toBe(foul.team);
+  });
+
+  it('gives a penalty for an unpunished foul inside the offender\'s box', () => {
+    const { restart, events } = firstBoxFoul({ redChance: 0, yellowChance: 0, tackleYellowChance: 0 });
+    expect(events.some(e => e.type === 'yellow_card' || e.type === 'red_card')).toBeFalse();
+    expect(restart.type).toBe('penalty');
+    expect(restart.result).toBe('awarded');
+  });
+
+  it('gives the fouled side a free kick for a foul anywhere else, even after a red card', () => {
+    const elsewhere = playFouls(1, { redChance: 1 }).filter(f => !f.inOwnBox);
+    expect(elsewhere.length).toBeGreaterThan(0);
+    elsewhere.forEach(({ foul, restart }) => {
+      expect(restart.type).toBe('free_kick');
+      expect(restart.team).not.toBe(foul.team);
+    });
+  });
+});
+
+describe('MatchEngine stopGame', () => {
+  const teams = new TeamService().generateRandomTeams(4242);
+
+  it('lets go of the squads when stopped before the kickoff whistle', () => {
+    const engine = new MatchEngine({ log: () => {} });
+    const team1 = cloneTeam(teams[0]);
+    engine.startGame(team1, cloneTeam(teams[1]), 60, 42);
+    engine.step();
+    expect(engine.state.phase).toBe('kickoff');
+    engine.stopGame();
+    // Edited after the match was abandoned; the next match must not put the old line-up back
+    const dropped = team1.players.pop()!;
+    engine.startGame(cloneTeam(teams[2]), cloneTeam(teams[3]), 60, 42);
+    expect(team1.players).not.toContain(dropped);
+    expect(team1.players.length).toBe(teams[0].players.length - 1);
+  });
+
+  it('does not blow the kickoff whistle after being stopped', () => {
+    const engine = new MatchEngine({ log: () => {} });
+    engine.startGame(cloneTeam(teams[0]), cloneTeam(teams[1]), 60, 42);
+    engine.stopGame();
+    for (let i = 0; i < 200; i++) engine.step();
+    expect(engine.state.isRunning).toBeFalse();
+    expect(engine.state.events.some(e => e.type === 'kickoff')).toBeFalse();
+  });
+});
+
+describe('MatchEngine goalkeeping', () => {
+  const teams = new TeamService().generateRandomTeams(4242);
+
+  it('never lets a keeper gather their own roll, throw or kick', () => {
+    for (let seed = 1; seed <= 10; seed++) {
+      const engine = new MatchEngine({ log: () => {} });
+      engine.startGame(cloneTeam(teams[0]), cloneTeam(teams[1]), 45, seed);
+      engine.runToCompletion();
+      const events = engine.state.events;
+      events.forEach((e, i) => {
+        if (e.type !== 'pass' || e.result !== 'attempt' || !e.subtype?.startsWith('keeper_')) return;
+        const next = events[i + 1];
+        expect(next?.subtype === 'goalkeeper_collection' && next.player === e.player).withContext(`seed ${seed}, ${e.subtype} at ${e.time}`).toBeFalse();
+      });
+    }
+  });
+});
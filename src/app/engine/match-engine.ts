@@ -0,0 +1,2909 @@
+import { BehaviorSubject, Subject, Observable } from 'rxjs';
+import { Team, Player, GameEvent } from '../services/team.service';
+import { environment } from '../../environments/environment';
+import { SimulationClock, FixedStepClock } from './simulation-clock';
+import { SeededRandom, resolveSeed } from './seeded-random';
+import { CardCounts, cardCounts } from './match-stats';
+import { Formation, FORMATIONS, TeamTactics, DEFAULT_TACTICS, findFormation, sliderFactor } from './tactics';
+import { PITCH } from './pitch';
+import { ShotType, XgInputs, expectedGoals, goalMouthAngle, angleBetween } from './xg-model';
+import { launchForApex, launchForLanding, timeToDescend, heightAt, fallStep } from './ball-flight';
+import { offsideLineX, isOffsidePosition } from './offside';
+
+export interface GameState {
+  isRunning: boolean;
+  timeRemaining: number;
+  score: { team1: number; team2: number };
+  ball: { x: number; y: number; vx: number; vy: number; z?: number; vz?: number }; // pitch metres, m/s; z = height (absent = on the grass)
+  events: GameEvent[];
+  currentBallOwner: string | null;
+  phase: 'pregame' | 'kickoff' | 'inplay' | 'halftime' | 'penalties' | 'finished';
+  kickoffTeamName?: string | null;
+  seed?: number; // RNG seed of the current match (replays it exactly)
+  half?: 1 | 2;                    // regulation half being played (extra time follows the second half)
+  addedTime?: number;              // announced added minutes for the current half (0 until announced)
+  clockLabel?: string;             // match clock as shown to viewers, e.g. 23', 45+2', HT, FT
+  extraTime?: boolean;             // knockout tie went past regulation time
+  shootout?: ShootoutState | null; // penalty shootout tally (knockout ties level after extra time)
+  winner?: string | null;          // winning team name once finished (null for a draw)
+  weather?: Weather;               // current conditions (may change once mid-match)
+  cards?: CardCounts;              // yellow and red cards shown to each team
+  substitutions?: SubstitutionState; // changes made and manual changes waiting for a stoppage
+  tactics?: MatchTactics;          // formation and sliders each team is playing with
+  possession?: { team1: number; team2: number }; // in-play ms with each side last in control of the ball
+}
+
+export type Weather = 'clear' | 'rain' | 'heat';
+
+/** A manual change waiting for the next stoppage */
+export interface QueuedSubstitution {
+  side: 'team1' | 'team2';
+  offId: string;
+  onId: string;
+}
+
+export interface SubstitutionState {
+  used: { team1: number; team2: number };
+  queued: QueuedSubstitution[];
+}
+
+export interface MatchTactics {
+  team1: TeamTactics;
+  team2: TeamTactics;
+}
+
+export type PenaltyOutcome = 'goal' | 'saved' | 'missed';
+
+export interface ShootoutState {
+  team1: PenaltyOutcome[];
+  team2: PenaltyOutcome[];
+  firstKicker: 'team1' | 'team2';
+}
+
+export interface MatchOptions {
+  knockout?: boolean; // a draw goes to extra time, then to a penalty shootout
+  weather?: Weather;  // starting conditions (defaults to gameSettings.weather)
+  tactics?: { team1?: Partial<TeamTactics>; team2?: Partial<TeamTactics> }; // missing sliders default to 50
+}
+
+/** A pass or shot in flight from passer towards target (a shot targets the shooter) */
+interface PendingPass {
+  passer: Player; target: Player;
+  startX: number; startY: number; endX: number; endY: number;
+  startTime: number; duration: number; type: string; shot?: boolean; xg?: number;
+  vz0?: number;  // launch vertical speed (m/s) of a ball played in the air
+  curl?: number; // sideways bend (m) at mid-flight, to the left of the direction of travel when negative
+  corner?: boolean; // a corner delivered into the box: contested on arrival (resolveCornerDelivery)
+}
+
+/** A pass the carrier could play, scored by choosePass (components 0–1, progress -1–1) */
+interface PassOption {
+  target: Player;
+  kind: 'short_pass' | 'medium_pass' | 'long_pass' | 'through_ball' | 'cross' | 'keeper_roll' | 'keeper_throw' | 'keeper_kick';
+  x: number; y: number;   // where the ball is played to
+  progress: number;       // metres gained towards goal, scaled
+  support: number;        // open space at the landing point and a free receiver
+  risk: number;           // chance an opponent can step into the lane
+  utility: number;
+}
+
+/** A pass or shot being wound up: the player turns to face it and plants before the ball is struck */
+interface Windup {
+  player: Player;
+  until: number;          // sim time the ball leaves the foot
+  angle: number;          // direction of the kick (radians)
+  grace: number;          // restartGraceUntil when it began; a restart since then calls it off
+  shot?: { goalX: number; goalY: number };
+  pass?: PassOption;
+}
+
+/** A shootout kick in flight; the outcome is drawn when the ball is struck */
+interface PenaltyKick {
+  taker: Player;
+  keeper: Player | null;
+  side: 'team1' | 'team2';
+  outcome: PenaltyOutcome;
+  startX: number; startY: number; endX: number; endY: number;
+  diveY: number;      // where the keeper ends up along the goal line
+  startTime: number;
+  duration: number;
+}
+
+export interface MatchEngineOptions {
+  clock?: SimulationClock;       // defaults to a fresh FixedStepClock starting at 0ms
+  tickMs?: number;               // fixed simulation step used by step() / runToCompletion()
+  log?: (message: string) => void; // debug trace sink (console.log by default, no-op for batch runs)
+  discipline?: Partial<DisciplineSettings>; // card odds over gameSettings.discipline
+}
+
+export type DisciplineSettings = typeof environment.gameSettings.discipline;
+
+/**
+ * Pure match simulation core.
+ * Has no Angular, DOM or wall-clock dependencies: time only moves when step() is called,
+ * so the same engine can be driven in real time by GameEngineService or run headless in Node.
+ */
+export class MatchEngine {
+  // ---------- Reactive state ----------
+  private gameState$ = new BehaviorSubject<GameState>({
+    isRunning: false,
+    timeRemaining: 0,
+    score: { team1: 0, team2: 0 },
+    ball: { x: PITCH.length / 2, y: PITCH.width / 2, vx: 0, vy: 0 },
+    events: [],
+    currentBallOwner: null,
+    phase: 'pregame',
+    kickoffTeamName: null,
+  });
+  private gameEvents$ = new Subject<GameEvent>();
+
+  // ---------- Clock & scheduling ----------
+  readonly tickMs: number;
+  private readonly clock: SimulationClock;
+  private readonly log: (message: string) => void;
+  private readonly discipline: DisciplineSettings;
+  private lastDecisionTime = 0;
+  private kickoffWhistleAt: number | null = null; // sim time of the opening whistle
+  private matchClockRunning = false;
+  private matchClockAccumulatorMs = 0;
+  private halftimeEndsAt: number | null = null; // sim time the half-time break is over
+  private halfLengths: [number, number] = [0, 0]; // regulation seconds in each half
+  private periodLength = 0;        // match seconds in the current half or extra-time period
+  private playedSeconds = 0;       // match seconds played so far, added time included (event timestamps)
+  private addedSeconds = 0;        // simulated seconds of added time at the end of the current half
+  private addedElapsed = 0;        // seconds of added time already played (> 0 only while in added time)
+  private inAddedTime = false;
+
+  // ---------- Game State ----------
+  private team1: Team | null = null;
+  private team2: Team | null = null;
+  private gameDuration = environment.gameSettings.defaultGameDuration;
+  private rng = new SeededRandom(1);
+  private knockout = false;
+  private weather: Weather = environment.gameSettings.weather;
+  private weatherShiftAt: number | null = null; // played second at which the weather changes (null = settled)
+  private touchBlocked: { id: string; until: number } | null = null; // receiver who just fumbled a wet first touch
+  // Penalty shootout progress (kick count, per-team taker rotation, ball in flight)
+  private shootoutRun: {
+    kicks: number; nextKickAt: number; takers: { team1: number; team2: number };
+    flight: PenaltyKick | null;
+  } | null = null;
+  // --- Added advanced simulation state ---
+  private pendingPass: PendingPass | null = null;
+  private windup: Windup | null = null;
+  private cornerMarks = new Map<Player, Player>(); // corner marker → the runner they follow while the delivery is in the air
+  private cornerScrumUntil = 0; // box still packed after a corner: only contact on the ball carrier is whistled
+  private keeperHold: { keeper: Player; since: number; hands: boolean } | null = null; // keeper on the ball, waiting to distribute
+  private restartTaker: Player | null = null; // took a throw-in or goal kick: their next pass cannot be offside
+  private lastPassTime = 0;
+  private passCooldownMs = 1000; // Realistic passing rhythm (was 800, originally 1400ms)
+  private momentumCounter = 0;
+  private halfSwitched = false;
+  // Kickoff / possession tracking additions
+  private possessionLockOwner: string | null = null;
+  private possessionLockUntil = 0;
+  private possessionStartTime = 0;
+  private tackleCooldownUntil = new Map<string, number>(); // per player: no new challenge before this sim time
+
+  // Logging throttle
+  private lastBallLogTime = 0;
+  private ballLogIntervalMs = 150; // Log ball position every 150ms (was 500ms) for smoother tracking
+
+  // Fouls & cards control
+  private lastFoulTime = Number.NEGATIVE_INFINITY;
+  private foulCooldownMs = 4000;
+  private bookings = new Map<string, number>(); // yellow cards per player id
+  private roleSwaps: { player: Player; role: Player['role'] }[] = []; // stand-in keepers, reshaped lines, out-of-position subs
+
+  // Squads: sent-off and substituted players leave team.players; the kickoff line-ups are put back afterwards
+  private squads: { team: Team; players: Player[]; bench: Player[] }[] = [];
+  private sides = new Map<Player, 'team1' | 'team2'>(); // every squad member's side, fixed at kickoff
+  private subsUsed = { team1: 0, team2: 0 };
+  private subQueue: QueuedSubstitution[] = [];
+  private injured = new Set<string>(); // players who have to come off at the next stoppage
+  // Tactics: formation and sliders per side; a team with a manager's formation is never switched by the AI
+  private tactics: MatchTactics = { team1: { ...DEFAULT_TACTICS }, team2: { ...DEFAULT_TACTICS } };
+  private managed = new Set<'team1' | 'team2'>();
+  private formationSwitched = new Set<'team1' | 'team2'>();
+  // Possession: in-play time credited to the side that last had the ball (a loose ball stays theirs)
+  private possessionMs = { team1: 0, team2: 0 };
+  private possessionSide: 'team1' | 'team2' | null = null;
+  // Restart grace (suppresses immediate tackles/offside after restarts)
+  private restartGraceUntil = 0;
+  // Track last shooter & last touch for restart attribution
+  private lastShooter: Player | null = null;
+  private lastTouchTeam: 'team1' | 'team2' | null = null;
+  // Recent owners history (throw-in attribution)
+  private recentOwners: string[] = [];
+
+  constructor(options: MatchEngineOptions = {}) {
+    this.clock = options.clock ?? new FixedStepClock();
+    this.tickMs = options.tickMs ?? environment.gameSettings.simTickMs;
+    this.log = options.log ?? ((message: string) => console.log(message));
+    this.discipline = { ...environment.gameSettings.discipline, ...options.discipline };
+  }
+
+  // ---------- Public streams ----------
+  getGameState(): Observable<GameState> {
+    return this.gameState$.asObservable();
+  }
+
+  getGameEvents(): Observable<GameEvent> {
+    return this.gameEvents$.asObservable();
+  }
+
+  /** Latest snapshot without subscribing (used by drivers and headless runs) */
+  get state(): GameState {
+    return this.gameState$.value;
+  }
+
+  /** Current simulation time in ms */
+  now(): number {
+    return this.clock.now();
+  }
+
+  // -------------------------------------------------
+  // Match lifecycle
+  // -------------------------------------------------
+  /**
+   * Set up a match. The seed (argument, then environment.gameSettings.randomSeed, then a fresh one)
+   * drives every random decision, so the same teams + duration + seed replay identically.
+   */
+  startGame(team1: Team, team2: Team, duration: number = this.gameDuration, seed?: number | null, options: MatchOptions = {}): void {
+    this.restoreSquads();
+    // Initialize teams and game state
+    // IMPORTANT: Use the original team object references so the component inputs reflect updated player positions.
+    // Previously we deep-cloned teams; that prevented the canvas from seeing updated positions (stayed at 0,0).
+    this.team1 = team1;
+    this.team2 = team2;
+    this.gameDuration = duration;
+    this.knockout = !!options.knockout;
+    this.weather = options.weather ?? environment.gameSettings.weather;
+    this.squads = [team1, team2].map(team => ({ team, players: [...team.players], bench: [...(team.bench ?? [])] }));
+    this.sides = new Map();
+    [...team1.players, ...(team1.bench ?? [])].forEach(p => this.sides.set(p, 'team1'));
+    [...team2.players, ...(team2.bench ?? [])].forEach(p => this.sides.set(p, 'team2'));
+    // Everyone starts fresh (team objects are reused between matches); substitutes wait off the pitch
+    [...team1.players, ...team2.players].forEach(p => { if (p.abilities) p.abilities.stamina = p.abilities.maxStamina; });
+    [...(team1.bench ?? []), ...(team2.bench ?? [])].forEach(p => {
+      if (p.abilities) p.abilities.stamina = p.abilities.maxStamina;
+      p.position.x = -50;
+      p.position.y = -50;
+    });
+    this.rng = new SeededRandom(resolveSeed(seed ?? environment.gameSettings.randomSeed));
+    this.tactics = {
+      team1: { ...DEFAULT_TACTICS, ...options.tactics?.team1 },
+      team2: { ...DEFAULT_TACTICS, ...options.tactics?.team2 },
+    };
+    this.managed = new Set((['team1', 'team2'] as const).filter(side => findFormation(this.tactics[side].formation)));
+    this.formationSwitched.clear();
+    this.ensureDistinctTeamColors();
+  this.initializePlayerPositions();
+
+  this.halfSwitched = false;
+  this.pendingPass = null;
+  this.lastPassTime = this.clock.now();
+  this.possessionLockOwner = null;
+  this.possessionLockUntil = 0;
+  this.possessionStartTime = 0;
+  this.lastFoulTime = Number.NEGATIVE_INFINITY;
+  this.matchClockRunning = false;
+  this.matchClockAccumulatorMs = 0;
+  this.kickoffWhistleAt = null;
+  this.halftimeEndsAt = null;
+  this.halfLengths = [Math.floor(duration / 2), duration - Math.floor(duration / 2)];
+  this.periodLength = this.halfLengths[0];
+  this.playedSeconds = 0;
+  this.addedSeconds = 0;
+  this.addedElapsed = 0;
+  this.inAddedTime = false;
+  this.shootoutRun = null;
+  this.touchBlocked = null;
+  this.cornerMarks.clear();
+  this.cornerScrumUntil = 0;
+  this.keeperHold = null;
+  this.restartTaker = null;
+  this.tackleCooldownUntil.clear();
+  this.bookings.clear();
+  this.subsUsed = { team1: 0, team2: 0 };
+  this.subQueue = [];
+  this.injured.clear();
+  this.possessionMs = { team1: 0, team2: 0 };
+  this.possessionSide = null;
+    this.gameState$.next({
+      isRunning: false,
+      timeRemaining: duration,
+      score: { team1: 0, team2: 0 },
+      ball: { x: this.W / 2, y: this.H / 2, vx: 0, vy: 0 },
+      events: [],
+      currentBallOwner: null,
+      phase: 'pregame',
+      kickoffTeamName: null,
+      seed: this.rng.seed,
+      half: 1,
+      addedTime: 0,
+      clockLabel: "0'",
+      extraTime: false,
+      shootout: null,
+      winner: null,
+      weather: this.weather,
+      cards: cardCounts([], team1.name, team2.name),
+      substitutions: { used: { team1: 0, team2: 0 }, queued: [] },
+      tactics: this.currentTactics(),
+      possession: { team1: 0, team2: 0 },
+    });
+
+    // Handle coin toss and kickoff
+    const coinWinner = this.rand() < 0.5 ? this.team1! : this.team2!;
+    this.gameState$.next({ ...this.gameState$.value, kickoffTeamName: coinWinner.name });
+    this.emitEvent('coin_toss', coinWinner.name, 'Referee');
+
+    this.setUpKickoff(coinWinner);
+    this.scheduleWeatherShift(duration);
+
+    this.lastDecisionTime = this.clock.now();
+  }
+
+  /** Ball on the centre spot with the kicker's forward on it; the whistle follows one simulated second later */
+  private setUpKickoff(team: Team): void {
+    const kickoffPlayer = this.findKickoffPlayer(team);
+    if (!kickoffPlayer) return;
+    // Place kickoff player at center circle (exact middle of field)
+    const centerX = this.W / 2;
+    const centerY = this.H / 2;
+    kickoffPlayer.position.x = centerX;
+    kickoffPlayer.position.y = centerY;
+
+    this.log(`⚽ KICKOFF: ${kickoffPlayer.name} at center (${centerX}, ${centerY})`);
+
+    this.gameState$.next({
+      ...this.gameState$.value,
+      ball: { x: centerX, y: centerY, vx: 0, vy: 0 }, // Ensure ball is at exact center
+      currentBallOwner: kickoffPlayer.id,
+      phase: 'kickoff',
+    });
+    // Lock initial possession briefly so immediate tackles don't steal kickoff
+    this.possessionStartTime = this.clock.now();
+    this.possessionLockOwner = kickoffPlayer.id;
+    this.possessionLockUntil = this.clock.now() + 600;
+    this.kickoffWhistleAt = this.clock.now() + 1000;
+  }
+
+  /** Abandon the match, including during the kickoff second before the whistle; squads are put back either way */
+  stopGame(): void {
+    const gs = this.gameState$.value;
+    if (gs.isRunning) this.gameState$.next({ ...gs, isRunning: false });
+    this.matchClockRunning = false;
+    this.kickoffWhistleAt = null;
+    this.restoreSquads();
+  }
+
+  /**
+   * Queue a manual substitution for the team with teamId; it is made at the next stoppage.
+   * Returns false when the change is not allowed (unknown players, no changes left, already queued).
+   */
+  requestSubstitution(teamId: string, offId: string, onId: string): boolean {
+    const team = [this.team1, this.team2].find(t => t?.id === teamId);
+    const phase = this.gameState$.value.phase;
+    if (!team || phase === 'finished' || phase === 'penalties') return false;
+    const side = this.sideOf(team);
+    const queued = this.subQueue.filter(q => q.side === side);
+    if (queued.length >= this.subsLeft(team)) return false;
+    if (!team.players.some(p => p.id === offId) || !team.bench?.some(p => p.id === onId)) return false;
+    if (queued.some(q => q.offId === offId || q.onId === onId)) return false;
+    this.subQueue.push({ side, offId, onId });
+    this.updateSubstitutions();
+    return true;
+  }
+
+  /**
+   * Change a team's instructions during a match. Sliders apply at once; a new formation redraws the
+   * team's shape (players drift to their new spots) and is announced as a formation_change event.
+   * A team given a formation by its manager is left alone by the AI for the rest of the match.
+   */
+  setTactics(teamId: string, tactics: Partial<TeamTactics>): boolean {
+    const team = [this.team1, this.team2].find(t => t?.id === teamId);
+    const phase = this.gameState$.value.phase;
+    if (!team || phase === 'finished' || phase === 'penalties') return false;
+    if (tactics.formation !== undefined && !findFormation(tactics.formation)) return false;
+    const side = this.sideOf(team);
+    const { formation, ...sliders } = tactics;
+    this.tactics[side] = { ...this.tactics[side], ...sliders };
+    if (formation) {
+      this.managed.add(side);
+      this.changeFormation(team, formation, 'manual');
+    }
+    this.updateTactics();
+    return true;
+  }
+
+  isFinished(): boolean {
+    return this.gameState$.value.phase === 'finished';
+  }
+
+  // -------------------------------------------------
+  // Fixed-timestep simulation
+  // -------------------------------------------------
+  /** Advance the simulation by one fixed tick of dtMs simulated milliseconds. */
+  step(dtMs: number = this.tickMs): void {
+    if (!this.team1 || !this.team2) return;
+    this.clock.advance(dtMs);
+    const now = this.clock.now();
+
+    if (this.kickoffWhistleAt != null && now >= this.kickoffWhistleAt) {
+      this.kickoffWhistleAt = null;
+      this.blowKickoffWhistle();
+    }
+
+    const gs = this.gameState$.value;
+    if (gs.isRunning && gs.phase === 'inplay') {
+      this.trackPossession(gs.currentBallOwner, dtMs);
+      this.updateBall(dtMs);
+      if (now - this.lastDecisionTime >= environment.gameSettings.decisionIntervalMs) {
+        const sinceLastDecision = now - this.lastDecisionTime;
+        this.lastDecisionTime = now;
+        this.updatePlayerPositions(sinceLastDecision);
+        this.handleGameEvents();
+        this.maybeGenerateFoul(now);
+      }
+    } else if (gs.isRunning && gs.phase === 'halftime') {
+      this.updateHalftime(now);
+    } else if (gs.isRunning && gs.phase === 'penalties') {
+      this.updateShootout(now);
+    }
+
+    if (this.matchClockRunning) {
+      this.matchClockAccumulatorMs += dtMs;
+      while (this.matchClockRunning && this.matchClockAccumulatorMs >= 1000) {
+        this.matchClockAccumulatorMs -= 1000;
+        this.onMatchSecond();
+      }
+    }
+  }
+
+  /**
+   * Step until the final whistle (or until maxSimMs of simulated time has elapsed).
+   * afterStep runs after every tick (e.g. a MatchRecorder). Returns the number of ticks executed.
+   */
+  runToCompletion(maxSimMs: number = (this.gameDuration * 2 + 180) * 1000, afterStep?: () => void): number {
+    const start = this.clock.now();
+    let ticks = 0;
+    while (!this.isFinished() && this.clock.now() - start < maxSimMs) {
+      this.step(this.tickMs);
+      afterStep?.();
+      ticks++;
+    }
+    return ticks;
+  }
+
+  private blowKickoffWhistle(): void {
+    const gs = this.gameState$.value;
+    if (gs.phase !== 'kickoff' || !gs.currentBallOwner) return;
+    const kickoffPlayer = this.findPlayer(gs.currentBallOwner);
+    if (!kickoffPlayer) return;
+    this.emitEvent('kickoff', this.teamOfPlayer(kickoffPlayer).name, kickoffPlayer.name, undefined, {
+      startX: this.W / 2,
+      startY: this.H / 2,
+      endX: this.W / 2,
+      endY: this.H / 2,
+      result: 'restart',
+      subtype: gs.half === 2 ? 'second_half' : 'kickoff'
+    });
+    this.gameState$.next({ ...this.gameState$.value, isRunning: true, phase: 'inplay' });
+    this.matchClockRunning = true;
+    this.matchClockAccumulatorMs = 0;
+  }
+
+  /** One elapsed second of match clock (previously a 1s setInterval) */
+  private onMatchSecond(): void {
+    const gs = this.gameState$.value;
+    if (!gs.isRunning) return;
+    this.playedSeconds++;
+    this.gameState$.next({ ...this.gameState$.value, possession: this.possessionSnapshot() });
+    if (this.weatherShiftAt !== null && this.playedSeconds >= this.weatherShiftAt) this.shiftWeather();
+    if (this.inAddedTime) {
+      this.addedElapsed++;
+      this.updateClockLabel();
+      if (this.addedElapsed >= this.addedSeconds) this.endOfHalf();
+      return;
+    }
+    const timeRemaining = Math.max(0, gs.timeRemaining - 1);
+    this.gameState$.next({ ...this.gameState$.value, timeRemaining });
+    this.updateClockLabel();
+    // Regulation time of the half is up: the fourth official shows the added time
+    const halfEndsAt = !gs.extraTime && gs.half === 1 ? this.halfLengths[1] : 0;
+    if (timeRemaining > halfEndsAt) return;
+    this.addedSeconds = gs.extraTime ? 0 : this.announceAddedTime();
+    if (this.addedSeconds > 0) {
+      this.inAddedTime = true;
+      this.addedElapsed = 0;
+      this.updateClockLabel();
+    } else {
+      this.endOfHalf();
+    }
+  }
+
+  /**
+   * Added minutes from the stoppages of the half (goals, fouls, cards, substitutions, injuries),
+   * announced as an event. Returns the simulated seconds to play on.
+   */
+  private announceAddedTime(): number {
+    const gs = this.gameState$.value;
+    const half = gs.half ?? 1;
+    const events = gs.events.filter(e => e.period === half);
+    const count = (...types: string[]) => events.filter(e => types.includes(e.type)).length;
+    const minutes = Math.max(1, Math.min(6, Math.round(
+      1 + count('goal') * 0.5 + count('foul', 'yellow_card', 'red_card') * 0.25 + count('substitution') * 0.5 + count('injury')
+    )));
+    this.gameState$.next({ ...this.gameState$.value, addedTime: minutes });
+    this.emitEvent('momentum', 'neutral', 'Fourth official', `⏱️ ${minutes} minute${minutes === 1 ? '' : 's'} of added time.`, {
+      result: 'announcement', subtype: 'added_time'
+    });
+    return Math.max(1, Math.round(minutes * this.periodLength / 45));
+  }
+
+  private endOfHalf(): void {
+    this.inAddedTime = false;
+    this.addedSeconds = 0;
+    this.addedElapsed = 0;
+    const gs = this.gameState$.value;
+    if (!gs.extraTime && gs.half === 1) this.startHalftime();
+    else this.endOfPeriod();
+  }
+
+  /**
+   * Match clock as viewers see it: each regulation half maps onto 45 minutes and
+   * extra time onto 30, e.g. 23', 45+2', 90+1', 105'.
+   */
+  private updateClockLabel(): void {
+    const gs = this.gameState$.value;
+    let label: string;
+    if (gs.extraTime) {
+      const played = this.periodLength - gs.timeRemaining;
+      label = `${90 + Math.min(30, Math.floor(played * 30 / this.periodLength) + 1)}'`;
+    } else {
+      const half = gs.half ?? 1;
+      const base = half === 1 ? 0 : 45;
+      const played = this.periodLength - (gs.timeRemaining - (half === 1 ? this.halfLengths[1] : 0));
+      label = this.inAddedTime
+        ? `${base + 45}+${Math.min(gs.addedTime ?? 1, Math.floor(this.addedElapsed * 45 / this.periodLength) + 1)}'`
+        : `${base + Math.min(45, Math.floor(played * 45 / this.periodLength) + 1)}'`;
+    }
+    this.gameState$.next({ ...gs, clockLabel: label });
+  }
+
+  // -------------------------------------------------
+  // Half-time
+  // -------------------------------------------------
+  private startHalftime(): void {
+    this.matchClockRunning = false;
+    this.pendingPass = null;
+    this.possessionLockOwner = null;
+    this.lastTouchTeam = null;
+    this.halfSwitched = true;
+    this.mirrorSides();
+    // The break gives back part of what was spent
+    [...this.team1!.players, ...this.team2!.players].forEach(p => {
+      const a = p.abilities;
+      if (a) a.stamina += (a.maxStamina - a.stamina) * environment.gameSettings.stamina.halftimeRecovery;
+    });
+    this.halftimeEndsAt = this.clock.now() + environment.gameSettings.halftimeBreakMs;
+    const gs = this.gameState$.value;
+    this.gameState$.next({
+      ...gs,
+      phase: 'halftime',
+      currentBallOwner: null,
+      ball: { x: this.W / 2, y: this.H / 2, vx: 0, vy: 0 },
+      addedTime: 0,
+      clockLabel: 'HT',
+    });
+    this.emitEvent('momentum', 'neutral', 'Referee',
+      `⏸️ Half-time: ${this.team1!.name} ${gs.score.team1}–${gs.score.team2} ${this.team2!.name}. Teams switch sides.`,
+      { result: 'whistle', subtype: 'halftime' });
+  }
+
+  /** Players walk back to their mirrored formation spots, arriving before the break ends */
+  private updateHalftime(now: number): void {
+    if (this.halftimeEndsAt == null) return;
+    if (now >= this.halftimeEndsAt) {
+      this.halftimeEndsAt = null;
+      this.startSecondHalf();
+      return;
+    }
+    const arriveBy = this.halftimeEndsAt - environment.gameSettings.halftimeBreakMs * 0.2;
+    const fraction = now >= arriveBy ? 1 : Math.min(1, this.tickMs / (arriveBy - now));
+    [...this.team1!.players, ...this.team2!.players].forEach(p => {
+      if (!p.basePosition) return;
+      p.position.x += (p.basePosition.x - p.position.x) * fraction;
+      p.position.y += (p.basePosition.y - p.position.y) * fraction;
+    });
+  }
+
+  /** The side that kicked off the first half receives; the other side restarts from the centre */
+  private startSecondHalf(): void {
+    this.makeSubstitutions();
+    [...this.team1!.players, ...this.team2!.players].forEach(p => {
+      if (p.basePosition) { p.position.x = p.basePosition.x; p.position.y = p.basePosition.y; }
+    });
+    const gs = this.gameState$.value;
+    const kickoffTeam = gs.kickoffTeamName === this.team1!.name ? this.team2! : this.team1!;
+    this.periodLength = this.halfLengths[1];
+    this.gameState$.next({ ...gs, half: 2, clockLabel: "46'" });
+    this.setUpKickoff(kickoffTeam);
+    this.restartGraceUntil = this.clock.now() + 1500;
+  }
+
+  // -------------------------------------------------
+  // Knockout: extra time & penalty shootout
+  // -------------------------------------------------
+  /** Regulation or extra time ran out: finish, or keep a level knockout tie going */
+  private endOfPeriod(): void {
+    const gs = this.gameState$.value;
+    const level = gs.score.team1 === gs.score.team2;
+    if (this.knockout && level && !gs.extraTime) {
+      this.startExtraTime();
+    } else if (this.knockout && level) {
+      this.startShootout();
+    } else {
+      this.finishMatch(level ? null : (gs.score.team1 > gs.score.team2 ? this.team1!.name : this.team2!.name));
+    }
+  }
+
+  private finishMatch(winner: string | null): void {
+    this.gameState$.next({
+      ...this.gameState$.value, isRunning: false, phase: 'finished', timeRemaining: 0, winner, clockLabel: 'FT',
+      possession: this.possessionSnapshot(),
+    });
+    this.matchClockRunning = false;
+    this.shootoutRun = null;
+    this.restoreSquads();
+  }
+
+  private startExtraTime(): void {
+    const extra = Math.max(1, Math.round(this.gameDuration * environment.gameSettings.knockout.extraTimeFraction));
+    this.periodLength = extra;
+    this.gameState$.next({ ...this.gameState$.value, timeRemaining: extra, extraTime: true, clockLabel: "91'" });
+    // The side that lost the opening coin toss kicks off extra time
+    const gs = this.gameState$.value;
+    const kickoffTeam = gs.kickoffTeamName === this.team1!.name ? this.team2! : this.team1!;
+    this.restartWithKickoff(kickoffTeam, `⏱️ Level at full time – extra time! ${kickoffTeam.name} kick off.`, 800, 'extra_time');
+  }
+
+  private startShootout(): void {
+    this.matchClockRunning = false;
+    this.pendingPass = null;
+    const firstKicker: 'team1' | 'team2' = this.rand() < 0.5 ? 'team1' : 'team2';
+    this.shootoutRun = { kicks: 0, nextKickAt: this.clock.now() + 1500, takers: { team1: 0, team2: 0 }, flight: null };
+    this.gameState$.next({
+      ...this.gameState$.value,
+      phase: 'penalties',
+      timeRemaining: 0,
+      clockLabel: 'PENS',
+      currentBallOwner: null,
+      ball: { x: this.W / 2, y: this.H / 2, vx: 0, vy: 0 },
+      shootout: { team1: [], team2: [], firstKicker },
+    });
+    const firstTeam = firstKicker === 'team1' ? this.team1! : this.team2!;
+    this.emitEvent('penalty', firstTeam.name, 'Referee', `🥅 Still level after extra time – penalty shootout! ${firstTeam.name} go first.`, {
+      result: 'whistle', subtype: 'shootout_start'
+    });
+    this.lineUpForShootout(null, null);
+  }
+
+  /** Everyone waits in the centre circle; the taker stands behind the spot and the keeper on the line */
+  private lineUpForShootout(taker: Player | null, keeper: Player | null): void {
+    const spacing = 2; // metres between players waiting in the circle
+    const place = (players: Player[], x: number) => {
+      const waiting = players.filter(p => p !== taker && p !== keeper);
+      waiting.forEach((p, i) => {
+        p.position.x = x;
+        p.position.y = this.H / 2 + (i - (waiting.length - 1) / 2) * spacing;
+      });
+    };
+    place(this.team1!.players, this.W / 2 - spacing);
+    place(this.team2!.players, this.W / 2 + spacing);
+    const spotX = this.W - PITCH.penaltySpot;
+    if (taker) { taker.position.x = spotX - spacing; taker.position.y = this.H / 2; }
+    if (keeper) { keeper.position.x = this.W - 0.5; keeper.position.y = this.H / 2; }
+  }
+
+  /** Penalty order: best finishers first, goalkeeper last */
+  private penaltyOrder(team: Team): Player[] {
+    const quality = (p: Player) => (p.abilities?.shotPower ?? 70) + (p.abilities?.accuracy ?? 70);
+    const outfield = team.players.filter(p => p.role !== 'goalkeeper').sort((a, b) => quality(b) - quality(a));
+    return [...outfield, ...team.players.filter(p => p.role === 'goalkeeper')];
+  }
+
+  private updateShootout(now: number): void {
+    const run = this.shootoutRun;
+    const so = this.gameState$.value.shootout;
+    if (!run || !so) return;
+
+    if (run.flight) {
+      const f = run.flight;
+      const t = Math.min(1, (now - f.startTime) / f.duration);
+      if (f.keeper) f.keeper.position.y = this.H / 2 + (f.diveY - this.H / 2) * Math.min(1, t * 1.4);
+      this.gameState$.next({
+        ...this.gameState$.value,
+        ball: { x: f.startX + (f.endX - f.startX) * t, y: f.startY + (f.endY - f.startY) * t, vx: 0, vy: 0 },
+      });
+      if (t >= 1) this.completePenalty(f, now);
+      return;
+    }
+    if (now < run.nextKickAt) return;
+
+    const side: 'team1' | 'team2' = run.kicks % 2 === 0 ? so.firstKicker : (so.firstKicker === 'team1' ? 'team2' : 'team1');
+    const kickingTeam = side === 'team1' ? this.team1! : this.team2!;
+    const defendingTeam = side === 'team1' ? this.team2! : this.team1!;
+    const order = this.penaltyOrder(kickingTeam);
+    const taker = order[run.takers[side] % order.length];
+    run.takers[side]++;
+    run.kicks++;
+    const keeper = defendingTeam.players.find(p => p.role === 'goalkeeper') ?? null;
+    this.lineUpForShootout(taker, keeper);
+
+    // Outcome: accuracy decides misses, shot power beats the keeper's reach
+    const power = taker.abilities?.shotPower ?? 70;
+    const accuracy = taker.abilities?.accuracy ?? 70;
+    const keeperAgility = keeper?.abilities?.agility ?? 70;
+    const missChance = Math.max(0.03, 0.16 - ((accuracy - 40) / 60) * 0.12);
+    const saveChance = Math.max(0.08, 0.30 - ((power - 35) / 65) * 0.14 + (keeperAgility - 70) / 400);
+    const outcome: PenaltyOutcome = this.rand() < missChance ? 'missed' : (this.rand() < saveChance ? 'saved' : 'goal');
+
+    const goalHalf = PITCH.goalWidth / 2;
+    const spotX = this.W - PITCH.penaltySpot;
+    const aimY = this.H / 2 + (this.rand() * 2 - 1) * goalHalf * 0.8;
+    let endX = this.W; let endY = aimY; let diveY = this.H / 2 - (aimY - this.H / 2); // wrong way by default
+    if (outcome === 'missed') {
+      endX = this.W + 0.7;
+      endY = this.H / 2 + (aimY >= this.H / 2 ? 1 : -1) * (goalHalf + 1 + this.rand() * 1.6);
+    } else if (outcome === 'saved') {
+      endX = this.W - 0.7;
+      diveY = aimY;
+    }
+    this.gameState$.next({ ...this.gameState$.value, ball: { x: spotX, y: this.H / 2, vx: 0, vy: 0 } });
+    run.flight = {
+      taker, keeper, side, outcome,
+      startX: spotX, startY: this.H / 2, endX, endY, diveY,
+      startTime: now, duration: Math.max(250, 520 - power * 2.5),
+    };
+  }
+
+  private completePenalty(f: PenaltyKick, now: number): void {
+    const run = this.shootoutRun!;
+    run.flight = null;
+    const current = this.gameState$.value.shootout!;
+    const shootout: ShootoutState = { ...current, [f.side]: [...current[f.side], f.outcome] };
+    this.gameState$.next({ ...this.gameState$.value, shootout });
+    const goals = (side: 'team1' | 'team2') => shootout[side].filter(o => o === 'goal').length;
+    const tally = `${goals('team1')}–${goals('team2')}`;
+    const kickingTeam = f.side === 'team1' ? this.team1! : this.team2!;
+    const description = f.outcome === 'goal'
+      ? `⚽ ${f.taker.name} scores from the spot (${tally}).`
+      : f.outcome === 'saved'
+        ? `🧤 ${f.keeper?.name ?? 'The keeper'} saves from ${f.taker.name}! (${tally})`
+        : `❌ ${f.taker.name} misses the target! (${tally})`;
+    this.emitEvent('penalty', kickingTeam.name, f.taker.name, description, {
+      startX: f.startX, startY: f.startY, endX: f.endX, endY: f.endY, result: f.outcome, role: f.taker.role, subtype: 'penalty_shootout'
+    });
+
+    const decided = this.shootoutWinner(shootout);
+    if (decided) {
+      const winner = decided === 'team1' ? this.team1! : this.team2!;
+      const [wg, lg] = decided === 'team1' ? [goals('team1'), goals('team2')] : [goals('team2'), goals('team1')];
+      this.emitEvent('penalty', winner.name, 'Referee', `🏆 ${winner.name} win ${wg}–${lg} on penalties!`, { result: 'win', subtype: 'shootout_end' });
+      this.finishMatch(winner.name);
+    } else {
+      run.nextKickAt = now + environment.gameSettings.knockout.kickIntervalMs;
+    }
+  }
+
+  /** Best of N kicks, decided as soon as one side can no longer be caught; then sudden death in pairs */
+  private shootoutWinner(so: ShootoutState): 'team1' | 'team2' | null {
+    const kicks = environment.gameSettings.knockout.shootoutKicks;
+    const g1 = so.team1.filter(o => o === 'goal').length;
+    const g2 = so.team2.filter(o => o === 'goal').length;
+    const n1 = so.team1.length; const n2 = so.team2.length;
+    if (n1 <= kicks && n2 <= kicks) {
+      if (g1 + (kicks - n1) < g2) return 'team2';
+      if (g2 + (kicks - n2) < g1) return 'team1';
+      return null;
+    }
+    if (n1 === n2 && g1 !== g2) return g1 > g2 ? 'team1' : 'team2';
+    return null;
+  }
+
+  // -------------------------------------------------
+  // Ball and Player Updates
+  // -------------------------------------------------
+  private updateBall(delta: number): void {
+    const gs = this.gameState$.value;
+    let { x, y, vx, vy } = gs.ball;
+    // Animated pass / shot in flight
+    if (this.pendingPass) {
+      const p = this.pendingPass;
+      const t = Math.min(1, (this.clock.now() - p.startTime) / p.duration);
+      x = p.startX + (p.endX - p.startX) * t;
+      y = p.startY + (p.endY - p.startY) * t;
+      if (p.curl) {
+        // Spin bends the flight sideways, most at mid-flight, back onto the target at the end
+        const len = Math.hypot(p.endX - p.startX, p.endY - p.startY) || 1;
+        const bend = p.curl * Math.sin(Math.PI * t);
+        x -= (p.endY - p.startY) / len * bend;
+        y += (p.endX - p.startX) / len * bend;
+      }
+      let air = p.vz0 ? heightAt(p.vz0, t * p.duration / 1000) : { z: 0, vz: 0 };
+      // Rough velocity estimate
+      vx = (p.endX - p.startX) / (p.duration / 1000);
+      vy = (p.endY - p.startY) / (p.duration / 1000);
+      // Adaptive higher-frequency logging during fast passes to reduce perceived teleportation
+      const nowLog = this.clock.now();
+      // Reduce spam: dynamic logging interval based on remaining time
+      // Faster early logging, slower near completion
+      const passLogInterval = t < 0.3 ? 70 : (t < 0.7 ? 110 : 160);
+      if (nowLog - this.lastBallLogTime >= passLogInterval) {
+        this.log(`➡️ Pass flight t=${(t*100).toFixed(0)}% at (${x.toFixed(1)},${y.toFixed(1)})`);
+        this.lastBallLogTime = nowLog;
+      }
+      if (t >= 1) {
+        if (p.shot) {
+          const overTheBar = this.isGoal(x, y) && air.z > PITCH.goalHeight;
+          if (this.isGoal(x, y) && !overTheBar) {
+            // Shot is on target - check for goalkeeper save
+            const shooterTeam = this.isTeam1(p.passer) ? this.team1! : this.team2!;
+            const defendingTeam = shooterTeam === this.team1 ? this.team2! : this.team1!;
+            const keeper = defendingTeam.players.find(pl => pl.role === 'goalkeeper');
+            
+            let saved = false;
+            if (keeper) {
+              // How far the keeper has to reach: their distance from the line of the shot
+              const along = Math.max(0, Math.min(1, this.paramAlongSegment(keeper.position.x, keeper.position.y, p.startX, p.startY, x, y)));
+              const distToShot = Math.hypot(keeper.position.x - (p.startX + (x - p.startX) * along), keeper.position.y - (p.startY + (y - p.startY) * along));
+              const xg = p.xg ?? 0.5;
+              // Save probability: closer keeper + sharper reflexes + lower xG = higher save chance
+              const baseSaveChance = environment.gameSettings.shooting.keeperSave + (this.keeperSkill(keeper, 'reflexes') - 50) / 250; // keeperSave for an average keeper
+              const distBonus = Math.max(0, (9 - distToShot) / 23); // up to +40% if very close
+              const xgPenalty = xg * 0.5; // harder shots reduce save chance
+              const saveChance = Math.min(0.85, baseSaveChance + distBonus - xgPenalty);
+              
+              if (this.rand() < saveChance) {
+                saved = true;
+                // Safe hands hold on to it; otherwise it is parried loose
+                const held = this.rand() < Math.max(0.1, this.keeperSkill(keeper, 'handling') / 100 - xg);
+                this.log(`🧤 GK ${keeper.name}: SAVED shot! Save chance: ${(saveChance * 100).toFixed(0)}%, Distance: ${distToShot.toFixed(1)}, xG: ${xg.toFixed(2)}`);
+                this.emitEvent('save', defendingTeam.name, keeper.name, held ? `${keeper.name} saves and holds on!` : `${keeper.name} saves the shot!`, { 
+                  startX: x, startY: y, endX: keeper.position.x, endY: keeper.position.y, 
+                  result: 'saved', subtype: 'goalkeeper_save', role: 'goalkeeper' 
+                });
+                this.pendingPass = null;
+                if (held) {
+                  this.gameState$.next({ ...this.gameState$.value, ball: { x: keeper.position.x, y: keeper.position.y, vx: 0, vy: 0 } });
+                  this.keeperGathers(keeper, true);
+                  return;
+                }
+                // Ball becomes loose near keeper
+                x = keeper.position.x + (this.rand() - 0.5) * 2.4;
+                y = keeper.position.y + (this.rand() - 0.5) * 2.4;
+                vx = (this.rand() - 0.5) * 0.2;
+                vy = (this.rand() - 0.5) * 0.2;
+                this.pendingPass = null;
+                this.gameState$.next({ ...this.gameState$.value, ball: { x, y, vx, vy }, currentBallOwner: null });
+                return;
+              }
+            }
+            
+            if (!saved) {
+              this.scoreGoal(p.passer);
+              this.pendingPass = null;
+              // scoreGoal handles ball reset
+              return;
+            }
+          } else {
+            this.emitEvent('shot', this.teamOfPlayer(p.passer).name, p.passer.name, overTheBar ? `🚀 ${p.passer.name} sends it over the bar!` : `↗️ ${p.passer.name} drags it wide.`, {
+              startX: p.startX, startY: p.startY, endX: x, endY: y, result: 'off_target', subtype: overTheBar ? 'over_bar' : 'wide', role: p.passer.role
+            });
+            // Missed shot: ball becomes loose at end position with reduced velocity
+            vx *= 0.3;
+            vy *= 0.3;
+            this.pendingPass = null;
+            this.gameState$.next({ ...this.gameState$.value, ball: { x, y, vx, vy, z: air.z, vz: air.vz }, currentBallOwner: null });
+            return;
+          }
+        }
+        // Pass completed: ball arrives at destination, becomes loose
+        // Target player will pick it up automatically if close enough (handled in updatePlayerPositions)
+        if (p.type === 'cross' && this.keeperClaims(p, x, y, air.z)) return;
+        if (p.corner) {
+          this.resolveCornerDelivery(p, x, y, air);
+          return;
+        }
+        const passType = p.type;
+        // Check if target is close enough to receive immediately
+        const distToTarget = Math.hypot(p.target.position.x - x, p.target.position.y - y);
+        const flight = environment.gameSettings.ballFlight;
+        if (distToTarget < 1.2 && air.z > flight.controlHeight && air.z <= flight.headerHeight) {
+          this.meetWithHead(p, x, y);
+          return;
+        }
+        if (distToTarget < 1.2 && this.fumblesFirstTouch(p, x, y)) return;
+        this.pendingPass = null;
+        vx *= 0.2; // slow down for easier pickup
+        vy *= 0.2;
+        // Complete only when truly at receiver (tightened threshold) to avoid early large easing jumps
+        if (distToTarget < 1.2) {
+          // Target is close, give them the ball and emit completed pass
+          this.emitEvent('pass', this.teamOfPlayer(p.target).name, p.target.name, `${p.passer.name} completes ${passType} to ${p.target.name}`, { startX: p.startX, startY: p.startY, endX: x, endY: y, subtype: passType, result: 'complete', role: p.target.role });
+          this.setBallOwner(p.target);
+          // Don't teleport - ball will follow player in next frame
+          vx = 0;
+          vy = 0;
+          air = { z: 0, vz: 0 };
+        }
+      }
+      this.gameState$.next({ ...this.gameState$.value, ball: { x, y, vx, vy, z: air.z, vz: air.vz } });
+      return;
+    }
+
+    if (gs.currentBallOwner) {
+      const owner = this.findPlayer(gs.currentBallOwner);
+      if (owner) {
+        // Instead of snapping ball directly to owner's exact position (which looks like teleportation
+        // right after a pass is received), smoothly ease the ball toward the owner's feet.
+        // This creates a "first touch" animation and eliminates visual popping.
+        const targetX = owner.position.x;
+        const targetY = owner.position.y;
+
+        const dxOwner = targetX - x;
+        const dyOwner = targetY - y;
+        const distToOwner = Math.hypot(dxOwner, dyOwner);
+
+        if (distToOwner < 0.15) {
+          // Close enough – snap to reduce jitter
+          x = targetX;
+          y = targetY;
+          vx = 0;
+          vy = 0;
+        } else {
+          // Follow rate scales with distance so long receptions feel a bit quicker
+          // but still visibly smooth. Clamp so we never overshoot.
+          const dtSec = delta / 1000;
+          const rateBase = 29;            // minimum follow rate (1/s)
+          const rateScale = 68;           // additional rate from distance
+          const normalized = Math.min(1, distToOwner / 2.5); // distance normalization (m)
+          const ease = 1 - Math.exp(-(rateBase + rateScale * normalized) * dtSec); // share of the gap closed this tick
+
+          // Apply easing movement
+          const moveX = dxOwner * ease;
+          const moveY = dyOwner * ease;
+          // Cap the ball's speed to avoid giant visual leaps when ownership switches far
+          const maxStep = 98 * dtSec; // m
+          const stepDist = Math.hypot(moveX, moveY);
+          const clampFactor = stepDist > maxStep ? (maxStep / stepDist) : 1;
+          x += moveX * clampFactor;
+          y += moveY * clampFactor;
+
+          // Derive pseudo velocity (useful if later we add spin/deflections)
+          vx = dxOwner * ease * 60 / 1000; // kept small: a ball the carrier loses only trickles on
+          vy = dyOwner * ease * 60 / 1000;
+        }
+
+        // Log ball position periodically (not every frame)
+        const now = this.clock.now();
+        if (now - this.lastBallLogTime >= this.ballLogIntervalMs) {
+          this.log(`⚽ Ball with ${owner.name} (${owner.role}) easing to (${x.toFixed(1)}, ${y.toFixed(1)}) dist=${distToOwner.toFixed(2)}`);
+          this.lastBallLogTime = now;
+        }
+      }
+      this.gameState$.next({ ...this.gameState$.value, ball: { x, y, vx, vy } });
+    } else {
+      const dtSec = delta / 1000;
+      x += vx * dtSec; y += vy * dtSec;
+      const { z, vz } = fallStep(gs.ball.z ?? 0, gs.ball.vz ?? 0, dtSec);
+      if (z === 0) {
+        // Only the grass slows the ball; in the air it carries
+        const friction = Math.pow(this.looseBallFriction(), dtSec);
+        vx *= friction; vy *= friction;
+      }
+      if (Math.abs(vx) < 0.01) vx = 0; if (Math.abs(vy) < 0.01) vy = 0;
+      x = Math.max(0, Math.min(this.W, x));
+      y = Math.max(0, Math.min(this.H, y));
+      
+      // CRITICAL: Check if goalkeeper can collect the ball BEFORE checking for goals
+      // This prevents balls from going through when GK is close
+      const allPlayers = [...(this.team1?.players || []), ...(this.team2?.players || [])];
+      for (const p of allPlayers.filter(pl => pl.role === 'goalkeeper')) {
+        const dist = Math.hypot(p.position.x - x, p.position.y - y);
+        const ballInKeepersArea = this.inPenaltyArea(x, y, this.attackDir(p) === 1 ? 'left' : 'right');
+        
+        // Goalkeeper can catch ball if it's close, within reach and in their own penalty area
+        if (dist < 3 && this.keeperCanGather(p, z, vz) && ballInKeepersArea) {
+          this.log(`🧤 GK ${p.name}: COLLECTED loose ball at distance ${dist.toFixed(1)} - PREVENTED GOAL!`);
+          this.keeperGathers(p, true);
+          this.emitEvent('save', this.teamOfPlayer(p).name, p.name, `${p.name} collects the ball!`, {
+            startX: x,
+            startY: y,
+            endX: p.position.x,
+            endY: p.position.y,
+            result: 'collected',
+            subtype: 'goalkeeper_collection',
+            role: 'goalkeeper'
+          });
+          // Stop the ball where it is - keeper will move to it naturally
+          this.gameState$.next({ ...this.gameState$.value, ball: { x, y, vx: 0, vy: 0 }, currentBallOwner: p.id });
+          return; // Exit early - ball is collected, don't check for goals
+        }
+      }
+      
+      // Log loose ball position periodically
+      const now = this.clock.now();
+      if (now - this.lastBallLogTime >= this.ballLogIntervalMs) {
+        const speed = Math.hypot(vx, vy);
+        this.log(`⚽ Ball LOOSE at (${x.toFixed(1)}, ${y.toFixed(1)}) - Speed: ${speed.toFixed(2)}`);
+        this.lastBallLogTime = now;
+      }
+      
+      // Throw-in detection (or a bounce back off the touchline with experimentalBounce)
+      if (y <= 0.5 || y >= this.H - 0.5) {
+        if (!environment.gameSettings.experimentalBounce) { this.handleThrowIn(x, y); return; }
+        y = y <= 0.5 ? 0.5 : this.H - 0.5;
+        vy = -vy * environment.gameSettings.ballFlight.restitution;
+      }
+      // Goal / corner / goal kick logic (a ball over the bar is not in)
+      const inAperture = Math.abs(y - this.H / 2) <= PITCH.goalWidth / 2 && z <= PITCH.goalHeight;
+      const crossedLeft = x < 0.5; const crossedRight = x > this.W - 0.5;
+      if (crossedLeft || crossedRight) {
+        if (inAperture) {
+          const scorer = gs.currentBallOwner ? this.findPlayer(gs.currentBallOwner) : this.lastShooter;
+          if (scorer) { this.scoreGoal(scorer); }
+          else {
+            // Neutral goal event (e.g., ball crosses line without clear scorer)
+            this.emitEvent('goal', 'neutral', '', undefined, { startX: x, startY: y, endX: x, endY: y, result: 'goal' });
+            this.gameState$.next({ ...this.gameState$.value, ball: { x: this.W / 2, y: this.H / 2, vx: 0, vy: 0 }, currentBallOwner: null });
+          }
+          this.restartGraceUntil = this.clock.now() + 1500;
+          return;
+        } else {
+          const attackingTeamIsTeam1 = crossedRight !== this.halfSwitched; // team1 attacks right in the first half
+          const lastTouch = this.lastTouchTeam || (attackingTeamIsTeam1 ? 'team1' : 'team2');
+          const isGoalKick = lastTouch === (attackingTeamIsTeam1 ? 'team1' : 'team2');
+          if (isGoalKick) {
+            this.performGoalKick(attackingTeamIsTeam1 ? 'team2' : 'team1', crossedLeft ? 'left' : 'right');
+          } else {
+            this.performCorner(attackingTeamIsTeam1 ? this.team1! : this.team2!, crossedLeft ? 'left' : 'right', y < this.H / 2 ? 'top' : 'bottom');
+          }
+          this.restartGraceUntil = this.clock.now() + 1500;
+          return;
+        }
+      }
+      // Legacy simple goal fallback
+      if (this.isGoal(x, y) && z <= PITCH.goalHeight) {
+        // Fallback simple goal detection
+        this.emitEvent('goal', 'neutral', '', undefined, { startX: x, startY: y, endX: x, endY: y, result: 'goal' });
+        this.gameState$.next({ ...this.gameState$.value, ball: { x: this.W / 2, y: this.H / 2, vx: 0, vy: 0 }, currentBallOwner: null });
+        this.restartGraceUntil = this.clock.now() + 1200;
+        return;
+      }
+      this.gameState$.next({ ...this.gameState$.value, ball: { x, y, vx, vy, z, vz } });
+    }
+  }
+
+  private updatePlayerPositions(elapsedMs: number): void {
+    const gs = this.gameState$.value;
+    const ball = gs.ball;
+    const allPlayers = [...this.team1!.players, ...this.team2!.players];
+    const startPositions = allPlayers.map(p => ({ x: p.position.x, y: p.position.y }));
+    // Metres a player covers at base speed since the last decision (capped after a stoppage)
+    const stepSec = Math.min(elapsedMs, environment.gameSettings.decisionIntervalMs * 2) / 1000;
+    const baseSpeed = environment.gameSettings.speed.playerBase * stepSec;
+    const ballOwner = gs.currentBallOwner ? this.findPlayer(gs.currentBallOwner) : null;
+    const ownerIsTeam1 = ballOwner ? this.isTeam1(ballOwner) : null;
+    const attackingTeam = ownerIsTeam1 == null ? null : (ownerIsTeam1 ? this.team1! : this.team2!);
+    const defendingTeam = ownerIsTeam1 == null ? null : (ownerIsTeam1 ? this.team2! : this.team1!);
+
+    // DISABLED: Smart ball handoff causes teleportation since ball snaps to new owner's position
+    // Players will keep the ball until they pass it or lose it to opponents
+    // The natural passing system handles ball movement without visual glitches
+
+    // Pressers: when ball is owned, defenders actively challenge; when loose, pick closest from all players
+    let pressers: Player[] = [];
+    if (ballOwner && defendingTeam) {
+      // Pressing intensity sets how many close down the carrier: 1 at 0, 3 at 50, 5 at 100
+      const pressCount = Math.round(3 * sliderFactor(this.tacticsOf(defendingTeam).pressing, 2 / 3));
+      pressers = defendingTeam.players.filter(p => p.role !== 'goalkeeper')
+        .map(p => ({ p, d: Math.hypot(p.position.x - ball.x, p.position.y - ball.y) }))
+        .sort((a, b) => a.d - b.d)
+        .slice(0, pressCount)
+        .map(o => o.p);
+    } else if (!ballOwner) {
+      // Loose ball: closest 4 players from both teams chase (more competitive)
+      pressers = allPlayers.filter(p => p.role !== 'goalkeeper')
+        .map(p => ({ p, d: Math.hypot(p.position.x - ball.x, p.position.y - ball.y) }))
+        .sort((a, b) => a.d - b.d)
+        .slice(0, 4) // was 3, now 4 for more intense loose ball battles
+        .map(o => o.p);
+    }
+
+    // Support runners: find 2-3 attacking teammates who should position for passes
+    let supportRunners: Player[] = [];
+    if (attackingTeam && ballOwner) {
+      const candidates = attackingTeam.players.filter(p => p.id !== ballOwner.id && p.role !== 'goalkeeper');
+      const attackDir = this.attackDir(ballOwner);
+      
+      // Prioritize forwards and attacking midfielders
+      const forwards = candidates.filter(p => p.role === 'forward');
+      const midfielders = candidates.filter(p => p.role === 'midfielder');
+      
+      supportRunners = [...forwards, ...midfielders]
+        .sort((a, b) => {
+          // Prefer players ahead of the ball and closer to opponent's goal
+          const aDist = Math.hypot(a.position.x - ball.x, a.position.y - ball.y);
+          const bDist = Math.hypot(b.position.x - ball.x, b.position.y - ball.y);
+          const aAhead = (a.position.x - ball.x) * attackDir;
+          const bAhead = (b.position.x - ball.x) * attackDir;
+          return (bAhead - aAhead) * 0.5 + (aDist - bDist);
+        })
+        .slice(0, 3);
+    }
+
+    allPlayers.forEach(p => {
+      const isOwner = !!ballOwner && p.id === ballOwner.id;
+      const dir = this.attackDir(p);
+      const tactics = this.tacticsOf(this.teamOfPlayer(p));
+      const basePos = p.basePosition || { x: p.position.x, y: p.position.y };
+      
+      // Goalkeeper: narrows the angle, sweeps behind the defence and holds still with the ball in hand
+      if (p.role === 'goalkeeper') {
+        const target = isOwner ? { x: p.position.x, y: p.position.y, rush: false } : this.keeperTarget(p, ball, ballOwner);
+        const dx = target.x - p.position.x; const dy = target.y - p.position.y; const d = Math.hypot(dx, dy);
+        if (d > 0.05) {
+          const pace = baseSpeed * (target.rush ? 1.2 : 0.8) * (p.abilities?.speedFactor ?? 1) * this.fatigueFactor(p);
+          p.position.x += (dx / d) * Math.min(d, pace); p.position.y += (dy / d) * Math.min(d, pace);
+        }
+        // Beyond the area the keeper cannot handle: a loose ball reached out there is kicked clear
+        const nearBall = Math.hypot(ball.x - p.position.x, ball.y - p.position.y) < 1.2;
+        if (!ballOwner && !this.pendingPass && nearBall && (ball.z ?? 0) <= environment.gameSettings.ballFlight.controlHeight
+            && !this.inPenaltyArea(ball.x, ball.y, dir === 1 ? 'left' : 'right')) {
+          this.clearBall(p, ball.x, ball.y, 'foot');
+        }
+      } else if (isOwner) {
+        // Dribbler: smooth forward advance with minimal lateral noise
+        const speedFactor = Math.min(1.2, (p.abilities?.speedFactor ?? 1) * this.fatigueFactor(p));
+        p.position.x += dir * baseSpeed * 0.4 * speedFactor;
+        p.position.y += (this.rand() - 0.5) * baseSpeed * 0.15;
+      } else if (this.pendingPass && !this.pendingPass.shot && p === this.pendingPass.target) {
+        // Receiver: attack the landing point (through balls and crosses are played into space)
+        const dx = this.pendingPass.endX - p.position.x; const dy = this.pendingPass.endY - p.position.y; const d = Math.hypot(dx, dy);
+        if (d > 0.3) {
+          const runSpeed = Math.min(d, baseSpeed * 0.9 * (p.abilities?.speedFactor ?? 1) * this.fatigueFactor(p));
+          p.position.x += (dx / d) * runSpeed; p.position.y += (dy / d) * runSpeed;
+        }
+      } else if (this.pendingPass?.corner && this.cornerMarks.has(p)) {
+        // Corner marker: stay goal-side of their runner while the delivery is in the air
+        const runner = this.cornerMarks.get(p)!;
+        const dx = runner.position.x - dir * 2 - p.position.x; const dy = runner.position.y - p.position.y; const d = Math.hypot(dx, dy);
+        if (d > 0.3) {
+          const runSpeed = Math.min(d, baseSpeed * 0.9 * (p.abilities?.speedFactor ?? 1) * this.fatigueFactor(p));
+          p.position.x += (dx / d) * runSpeed; p.position.y += (dy / d) * runSpeed;
+        }
+      } else if (pressers.includes(p)) {
+        // Pressers: smooth approach, capped speed
+        const dx = ball.x - p.position.x; const dy = ball.y - p.position.y; const d = Math.hypot(dx, dy) || 1;
+        const pressSpeed = Math.min(baseSpeed * 1.1,
+          baseSpeed * 0.9 * (p.abilities?.speedFactor ?? 1) * this.fatigueFactor(p) * sliderFactor(tactics.pressing, 0.15));
+        const moveX = (dx / d) * pressSpeed; const moveY = (dy / d) * pressSpeed;
+        p.position.x += moveX * 0.7; p.position.y += moveY * 0.7;
+      } else if (supportRunners.includes(p)) {
+        // Support runners: intelligent positioning for receiving passes
+        // Forwards should only push forward when team is attacking
+        const goalX = dir === 1 ? this.W : 0;
+        const distToGoal = Math.abs(goalX - p.position.x);
+        
+        // Check if team is in attacking phase (ball in opponent's half)
+        const ballInOpponentHalf = dir === 1 ? ball.x > this.W * 0.5 : ball.x < this.W * 0.5;
+        const ballProgress = (ball.x - this.W / 2) * dir; // Positive when attacking, negative when defending
+        
+        let targetX: number;
+        let targetY = basePos.y;
+        const push = sliderFactor(tactics.tempo, 0.3); // higher tempo: runners get further ahead of the ball
+        
+        if (p.role === 'forward') {
+          // Forwards: only push forward when team is attacking
+          if (ballInOpponentHalf && ballProgress > 6) {
+            // Team is attacking - push forward aggressively
+            targetX = ball.x + dir * 9 * push;
+            
+            // If very close to goal, make runs
+            if (distToGoal < 17.5) {
+              targetX = ball.x + dir * 7 * push;
+            }
+          } else {
+            // Team not attacking - stay near formation position but track ball loosely
+            targetX = basePos.x + (ball.x - this.W / 2) * dir * 0.2;
+          }
+        } else {
+          // Midfielders: more fluid movement, support attack but maintain shape
+          targetX = ball.x + dir * 4.5 * push; // Less aggressive push
+          
+          if (ballInOpponentHalf) {
+            targetX += dir * 4.5 * push; // Push up when attacking
+          }
+        }
+        
+        // Adjust vertically to create passing options
+        const lateralSpread = 6 * sliderFactor(tactics.width, 0.5);
+        targetY += (this.rand() - 0.5) * lateralSpread;
+        
+        // Stay in bounds
+        targetX = Math.max(2, Math.min(this.W - 2, targetX));
+        targetY = Math.max(2, Math.min(this.H - 2, targetY));
+        
+        const dx = targetX - p.position.x;
+        const dy = targetY - p.position.y;
+        const d = Math.hypot(dx, dy) || 1;
+        
+        if (d > 0.5) {
+          const moveSpeed = baseSpeed * 0.55 * (p.abilities?.speedFactor ?? 1) * this.fatigueFactor(p);
+          p.position.x += (dx / d) * moveSpeed;
+          p.position.y += (dy / d) * moveSpeed;
+        }
+      } else {
+        // Shape holders: maintain formation position with MINIMAL shifts
+        // Keep formation integrity - defenders stay back, forwards stay forward
+        const sameSide = ballOwner ? ownerIsTeam1 === this.isTeam1(p) : null;
+        
+        let shiftX = 0;
+        let shiftY = 0;
+        
+        // Role-based shift limits (metres) to maintain formation separation
+        const maxShiftByRole = {
+          'defender': 3,        // Defenders stay mostly in position
+          'midfielder': 4.5,    // Midfielders can roam moderately  
+          'forward': 4,         // Forwards maintain attacking position
+          'goalkeeper': 0       // GK handled separately above
+        };
+        
+        const maxShift = maxShiftByRole[p.role as keyof typeof maxShiftByRole] || 3.5;
+        
+        // Contextual positioning based on ball location and team possession
+        if (ballOwner && sameSide !== null) {
+          // Attacking team: slight push up when ball is forward
+          if (sameSide) {
+            const ballProgress = (ball.x - this.W / 2) * dir;
+            if (ballProgress > 0 && p.role !== 'defender') {
+              // Ball is in attacking half, slight push forward (only mids/forwards; further with a high line)
+              shiftX = Math.min(maxShift, ballProgress * 0.15 * sliderFactor(tactics.lineHeight, 0.4)) * dir;
+            }
+          } else {
+            // Defending team: slight drop back when opponents attack
+            const ballProgress = (ball.x - this.W / 2) * dir;
+            if (ballProgress < 0 && p.role === 'defender') {
+              // Ball is in our half, slight drop deeper (only defenders; a high line holds its ground)
+              shiftX = Math.max(-maxShift, ballProgress * 0.12 * sliderFactor(100 - tactics.lineHeight, 0.5)) * dir;
+            }
+          }
+          
+          // Minimal horizontal shift toward ball's vertical position (narrow teams squeeze across more)
+          shiftY = (ball.y - basePos.y) * 0.12 * sliderFactor(100 - tactics.width, 0.5);
+        } else {
+          // Neutral positioning: very slight shift toward ball
+          shiftX = (ball.x - this.W / 2) * 0.01 * dir;
+          shiftY = (ball.y - this.H / 2) * 0.02;
+        }
+        
+        const targetX = Math.max(2, Math.min(this.W - 2, basePos.x + shiftX));
+        const targetY = Math.max(2, Math.min(this.H - 2, basePos.y + shiftY));
+        const dx = targetX - p.position.x; const dy = targetY - p.position.y; const d = Math.hypot(dx, dy) || 1;
+        if (d > 0.3) {
+          p.position.x += (dx / d) * baseSpeed * 0.4; p.position.y += (dy / d) * baseSpeed * 0.4;
+        }
+      }
+      p.position.x = Math.max(0, Math.min(this.W, p.position.x));
+      p.position.y = Math.max(0, Math.min(this.H, p.position.y));
+    });
+
+    this.updateOrientation(allPlayers, startPositions, stepSec, ball);
+    this.updateStamina(allPlayers, startPositions, baseSpeed, elapsedMs, pressers, ballOwner);
+
+    if (ballOwner) this.resolveTackles(ballOwner, pressers);
+
+    // Loose ball pickup: prioritize goalkeepers in their own area, then other players
+    // (a shot in flight is resolved on arrival, where the keeper gets a save attempt)
+    if (!ballOwner && !this.pendingPass?.shot) {
+      // Gate ball pickup during early phase of a pass to avoid premature owner assignment that creates large easing jumps
+      let passPickupAllowed = true;
+      let passTargetId: string | null = null;
+      if (this.pendingPass) {
+        const p = this.pendingPass;
+        const t = Math.min(1, (this.clock.now() - p.startTime) / p.duration);
+        passTargetId = p.target.id;
+        // Allow pickup late in the flight (>=85%) so the ball visually reaches the area first
+        passPickupAllowed = t >= 0.85;
+      }
+      // First check if any goalkeeper can reach the ball in their defensive area
+      for (const p of allPlayers.filter(pl => pl.role === 'goalkeeper')) {
+        const dist = Math.hypot(p.position.x - ball.x, p.position.y - ball.y);
+        const ballInKeepersArea = this.inPenaltyArea(ball.x, ball.y, this.attackDir(p) === 1 ? 'left' : 'right');
+        
+        // Goalkeeper can catch ball if it's close, within reach and in their own penalty area
+        // A cross in flight is only claimed where it drops (keeperClaims), and a keeper does not gather their own distribution
+        if (dist < 3 && this.keeperCanGather(p, ball.z ?? 0, ball.vz ?? 0) && ballInKeepersArea && this.pendingPass?.type !== 'cross'
+          && this.pendingPass?.passer !== p) {
+          this.log(`🧤 GK ${p.name}: COLLECTED loose ball at distance ${dist.toFixed(1)}`);
+          this.keeperGathers(p, true);
+          this.emitEvent('save', this.teamOfPlayer(p).name, p.name, `${p.name} collects the ball!`, {
+            startX: ball.x,
+            startY: ball.y,
+            endX: p.position.x,
+            endY: p.position.y,
+            result: 'collected',
+            subtype: 'goalkeeper_collection',
+            role: 'goalkeeper'
+          });
+          return; // Exit early once keeper has the ball
+        }
+      }
+      
+      // If no goalkeeper caught it, check other players
+      for (const p of allPlayers.filter(pl => pl.role !== 'goalkeeper')) {
+        const dist = Math.hypot(p.position.x - ball.x, p.position.y - ball.y);
+        if (this.touchBlocked?.id === p.id && this.clock.now() < this.touchBlocked.until) continue;
+        if (dist < 1 && (ball.z ?? 0) <= environment.gameSettings.ballFlight.controlHeight) {
+          if (!this.pendingPass || passPickupAllowed || (p.id === passTargetId && passPickupAllowed)) {
+            if (this.pendingPass && p.id === passTargetId) {
+              if (this.fumblesFirstTouch(this.pendingPass, ball.x, ball.y)) break;
+              // Pass finished naturally (late phase)
+              const pass = this.pendingPass;
+              this.emitEvent('pass', this.teamOfPlayer(pass.target).name, pass.target.name, `${pass.passer.name} completes ${pass.type} to ${pass.target.name}`, { startX: pass.startX, startY: pass.startY, endX: ball.x, endY: ball.y, subtype: pass.type, result: 'complete', role: pass.target.role });
+              this.pendingPass = null;
+            }
+            this.setBallOwner(p);
+            break;
+          }
+        }
+      }
+    }
+
+    // Separation pass to prevent overlapping
+    for (let i = 0; i < allPlayers.length; i++) {
+      for (let j = i + 1; j < allPlayers.length; j++) {
+        const a = allPlayers[i]; const b = allPlayers[j];
+        let dx = b.position.x - a.position.x; let dy = b.position.y - a.position.y; const dist = Math.hypot(dx, dy);
+        if (dist > 0 && dist < 1.4) {
+          const push = (1.4 - dist) * 0.3; dx /= dist; dy /= dist;
+          a.position.x -= dx * push; a.position.y -= dy * push;
+          b.position.x += dx * push; b.position.y += dy * push;
+          a.position.x = Math.max(0, Math.min(this.W, a.position.x)); a.position.y = Math.max(0, Math.min(this.H, a.position.y));
+          b.position.x = Math.max(0, Math.min(this.W, b.position.x)); b.position.y = Math.max(0, Math.min(this.H, b.position.y));
+        }
+      }
+    }
+  }
+
+  // -------------------------------------------------
+  // Game Events
+  // -------------------------------------------------
+  private emitEvent(type: string, teamName: string, playerName: string, descriptionOverride?: string, extra?: Partial<GameEvent>): void {
+    const gs = this.gameState$.value;
+    const elapsed = this.playedSeconds;
+    const displayTime = gs.clockLabel ?? `${elapsed}'`;
+    const period = gs.phase === 'penalties' ? 4 : gs.extraTime ? 3 : (gs.half ?? 1);
+    const minute = parseInt(displayTime, 10);
+    const zone = (x?: number, y?: number): string | undefined => {
+      if (x == null || y == null) return undefined;
+      const third = this.W / 3;
+      let z = 'middle_third';
+      if (x < third) z = 'defensive_third'; else if (x > 2 * third) z = 'attacking_third';
+      const flank = this.H * 0.20;
+      if (y < flank) z += '_top_flank'; else if (y > this.H - flank) z += '_bottom_flank'; else z += '_central';
+      return z;
+    };
+    const cm = (v?: number) => v == null ? v : Math.round(v * 100) / 100; // coordinates to the centimetre
+    const event: GameEvent = {
+      time: elapsed,
+      type: type as any,
+      team: teamName,
+      player: playerName,
+      description: descriptionOverride || this.describeEvent(type, playerName, teamName),
+      displayTime,
+      realMinute: Number.isNaN(minute) ? (period === 1 ? 45 : gs.extraTime ? 120 : 90) : minute, // NaN for HT / FT / PENS
+      period,
+      startX: cm(extra?.startX),
+      startY: cm(extra?.startY),
+      endX: cm(extra?.endX),
+      endY: cm(extra?.endY),
+      result: extra?.result,
+      role: extra?.role,
+      subtype: extra?.subtype,
+      xg: extra?.xg,
+      pressure: extra?.pressure,
+      facingError: extra?.facingError,
+      shotType: extra?.shotType,
+      shotDistance: extra?.shotDistance,
+      shotAngle: extra?.shotAngle,
+      keeperOffset: extra?.keeperOffset,
+      zoneStart: zone(extra?.startX, extra?.startY),
+      zoneEnd: zone(extra?.endX, extra?.endY),
+      playerOff: extra?.playerOff
+    };
+    // A missed shot was already counted when it was struck
+    if (['pass','shot'].includes(type) && extra?.result !== 'off_target') this.momentumCounter = Math.min(100, this.momentumCounter + (type === 'shot' ? 4 : 1));
+    if (type === 'goal') this.momentumCounter = 0;
+    (event as any).momentumIndex = this.momentumCounter;
+    this.gameState$.next({ ...gs, events: [...gs.events, event] });
+    this.gameEvents$.next(event);
+  }
+
+  private describeEvent(type: string, player: string, team: string): string {
+    const eventDescriptions: Record<string, string> = {
+      goal: `⚽ Goal! ${player} scores for ${team}!`,
+      foul: `⚠️ Foul by ${player}.`,
+      corner: `🚩 Corner for ${team}.`,
+      offside: `🚨 Offside: ${player}.`,
+      yellow_card: `🟨 Yellow card to ${player}.`,
+      red_card: `🟥 ${player} is sent off!`,
+      free_kick: `🎯 Free kick to ${team}, taken by ${player}.`,
+      pass: `➡️ Pass by ${player}.`,
+      shot: `🎯 Shot attempt by ${player}.`,
+      tackle: `🛡️ Tackle won by ${player}.`,
+      interception: `✂️ Interception by ${player}.`,
+      momentum: `Momentum shift in match.`,
+      goal_kick: `🧤 Goal kick by ${player}.`
+      ,coin_toss: `🪙 Coin toss: ${team} to kick off.`,
+      kickoff: `🔔 Kickoff by ${player} (${team}).`,
+      throw_in: `↔️ Throw-in: ${player}.`,
+      penalty: `⚠️ Penalty awarded – ${player}.`,
+      save: `🧱 Save by ${player}!`,
+      substitution: `🔄 ${player} comes on for ${team}.`,
+      injury: `🩹 ${player} is injured.`
+    };
+
+    return eventDescriptions[type] || `${player} performed an action.`;
+  }
+
+  // -------------------------------------------------
+  // Utilities
+  // -------------------------------------------------
+  private ensureDistinctTeamColors(): void {
+    if (this.team1 && this.team2 && this.team1.color === this.team2.color) {
+      // Change team2's color to a different color if they're the same
+      const colors = ['#FF0000', '#0000FF', '#00FF00', '#FFFF00', '#FF00FF', '#00FFFF'];
+      const currentColor = this.team1.color;
+      const availableColors = colors.filter(color => color !== currentColor);
+      this.team2.color = availableColors[0] || '#0000FF';
+    }
+  }
+
+  private initializePlayerPositions(): void {
+    if (!this.team1 || !this.team2) return;
+    const W = this.W;
+    const H = this.H;
+
+    const placeTeam = (team: Team, left: boolean) => {
+      // Chosen formation, or a random one drawn from the match seed
+      const tactics = this.tactics[this.sideOf(team)];
+      const formation = findFormation(tactics.formation) ?? FORMATIONS[Math.floor(this.rand() * FORMATIONS.length)];
+      tactics.formation = formation.name;
+
+      // Position goalkeeper at goal line, centered
+      team.players.filter(p => p.role === 'goalkeeper').forEach(p => {
+        p.position.x = left ? W * 0.06 : W * 0.94;
+        p.position.y = H / 2;
+        p.basePosition = { x: p.position.x, y: p.position.y };
+      });
+      this.layoutFormation(team, formation, left);
+      team.players.forEach(p => {
+        if (p.basePosition) { p.position.x = p.basePosition.x; p.position.y = p.basePosition.y; }
+      });
+
+      const count = (role: Player['role']) => team.players.filter(p => p.role === role).length;
+      this.log(`📊 Team ${team.name}: GK=${count('goalkeeper')}, DEF=${count('defender')}, MID=${count('midfielder')}, FWD=${count('forward')}`);
+      return formation.name;
+    };
+
+    const team1Formation = placeTeam(this.team1, true);
+    const team2Formation = placeTeam(this.team2, false);
+
+    // Log formations clearly with template names
+    this.log(`🔷 ${this.team1.name} playing ${team1Formation} formation`);
+    this.log(`🔶 ${this.team2.name} playing ${team2Formation} formation`);
+  }
+
+  /**
+   * Sort the outfield players into the formation's lines (deepest roles at the back) and set their
+   * formation spots (basePosition). The line height slider moves the back and middle lines and the
+   * width slider stretches every line; spots stay in the team's own half.
+   */
+  private layoutFormation(team: Team, formation: Formation, left: boolean): void {
+    const W = this.W;
+    const H = this.H;
+    const tactics = this.tactics[this.sideOf(team)];
+    const depthOrder = { goalkeeper: 0, defender: 1, midfielder: 2, forward: 3 };
+    const outfield = team.players.filter(p => p.role !== 'goalkeeper')
+      .sort((a, b) => depthOrder[a.role] - depthOrder[b.role]);
+    const [defCount, midCount] = formation.lines;
+    const lineShift = (sliderFactor(tactics.lineHeight, 1) - 1) * 0.08;
+    const stretch = sliderFactor(tactics.width, 0.25);
+
+    // Helper to position a line of players with CLEAR horizontal separation
+    const assignLine = (arr: Player[], role: Player['role'], depth: number, spread: number) => {
+      // Left team attacks right (depth 0 = x 0); the right team mirrors
+      const x = (left ? depth : 1 - depth) * W;
+      const ownHalfX = left ? Math.min(x, W / 2 - 3.5) : Math.max(x, W / 2 + 3.5);
+      arr.forEach((p, i) => {
+        if (p.role !== role) this.swapRole(p, role);
+        const rel = arr.length === 1 ? 0 : (i / (arr.length - 1) - 0.5);
+        p.basePosition = { x: ownHalfX, y: Math.max(4.5, Math.min(H - 4.5, H / 2 + rel * spread * stretch * H)) };
+      });
+    };
+
+    assignLine(outfield.slice(0, defCount), 'defender', formation.defX + lineShift, formation.defSpread);
+    assignLine(outfield.slice(defCount, defCount + midCount), 'midfielder', formation.midX + lineShift, formation.midSpread);
+    assignLine(outfield.slice(defCount + midCount), 'forward', formation.fwdX, formation.fwdSpread);
+  }
+
+  /** Expose current mutable team references (used by UI if needed) */
+  getTeams(): { team1: Team | null; team2: Team | null } {
+    return { team1: this.team1, team2: this.team2 };
+  }
+
+  private findKickoffPlayer(team: Team): Player | null {
+    return team.players.find(p => p.role === 'forward') || team.players[0] || null;
+  }
+
+  private findPlayer(playerId: string): Player | null {
+    const allPlayers = [...(this.team1?.players || []), ...(this.team2?.players || [])];
+    return allPlayers.find(p => p.id === playerId) || null;
+  }
+
+  private handleGameEvents(): void {
+    const gs = this.gameState$.value;
+    if (!gs.currentBallOwner || this.pendingPass) return;
+    const owner = this.findPlayer(gs.currentBallOwner);
+    if (!owner) return;
+    if (this.windup) {
+      const w = this.windup;
+      if (w.player !== owner || w.grace !== this.restartGraceUntil) this.windup = null; // dispossessed or play restarted
+      else if (this.clock.now() < w.until) return;
+      else return this.releaseKick(w);
+    }
+    const dir = this.attackDir(owner);
+    const team = this.isTeam1(owner) ? this.team1! : this.team2!;
+    const mates = team.players.filter(p => p.id !== owner.id);
+    if (!mates.length) return;
+    if (owner.role === 'goalkeeper') return this.distribute(owner, mates);
+    
+    // Shooting chance when in attacking position
+    const goalX = dir === 1 ? this.W : 0;
+    const distToGoal = Math.abs(goalX - owner.position.x);
+    const centerY = this.H / 2;
+
+    // Shoot when in range: eagerness grows with the chance (xG) and with how attacking the role is
+    const shooting = environment.gameSettings.shooting;
+    if (distToGoal <= shooting.rangeM) {
+      const xg = expectedGoals(this.xgInputs(owner, goalX, centerY, 'open_play'));
+      const eagerness = owner.role === 'forward' ? 1.8 : owner.role === 'midfielder' ? 1.3 : 0.7;
+      const shootChance = xg >= shooting.sureXg ? 1 : (shooting.baseChance + shooting.xgWeight * xg) * eagerness;
+      if (this.rand() < shootChance) {
+        this.beginKick(owner, goalX, centerY, { shot: { goalX, goalY: centerY } });
+        return;
+      }
+    }
+    // With no opponent close, run at goal instead of passing until reaching the box
+    const opponents = (this.isTeam1(owner) ? this.team2! : this.team1!).players;
+    if (distToGoal <= shooting.carryRangeM && distToGoal > PITCH.penaltyAreaDepth
+      && opponents.every(o => Math.hypot(o.position.x - owner.position.x, o.position.y - owner.position.y) > shooting.carryRoomM)) return;
+    
+    // Pass decision respecting cooldown
+    const now = this.clock.now();
+    if (now - this.lastPassTime < this.passCooldownMs / sliderFactor(this.tacticsOf(team).tempo, 0.4)) return;
+    this.lastPassTime = now;
+    const choice = this.choosePass(owner, mates);
+    if (!choice) return;
+    this.beginKick(owner, choice.x, choice.y, { pass: choice });
+  }
+
+  /** Start turning towards (x, y) and winding up; handleGameEvents strikes the ball once the time is up */
+  private beginKick(player: Player, x: number, y: number, action: Pick<Windup, 'shot' | 'pass'>): void {
+    const cfg = environment.gameSettings.movement;
+    const angle = Math.atan2(y - player.position.y, x - player.position.x);
+    const turn = angleBetween(player.facing ?? angle, angle);
+    const until = this.clock.now() + (turn / this.turnRate(player)) * 1000 + cfg.kickWindupMs;
+    player.mode = turn > cfg.facingToleranceDeg * Math.PI / 180 ? 'turn' : 'kick';
+    player.actionUntil = until;
+    this.windup = { player, until, angle, grace: this.restartGraceUntil, ...action };
+  }
+
+  private releaseKick(w: Windup): void {
+    this.windup = null;
+    if (this.keeperHold?.keeper === w.player) this.keeperHold = null;
+    if (w.shot) {
+      this.takeShot(w.player, w.shot.goalX, w.shot.goalY);
+    } else if (w.pass && this.teamOfPlayer(w.player).players.includes(w.pass.target)) {
+      // Passes to feet follow the receiver; through balls and crosses still go into the space picked
+      const o = w.pass;
+      const feet = o.kind !== 'through_ball' && o.kind !== 'cross';
+      this.initiatePass(w.player, o.target, feet ? { ...o, x: o.target.position.x, y: o.target.position.y } : o);
+    }
+  }
+
+  /**
+   * Score every way of moving the ball on – to feet, a through ball into the space ahead of a runner,
+   * or a cross from a wide attacking position – and pick the best, with a little seeded noise so
+   * near-equal options do not always go the same way. Weights come from gameSettings.passUtilityWeights.
+   */
+  private choosePass(owner: Player, mates: Player[]): PassOption | null {
+    const dir = this.attackDir(owner);
+    const goalX = dir === 1 ? this.W : 0;
+    const opponents = (this.isTeam1(owner) ? this.team2! : this.team1!).players;
+    const outfield = opponents.filter(o => o.role !== 'goalkeeper');
+    const weights = environment.gameSettings.passUtilityWeights;
+    const speed = environment.gameSettings.speed.passSpeed * this.passSpeedFactor();
+    const toGoal = (x: number, y: number) => Math.hypot(goalX - x, this.H / 2 - y);
+    const nearest = (x: number, y: number) => Math.min(Infinity, ...outfield.map(o => Math.hypot(o.position.x - x, o.position.y - y)));
+    const ox = owner.position.x; const oy = owner.position.y;
+    const wide = oy < this.H * 0.2 || oy > this.H * 0.8;
+    const crossing = wide && Math.abs(goalX - ox) < this.W / 3;
+
+    const score = (target: Player, kind: PassOption['kind'], x: number, y: number): PassOption => {
+      const progress = Math.max(-1, Math.min(1, (toGoal(ox, oy) - toGoal(x, y)) / 25));
+      const space = Math.min(1, nearest(x, y) / 8);
+      const receiverPressure = Math.max(0, 1 - nearest(target.position.x, target.position.y) / 4);
+      const support = 0.6 * space + 0.4 * (1 - receiverPressure);
+      const dist = Math.hypot(x - ox, y - oy);
+      const loft = this.loft(kind, dist);
+      const height = loft ? (t: number) => heightAt(loft.vz0, t * loft.seconds).z : undefined;
+      const risk = this.laneRisk(ox, oy, x, y, opponents, loft ? loft.seconds : dist / speed, environment.gameSettings.speed.playerBase, height);
+      const utility = weights.progress * progress + weights.support * support - weights.risk * risk;
+      return { target, kind, x, y, progress, support, risk, utility };
+    };
+
+    const options: PassOption[] = [];
+    mates.forEach(m => {
+      const { x, y } = m.position;
+      const d = Math.hypot(x - ox, y - oy);
+      options.push(score(m, d < 14 ? 'short_pass' : d < 30 ? 'medium_pass' : 'long_pass', x, y));
+      // Through ball: into the space a runner ahead of the ball can attack
+      const ahead = (x - ox) * dir;
+      const leadX = x + dir * 6;
+      if (m.role !== 'defender' && ahead > 0 && Math.abs(goalX - leadX) > 3) options.push(score(m, 'through_ball', leadX, y));
+      // Cross: from the flank into the box, aimed just in front of the attacker
+      const inBox = this.inPenaltyArea(x, y, dir === 1 ? 'right' : 'left');
+      if (crossing && inBox) options.push(score(m, 'cross', x + dir * 1.5, y + (this.H / 2 - y) * 0.2));
+    });
+    if (!options.length) return null;
+
+    const ranked = options.map(o => ({ o, pick: o.utility + this.rand() * 0.05 })).sort((a, b) => b.pick - a.pick).map(r => r.o);
+    const fmt = (o: PassOption) => `${o.target.name} ${o.kind} ${o.utility.toFixed(2)} (p ${o.progress.toFixed(2)} s ${o.support.toFixed(2)} r ${o.risk.toFixed(2)})`;
+    this.log(`🧠 ${owner.name} pass options: ${ranked.slice(0, 4).map(fmt).join(' | ')}`);
+    return ranked[0];
+  }
+
+  private rand(): number {
+    return this.rng.next();
+  }
+
+  /** Pitch length (goal line to goal line) in metres */
+  private get W(): number {
+    return PITCH.length;
+  }
+
+  /** Pitch width (touchline to touchline) in metres */
+  private get H(): number {
+    return PITCH.width;
+  }
+
+  // -------------------------------------------------
+  // Advanced helpers (passes, shots, offside, goals)
+  // -------------------------------------------------
+  /** Play the ball to target's feet, or to the point in the option (through balls and crosses) */
+  private initiatePass(passer: Player, target: Player, option?: PassOption, fromCorner = false): void {
+    const startX = passer.position.x; const startY = passer.position.y;
+    const aimX = option?.x ?? target.position.x; const aimY = option?.y ?? target.position.y;
+    const passType = option?.kind ?? this.classifyPassType(passer, target);
+    const facingError = passer.facing == null ? 0 : angleBetween(passer.facing, Math.atan2(aimY - startY, aimX - startX));
+    // Aim error grows with distance, with tired or inaccurate passers and when played across the body
+    const aimError = Math.hypot(aimX - startX, aimY - startY) * 0.06 * (1 - this.effectiveAccuracy(passer) / 100) * (1 + facingError);
+    const endX = Math.max(0, Math.min(this.W, aimX + (this.rand() - 0.5) * 2 * aimError));
+    const endY = Math.max(0, Math.min(this.H, aimY + (this.rand() - 0.5) * 2 * aimError));
+    const dist = Math.hypot(endX - startX, endY - startY);
+    const speed = environment.gameSettings.speed.passSpeed * this.passSpeedFactor();
+    const loft = this.loft(passType, dist);
+    const arrivalTime = loft ? loft.seconds : dist / speed;
+    const duration = Math.max(200, arrivalTime * 1000);
+    // Crosses are whipped in with spin, swinging in or away from goal
+    const curl = passType === 'cross' ? (this.rand() < 0.5 ? -1 : 1) * environment.gameSettings.ballFlight.curlM : undefined;
+    // Interception pre-check (only where the ball is low enough to reach)
+    const opponents = this.isTeam1(passer) ? this.team2!.players : this.team1!.players;
+    const height = loft ? (t: number) => heightAt(loft.vz0, t * loft.seconds).z : undefined;
+    const interceptor = this.findInterceptor(startX, startY, endX, endY, opponents, arrivalTime, environment.gameSettings.speed.playerBase, height);
+    if (interceptor && this.clock.now() > this.restartGraceUntil) {
+      // Emit attempted pass first, then interception
+      this.emitEvent('pass', this.teamOfPlayer(passer).name, passer.name, undefined, { startX, startY, endX, endY, subtype: passType, result: 'intercepted', role: passer.role, facingError: Math.round(facingError * 100) / 100 });
+      this.emitEvent('interception', this.teamOfPlayer(interceptor).name, interceptor.name, undefined, { startX, startY, endX: interceptor.position.x, endY: interceptor.position.y, result: 'intercepted', subtype: 'interception', role: interceptor.role });
+      this.setBallOwner(interceptor);
+      this.lastTouchTeam = this.isTeam1(interceptor) ? 'team1' : 'team2';
+      return;
+    }
+    this.pendingPass = {
+      passer, target, startX, startY, endX, endY,
+      startTime: this.clock.now(), duration,
+      type: passType, vz0: loft?.vz0, curl, corner: fromCorner && passType === 'cross'
+    };
+    this.gameState$.next({ ...this.gameState$.value, currentBallOwner: null });
+    this.emitEvent('pass', this.teamOfPlayer(passer).name, passer.name, undefined, { startX, startY, endX, endY, subtype: passType, result: 'attempt', role: passer.role, facingError: Math.round(facingError * 100) / 100 });
+    // No offside straight from a corner, throw-in or goal kick
+    const fromRestart = fromCorner || this.restartTaker === passer;
+    this.restartTaker = null;
+    if (!fromRestart) this.checkOffsideOnPass(passer, target);
+    this.lastTouchTeam = this.isTeam1(passer) ? 'team1' : 'team2';
+  }
+
+  private takeShot(shooter: Player, goalX: number, goalY: number, shotType: ShotType = 'open_play'): void {
+    const startX = shooter.position.x; const startY = shooter.position.y;
+    const header = shotType === 'header';
+    if (shotType === 'penalty' || shotType === 'free_kick') shooter.facing = Math.atan2(goalY - startY, goalX - startX); // set-piece takers line up square
+    const inputs = this.xgInputs(shooter, goalX, goalY, shotType);
+    // ~0.9 × shooting.missScale for a fresh 70-accuracy shooter; bending a free kick over the wall is harder to place,
+    // and so is a header or a shot struck across the body
+    const miss = (1.6 - this.effectiveAccuracy(shooter) / 100) * environment.gameSettings.shooting.missScale;
+    const spread = miss * (shotType === 'free_kick' ? 3.2 : header ? 1.5 : 1) * (1 + 0.6 * inputs.facingError);
+    // Open-play strikes can die before the line (as often as they stray); dead-ball strikes always reach it
+    const depthSpread = shotType === 'open_play' ? 3.5 * environment.gameSettings.shooting.missScale : 0;
+    const endX = goalX + (this.rand() - 0.5) * depthSpread; const endY = goalY + (this.rand() - 0.5) * 5.7 * spread;
+    const dist = Math.hypot(endX - startX, endY - startY);
+    // Set-piece specialists strike it harder
+    const power = shotType === 'free_kick' ? 0.8 + (shooter.abilities?.shotPower ?? 70) / 250 : 1;
+    const speed = environment.gameSettings.speed.shotSpeed * power * (header ? 0.5 : 1);
+    const duration = Math.max(180, (dist / speed) * 1000);
+    // Height at the goal line: the less accurate and the further out, the likelier it clears the bar
+    const endHeight = 0.2 + this.rand() * 3 * miss * (0.8 + dist / 60);
+    const vz0 = launchForLanding(endHeight, duration / 1000);
+    // Free kicks are bent round the wall; other strikes carry a little random spin
+    const curlM = environment.gameSettings.ballFlight.curlM;
+    const curl = shotType === 'free_kick' ? (this.rand() < 0.5 ? -1 : 1) * curlM * (0.6 + this.rand() * 0.6)
+      : shotType === 'penalty' ? 0 : (this.rand() - 0.5) * curlM * 0.3;
+    const xg = expectedGoals(inputs);
+    this.pendingPass = { passer: shooter, target: shooter, startX, startY, endX, endY, startTime: this.clock.now(), duration, type: 'shot', shot: true, xg, vz0, curl };
+    this.gameState$.next({ ...this.gameState$.value, currentBallOwner: null });
+    this.emitEvent('shot', this.teamOfPlayer(shooter).name, shooter.name, undefined, { startX, startY, endX, endY, xg, ...this.xgFields(inputs), subtype: 'shot_attempt', result: 'attempt', role: shooter.role });
+    this.lastShooter = shooter;
+    this.lastTouchTeam = this.isTeam1(shooter) ? 'team1' : 'team2';
+  }
+
+  private classifyPassType(from: Player, to: Player): string {
+    const d = Math.hypot(from.position.x - to.position.x, from.position.y - to.position.y);
+    if (d < 14) return 'short_pass'; if (d < 30) return 'medium_pass'; return 'long_pass';
+  }
+  /** The shot as the xG model sees it, aimed at (goalX, goalY) */
+  private xgInputs(shooter: Player, goalX: number, goalY: number, shotType: ShotType): XgInputs {
+    const { x, y } = shooter.position;
+    const opponents = (this.isTeam1(shooter) ? this.team2! : this.team1!).players;
+    const keeper = opponents.find(p => p.role === 'goalkeeper');
+    const pressure = Math.min(Infinity, ...opponents.filter(p => p !== keeper).map(p => Math.hypot(p.position.x - x, p.position.y - y)));
+    // Keeper's distance from the line between the ball and the centre of the goal
+    const lineLen = Math.hypot(goalX - x, this.H / 2 - y) || 1;
+    const keeperOffset = keeper ? Math.abs((goalX - x) * (keeper.position.y - y) - (this.H / 2 - y) * (keeper.position.x - x)) / lineLen : null;
+    const facingError = shooter.facing == null ? 0 : angleBetween(shooter.facing, Math.atan2(goalY - y, goalX - x));
+    return { shotType, distance: lineLen, angle: goalMouthAngle(x, y, goalX), pressure, keeperOffset, facingError };
+  }
+
+  /** xG inputs as shot event fields (rounded; no pressure when no outfielder is on the pitch) */
+  private xgFields(inputs: XgInputs): Partial<GameEvent> {
+    const r = (v: number) => Math.round(v * 100) / 100;
+    return {
+      shotType: inputs.shotType, shotDistance: r(inputs.distance), shotAngle: r(inputs.angle),
+      pressure: Number.isFinite(inputs.pressure) ? r(inputs.pressure) : undefined,
+      keeperOffset: inputs.keeperOffset == null ? undefined : r(inputs.keeperOffset), facingError: r(inputs.facingError),
+    };
+  }
+
+  /** Long passes, crosses and keeper kicks and throws are lofted, crosses coming down at head height (1.9 m); null for a ball along the grass */
+  private loft(kind: string, dist: number): { vz0: number; seconds: number } | null {
+    const flight = environment.gameSettings.ballFlight;
+    if (kind === 'cross') {
+      const vz0 = launchForApex(flight.crossApex);
+      return { vz0, seconds: timeToDescend(vz0, 1.9) };
+    }
+    if (kind === 'long_pass' || kind === 'keeper_kick') {
+      const vz0 = launchForApex(flight.longPassApex + dist / (kind === 'keeper_kick' ? 6 : 12));
+      return { vz0, seconds: timeToDescend(vz0) };
+    }
+    if (kind === 'keeper_throw') {
+      const seconds = dist / 15; // thrown at about 15 m/s
+      return { vz0: launchForLanding(0, seconds), seconds };
+    }
+    return null;
+  }
+
+  /**
+   * A pass arriving above control height: the receiver meets it with their head – at goal when it is
+   * a cross near the box, otherwise cushioned down to their own feet.
+   */
+  private meetWithHead(pass: PendingPass, x: number, y: number, description?: string): void {
+    const player = pass.target;
+    this.pendingPass = null;
+    this.emitEvent('pass', this.teamOfPlayer(player).name, player.name, description ?? `${pass.passer.name} completes ${pass.type} to ${player.name}`, { startX: pass.startX, startY: pass.startY, endX: x, endY: y, subtype: pass.type, result: 'complete', role: player.role });
+    this.gameState$.next({ ...this.gameState$.value, ball: { x, y, vx: 0, vy: 0 } });
+    this.setBallOwner(player);
+    const goalX = this.attackDir(player) === 1 ? this.W : 0;
+    if (pass.type === 'cross' && Math.abs(goalX - player.position.x) < 16) this.takeShot(player, goalX, this.H / 2, 'header');
+  }
+
+
+  private isGoal(x: number, y: number): boolean {
+    const apertureHalf = PITCH.goalWidth / 2;
+    if (y < this.H / 2 - apertureHalf || y > this.H / 2 + apertureHalf) return false;
+    return x <= 0.5 || x >= this.W - 0.5;
+  }
+
+  private scoreGoal(scorer: Player): void {
+    const gs = this.gameState$.value;
+    const score = { ...gs.score };
+    const scoringTeamIsTeam1 = this.isTeam1(scorer);
+    if (scoringTeamIsTeam1) score.team1++; else score.team2++;
+    
+    this.emitEvent('goal', this.teamOfPlayer(scorer).name, scorer.name, undefined, { startX: scorer.position.x, startY: scorer.position.y, endX: scorer.position.x, endY: scorer.position.y, result: 'goal', role: scorer.role });
+    this.gameState$.next({ ...this.gameState$.value, score });
+    
+    // Team that conceded gets the kickoff
+    const kickoffTeam = scoringTeamIsTeam1 ? this.team2! : this.team1!;
+    this.restartWithKickoff(kickoffTeam, `${kickoffTeam.name} kicks off after conceding.`, 800);
+  }
+
+  /** Reset both teams to formation and restart from the centre spot (after goals and for extra time) */
+  private restartWithKickoff(kickoffTeam: Team, description: string, lockMs: number, subtype = 'kickoff'): void {
+    this.pendingPass = null;
+    this.makeSubstitutions();
+    
+    // Reset all players to their base formation positions
+    const allPlayers = [...this.team1!.players, ...this.team2!.players];
+    allPlayers.forEach(p => {
+      const basePos = p.basePosition;
+      if (basePos) {
+        p.position.x = basePos.x;
+        p.position.y = basePos.y;
+      }
+    });
+    
+    const kickoffPlayer = kickoffTeam.players.find(p => p.role === 'forward') || kickoffTeam.players[0];
+    
+    if (kickoffPlayer) {
+      // Place kickoff player at exact center of field
+      const centerX = this.W / 2;
+      const centerY = this.H / 2;
+      kickoffPlayer.position.x = centerX;
+      kickoffPlayer.position.y = centerY;
+      
+      this.log(`⚽ KICKOFF (${subtype}): ${kickoffPlayer.name} at center (${centerX}, ${centerY})`);
+      
+      // Lock possession briefly for kickoff
+      this.possessionLockOwner = kickoffPlayer.id;
+      this.possessionLockUntil = this.clock.now() + lockMs;
+      
+      this.gameState$.next({ 
+        ...this.gameState$.value, 
+        ball: { x: centerX, y: centerY, vx: 0, vy: 0 }, 
+        currentBallOwner: kickoffPlayer.id 
+      });
+      
+      this.emitEvent('kickoff', kickoffTeam.name, kickoffPlayer.name, description, { 
+        startX: centerX, 
+        startY: centerY, 
+        endX: centerX, 
+        endY: centerY, 
+        result: 'restart', 
+        subtype 
+      });
+    } else {
+      // Fallback: just reset ball to center
+      this.gameState$.next({ 
+        ...this.gameState$.value, 
+        ball: { x: this.W / 2, y: this.H / 2, vx: 0, vy: 0 }, 
+        currentBallOwner: null 
+      });
+    }
+    
+    this.restartGraceUntil = this.clock.now() + 1500;
+  }
+
+  /**
+   * Judged as the ball is played: the receiver is offside when in the opponents' half and beyond
+   * both the ball and the second-last opponent (keeper included). Level is onside. Play restarts
+   * with an indirect free kick to the defenders where the offside player stood.
+   */
+  private checkOffsideOnPass(passer: Player, receiver: Player): void {
+    const isTeam1Passer = this.isTeam1(passer);
+    const defendingTeam = isTeam1Passer ? this.team2! : this.team1!;
+    const dir = this.attackDir(passer);
+    const line = offsideLineX(defendingTeam.players, dir, passer.position.x);
+    if (!isOffsidePosition(receiver.position.x, line, dir)) return;
+    this.emitEvent('offside', this.teamOfPlayer(passer).name, receiver.name, undefined, { startX: passer.position.x, startY: passer.position.y, endX: receiver.position.x, endY: receiver.position.y, result: 'whistle', subtype: 'offside' });
+    const spot = { x: receiver.position.x, y: receiver.position.y };
+    const taker = [...defendingTeam.players].sort((a, b) =>
+      Math.hypot(a.position.x - spot.x, a.position.y - spot.y) - Math.hypot(b.position.x - spot.x, b.position.y - spot.y))[0];
+    if (taker) this.awardFreeKick(defendingTeam, taker, spot.x, spot.y, 'indirect');
+  }
+
+  // ---------- Advanced helpers (restarts, interception, fouls) ----------
+  /**
+   * Corner kick from the flag, taken by the side's most accurate outfield player. Both teams take up
+   * set-piece positions, then the taker plays it short or swings it in (see resolveCornerDelivery).
+   */
+  private performCorner(team: Team, side: 'left' | 'right', quadrant: 'top' | 'bottom'): void {
+    this.pendingPass = null;
+    this.makeSubstitutions();
+    const cfg = environment.gameSettings.corners;
+    const x = side === 'left' ? 0.5 : this.W - 0.5; // in the corner arc
+    const y = quadrant === 'top' ? 0.5 : this.H - 0.5;
+    const taker = team.players.filter(p => p.role !== 'goalkeeper')
+      .sort((a, b) => (b.abilities?.accuracy ?? 50) - (a.abilities?.accuracy ?? 50))[0] ?? team.players[0];
+    taker.position.x = x;
+    taker.position.y = y;
+    const { inBox, short } = this.setCornerPositions(team, taker, x, y);
+    this.cornerScrumUntil = this.clock.now() + 6000;
+    this.gameState$.next({ ...this.gameState$.value, ball: { x, y, vx: 0, vy: 0 }, currentBallOwner: taker.id });
+    this.restartGraceUntil = this.clock.now() + 1200;
+    this.lastTouchTeam = this.isTeam1(taker) ? 'team1' : 'team2';
+
+    const goShort = short && (!inBox.length || this.rand() < cfg.shortChance);
+    const inswing = this.rand() < cfg.inswingShare;
+    const routine = goShort ? 'plays it short' : inswing ? 'whips in an in-swinger' : 'floats in an out-swinger';
+    this.emitEvent('corner', team.name, taker.name, `🚩 Corner to ${team.name} – ${taker.name} ${routine}.`, { startX: x, startY: y, endX: x, endY: y, result: 'restart', subtype: 'corner_kick', role: taker.role });
+    const faceTo = (p: Player) => { taker.facing = Math.atan2(p.position.y - y, p.position.x - x); };
+    if (goShort) { faceTo(short); this.initiatePass(taker, short, undefined, true); return; }
+    if (!inBox.length) return;
+    // Aimed at one of the runners in the box, the front two most often
+    const target = inBox[Math.min(inBox.length - 1, Math.floor(this.rand() * this.rand() * inBox.length))];
+    faceTo(target);
+    const option: PassOption = { target, kind: 'cross', x: target.position.x, y: target.position.y, progress: 0, support: 0, risk: 0, utility: 0 };
+    this.initiatePass(taker, target, option, true);
+    const pass = this.pendingPass as PendingPass | null;
+    if (pass?.corner) {
+      // An in-swinger bends towards goal (bowing away from the goal line mid-flight), an out-swinger away from it
+      const sign = Math.sign(pass.endY - pass.startY) * this.attackDir(taker);
+      pass.curl = (inswing ? 1 : -1) * sign * environment.gameSettings.ballFlight.curlM;
+    }
+  }
+
+  /**
+   * Set-piece positions for a corner: attackers on the near post, far post, penalty spot and the
+   * six-yard box, one at the edge of the area and one offered short by the flag, the rest holding
+   * at halfway. Defenders mark the runners goal-side, one guards the near post and the keeper stands
+   * on the line. Returns the runners in the box (front post first) and the short option.
+   */
+  private setCornerPositions(team: Team, taker: Player, x: number, y: number): { inBox: Player[]; short?: Player } {
+    const dir = this.attackDir(taker);
+    const goalX = dir === 1 ? this.W : 0;
+    const near = y < this.H / 2 ? -1 : 1; // side of the goal nearer the flag
+    const cy = this.H / 2;
+    const spot = (depth: number, offset: number) => ({ x: goalX - dir * depth, y: cy + near * offset });
+    const slots = [spot(6, 3), spot(7, -4), spot(PITCH.penaltySpot, 0), spot(8, -2), spot(PITCH.penaltyAreaDepth + 2, 4)];
+    const shortSpot = { x: x - dir * 5, y: y - near * 4 };
+    const rolePriority: Record<string, number> = { forward: 0, midfielder: 1, defender: 2 };
+    const runners = team.players.filter(p => p !== taker && p.role !== 'goalkeeper')
+      .sort((a, b) => (rolePriority[a.role] ?? 3) - (rolePriority[b.role] ?? 3));
+    const inBox: Player[] = [];
+    let short: Player | undefined;
+    runners.forEach((p, i) => {
+      if (i < slots.length) {
+        p.position.x = slots[i].x; p.position.y = slots[i].y;
+        if (i < 4) inBox.push(p);
+      } else if (i === slots.length) {
+        p.position.x = shortSpot.x; p.position.y = shortSpot.y;
+        short = p;
+      } else {
+        p.position.x = this.W / 2;
+      }
+    });
+
+    const defending = team === this.team1 ? this.team2! : this.team1!;
+    const keeper = defending.players.find(p => p.role === 'goalkeeper');
+    if (keeper) { keeper.position.x = goalX - dir * 0.5; keeper.position.y = cy + near; }
+    const markers = defending.players.filter(p => p !== keeper);
+    this.cornerMarks.clear();
+    const nearPost = markers.shift();
+    if (nearPost) { nearPost.position.x = goalX - dir; nearPost.position.y = cy + near * (PITCH.goalWidth / 2 + 0.5); }
+    [...inBox, ...runners.slice(4, 5)].forEach(runner => {
+      const marker = markers.sort((a, b) =>
+        Math.hypot(a.position.x - runner.position.x, a.position.y - runner.position.y) - Math.hypot(b.position.x - runner.position.x, b.position.y - runner.position.y)).shift();
+      if (!marker) return;
+      marker.position.x = runner.position.x + dir * 2; // goal-side, at arm's length
+      marker.position.y = runner.position.y;
+      this.cornerMarks.set(marker, runner);
+    });
+    return { inBox, short };
+  }
+
+  /**
+   * A corner dropping into the box that the keeper did not claim: the nearest attacker and defender
+   * go up for it – the attacker heads at goal or the defender heads it clear. A ball nobody reaches
+   * drops and bounces loose.
+   */
+  private resolveCornerDelivery(pass: PendingPass, x: number, y: number, air: { z: number; vz: number }): void {
+    const cfg = environment.gameSettings.corners;
+    this.pendingPass = null;
+    const attacking = this.teamOfPlayer(pass.passer);
+    const defending = attacking === this.team1 ? this.team2! : this.team1!;
+    const dist = (p: Player) => Math.hypot(p.position.x - x, p.position.y - y);
+    const reach = 2.5; // metres a player can attack the ball from
+    const closest = (team: Team) => team.players.filter(p => p.role !== 'goalkeeper' && dist(p) <= reach)
+      .sort((a, b) => dist(a) - dist(b))[0];
+    const attacker = closest(attacking);
+    const defender = closest(defending);
+    if (!attacker && !defender) {
+      const vx = (pass.endX - pass.startX) / (pass.duration / 1000) * 0.4;
+      const vy = (pass.endY - pass.startY) / (pass.duration / 1000) * 0.4;
+      this.gameState$.next({ ...this.gameState$.value, ball: { x, y, vx, vy, z: air.z, vz: air.vz }, currentBallOwner: null });
+      return;
+    }
+    // Aerial duel: spring (agility, pace, legs left) and being first to the ball
+    const jump = (p: Player) => ((p.abilities?.agility ?? 50) / 100) * (p.abilities?.speedFactor ?? 1) * this.fatigueFactor(p) * (1 - 0.3 * dist(p) / reach);
+    const attackerWins = !defender || (!!attacker &&
+      this.rand() < cfg.attackerDuelShare * jump(attacker) / (cfg.attackerDuelShare * jump(attacker) + (1 - cfg.attackerDuelShare) * jump(defender)));
+    if (attackerWins) {
+      this.meetWithHead({ ...pass, target: attacker! }, x, y, defender ? `🗼 ${attacker!.name} rises above ${defender.name} to meet the corner` : undefined);
+      return;
+    }
+    this.clearBall(defender!, x, y, 'head', attacker);
+  }
+
+  /**
+   * Clearance away from goal as a loose ball: a header (lands 15–30 m upfield) or a keeper's kick
+   * from outside the area, struck longer and lower.
+   */
+  private clearBall(player: Player, x: number, y: number, how: 'head' | 'foot', beaten?: Player): void {
+    const dir = this.attackDir(player);
+    const angle = (this.rand() - 0.5) * 1.6;
+    const speed = how === 'head' ? 10 + this.rand() * 8 : 16 + this.rand() * 8;
+    const vx = dir * Math.cos(angle) * speed; const vy = Math.sin(angle) * speed;
+    const description = how === 'foot' ? `🧤 ${player.name} races off the line and clears outside the area.`
+      : beaten ? `🧹 ${player.name} beats ${beaten.name} in the air and heads it clear.` : `🧹 ${player.name} heads it clear.`;
+    this.emitEvent('clearance', this.teamOfPlayer(player).name, player.name, description, {
+      startX: x, startY: y, endX: Math.max(0, Math.min(this.W, x + vx * 1.7)), endY: Math.max(0, Math.min(this.H, y + vy * 1.7)),
+      result: 'cleared', subtype: `${how}_clearance`, role: player.role,
+    });
+    // A header is met at the top of the jump and sent up, so it is soon out of everyone's reach
+    const air = how === 'head' ? { z: environment.gameSettings.ballFlight.headerHeight, vz: 7 } : { z: 0.2, vz: 8 };
+    this.gameState$.next({ ...this.gameState$.value, ball: { x, y, vx, vy, ...air }, currentBallOwner: null });
+    this.lastTouchTeam = this.isTeam1(player) ? 'team1' : 'team2';
+  }
+
+  private performGoalKick(defTeam: 'team1' | 'team2', side: 'left' | 'right'): void {
+    this.makeSubstitutions();
+    const W = this.W; const H = this.H; const team = defTeam === 'team1' ? this.team1! : this.team2!;
+    const x = side === 'left' ? PITCH.goalAreaDepth : W - PITCH.goalAreaDepth; const y = H / 2 + (this.rand() - 0.5) * 9;
+    const keeper = team.players.find(p => p.role === 'goalkeeper') || team.players[0];
+    this.gameState$.next({ ...this.gameState$.value, ball: { x, y, vx: 0, vy: 0 }, currentBallOwner: keeper.id });
+    this.keeperHold = { keeper, since: this.clock.now(), hands: false };
+    this.restartTaker = keeper;
+    this.emitEvent('goal_kick', team.name, keeper.name, undefined, { startX: x, startY: y, endX: x, endY: y, result: 'restart', subtype: 'goal_kick', role: keeper.role });
+    this.restartGraceUntil = this.clock.now() + 1200;
+    this.lastTouchTeam = defTeam;
+  }
+
+  private handleThrowIn(x: number, y: number): void {
+    if (!this.team1 || !this.team2) return;
+    this.makeSubstitutions();
+    const H = this.H; const W = this.W;
+    const inY = y < H / 2 ? 1 : H - 1;
+    const inX = Math.max(4.5, Math.min(W - 4.5, x));
+    const lastId = this.recentOwners[this.recentOwners.length - 1];
+    const all = [...this.team1.players, ...this.team2.players];
+    const lastPlayer = all.find(p => p.id === lastId);
+    const throwTeam = lastPlayer ? (this.isTeam1(lastPlayer) ? this.team2! : this.team1!) : this.team1!;
+    let taker = throwTeam.players[0]; let best = Infinity;
+    throwTeam.players.forEach(p => { const d = Math.hypot(p.position.x - inX, p.position.y - inY); if (d < best) { best = d; taker = p; } });
+    this.gameState$.next({ ...this.gameState$.value, ball: { x: inX, y: inY, vx: 0, vy: 0 }, currentBallOwner: taker.id });
+    this.restartTaker = taker;
+    this.emitEvent('throw_in', throwTeam.name, taker.name, undefined, { startX: inX, startY: inY, endX: inX, endY: inY, result: 'restart', subtype: 'throw_in', role: taker.role });
+    this.restartGraceUntil = this.clock.now() + 1500;
+  }
+
+  /** height(t) = ball height (m) at share t of the flight, for a ball in the air */
+  private findInterceptor(x0: number, y0: number, x1: number, y1: number, opponents: Player[], ballArrival: number, baseSpeed: number,
+                          height?: (t: number) => number): Player | null {
+    let best: Player | null = null; let bestLead = Infinity;
+    opponents.forEach(o => {
+      const t = this.paramAlongSegment(o.position.x, o.position.y, x0, y0, x1, y1);
+      const clamp = Math.max(0, Math.min(1, t));
+      if (height && height(clamp) > this.reachHeight(o)) return; // over their head
+      const px = x0 + (x1 - x0) * clamp; const py = y0 + (y1 - y0) * clamp;
+      const corridorDist = Math.hypot(o.position.x - px, o.position.y - py);
+      // Only consider interception if very close to pass line
+      if (corridorDist > 2.3) return;
+      const oppSpeed = baseSpeed * (o.abilities?.speedFactor ?? 1) * this.fatigueFactor(o) * 1.3; // slight speed boost for interception sprint
+      const travel = 0.6 + corridorDist / (oppSpeed + 0.01); // seconds, incl. time to read the pass
+      // Much stricter: need to arrive significantly before ball (50% of arrival time) and add random chance
+      if (travel < ballArrival * 0.5 && travel < bestLead && this.rand() < 0.3 * this.fatigueFactor(o)) { 
+        bestLead = travel; 
+        best = o; 
+      }
+    });
+    return best;
+  }
+  /**
+   * How exposed a pass lane is (0–1): the findInterceptor test, softened so a defender who would
+   * only just be too late still counts for something, combined over every opponent near the lane.
+   */
+  private laneRisk(x0: number, y0: number, x1: number, y1: number, opponents: Player[], ballArrival: number, baseSpeed: number,
+                   height?: (t: number) => number): number {
+    let safe = 1;
+    opponents.forEach(o => {
+      const t = Math.max(0, Math.min(1, this.paramAlongSegment(o.position.x, o.position.y, x0, y0, x1, y1)));
+      if (height && height(t) > this.reachHeight(o)) return;
+      const corridorDist = Math.hypot(o.position.x - (x0 + (x1 - x0) * t), o.position.y - (y0 + (y1 - y0) * t));
+      if (corridorDist > 4.6) return;
+      const oppSpeed = baseSpeed * (o.abilities?.speedFactor ?? 1) * this.fatigueFactor(o) * 1.3;
+      const travel = 0.6 + corridorDist / (oppSpeed + 0.01);
+      const lead = travel / Math.max(0.05, ballArrival);
+      const reach = lead < 0.5 ? 1 : Math.max(0, 1 - (lead - 0.5) * 2);
+      safe *= 1 - reach * Math.min(1, 2 - corridorDist / 2.3);
+    });
+    return 1 - safe;
+  }
+
+  /** A keeper gathers a loose ball within reach – but not one their own side has just sent up and away */
+  private keeperCanGather(keeper: Player, z: number, vz: number): boolean {
+    const ownTouch = this.lastTouchTeam === (this.isTeam1(keeper) ? 'team1' : 'team2');
+    return z <= environment.gameSettings.ballFlight.keeperReach && !(ownTouch && vz > 0);
+  }
+
+  private keeperSkill(keeper: Player, key: 'reflexes' | 'handling' | 'distribution'): number {
+    return keeper.abilities?.[key] ?? 50;
+  }
+
+  /** The keeper has the ball – in their hands (saves, claims, collections) or at their feet (goal kicks) */
+  private keeperGathers(keeper: Player, hands: boolean): void {
+    this.setBallOwner(keeper);
+    this.keeperHold = { keeper, since: this.clock.now(), hands };
+    this.lastTouchTeam = this.isTeam1(keeper) ? 'team1' : 'team2';
+  }
+
+  /**
+   * Where a keeper wants to be: out to a loose ball or a pass dropping behind the defence when they
+   * will get there first (sweeping), or towards a cross landing within claiming range; otherwise on
+   * the line from the centre of goal to the ball, further off the line the closer the ball gets
+   * (narrowing the angle).
+   */
+  private keeperTarget(keeper: Player, ball: { x: number; y: number }, owner: Player | null): { x: number; y: number; rush: boolean } {
+    const cfg = environment.gameSettings.goalkeeping;
+    const goalX = this.attackDir(keeper) === 1 ? 0 : this.W;
+    const cy = this.H / 2;
+    const pass = this.pendingPass;
+    const opponents = this.isTeam1(keeper) ? this.team2!.players : this.team1!.players;
+    const spot = pass && !pass.shot && opponents.includes(pass.passer) ? { x: pass.endX, y: pass.endY } : !owner && !pass ? ball : null;
+    if (spot && Math.abs(spot.x - goalX) <= cfg.sweepRangeM) {
+      const eta = (p: Player) => Math.hypot(spot.x - p.position.x, spot.y - p.position.y) / ((p.abilities?.speedFactor ?? 1) * this.fatigueFactor(p));
+      const first = opponents.every(o => o.role === 'goalkeeper' || eta(o) > eta(keeper));
+      const claim = pass?.type === 'cross' && Math.hypot(spot.x - keeper.position.x, spot.y - keeper.position.y) <= cfg.claimRangeM;
+      if (first || claim) return { x: spot.x, y: spot.y, rush: true };
+    }
+    const dx = ball.x - goalX; const dy = ball.y - cy; const d = Math.hypot(dx, dy) || 1;
+    const depth = Math.min(d / 2, cfg.restDepthM + (cfg.maxDepthM - cfg.restDepthM) * Math.max(0, 1 - d / cfg.narrowFromM));
+    return { x: goalX + (dx / d) * depth, y: cy + (dy / d) * depth, rush: false };
+  }
+
+  /** A cross dropping within the keeper's range: caught more often by keepers with good handling */
+  private keeperClaims(pass: PendingPass, x: number, y: number, z: number): boolean {
+    const cfg = environment.gameSettings.goalkeeping;
+    const defending = this.isTeam1(pass.passer) ? this.team2! : this.team1!;
+    const keeper = defending.players.find(p => p.role === 'goalkeeper');
+    if (!keeper || Math.hypot(keeper.position.x - x, keeper.position.y - y) > cfg.claimRangeM) return false;
+    if (z > environment.gameSettings.ballFlight.keeperReach) return false;
+    if (this.rand() >= cfg.claimChance * (0.5 + this.keeperSkill(keeper, 'handling') / 100)) return false;
+    this.pendingPass = null;
+    this.emitEvent('save', defending.name, keeper.name, `🧤 ${keeper.name} comes off the line and claims the ${pass.corner ? 'corner' : 'cross'}!`, {
+      startX: x, startY: y, endX: keeper.position.x, endY: keeper.position.y, result: 'collected', subtype: pass.corner ? 'corner_claim' : 'cross_claim', role: 'goalkeeper',
+    });
+    this.gameState$.next({ ...this.gameState$.value, ball: { x, y, vx: 0, vy: 0 } });
+    this.keeperGathers(keeper, true);
+    return true;
+  }
+
+  /**
+   * Keeper on the ball. After holding it (briefly when a counter is on) they throw it to a free
+   * team-mate well upfield, roll it to a free defender when the opponents are not pressing, throw it
+   * to anyone free within range, or otherwise kick it long to the forward or midfielder with most room.
+   * Goal kicks and balls at the keeper's feet cannot be thrown.
+   */
+  private distribute(keeper: Player, mates: Player[]): void {
+    const cfg = environment.gameSettings.goalkeeping;
+    const now = this.clock.now();
+    if (this.keeperHold?.keeper !== keeper) this.keeperHold = { keeper, since: now, hands: false };
+    const hold = this.keeperHold;
+    const dir = this.attackDir(keeper);
+    const opponents = this.isTeam1(keeper) ? this.team2!.players : this.team1!.players;
+    const space = (p: Player) => Math.min(...opponents.map(o => Math.hypot(o.position.x - p.position.x, o.position.y - p.position.y)));
+    const dist = (p: Player) => Math.hypot(p.position.x - keeper.position.x, p.position.y - keeper.position.y);
+    const upfield = (p: Player) => (p.position.x - keeper.position.x) * dir;
+    const free = mates.filter(m => m.role !== 'goalkeeper' && space(m) >= cfg.freeSpaceM);
+    const throwTo = hold.hands ? free.filter(m => dist(m) <= cfg.throwRangeM).sort((a, b) => upfield(b) - upfield(a))[0] : undefined;
+    const counter = !!throwTo && upfield(throwTo) > 20;
+    if (now - hold.since < (counter ? cfg.holdMs / 4 : cfg.holdMs)) return;
+
+    const pressing = opponents.filter(o => dist(o) < 25).length;
+    const rollTo = free.filter(m => m.role === 'defender' && dist(m) <= 30).sort((a, b) => space(b) - space(a))[0];
+    const kickTo = mates.filter(m => m.role === 'forward' || m.role === 'midfielder')
+      .sort((a, b) => (space(b) + upfield(b) / 4) - (space(a) + upfield(a) / 4))[0];
+    const [target, kind]: [Player | undefined, PassOption['kind']] = counter ? [throwTo, 'keeper_throw']
+      : rollTo && pressing < 2 ? [rollTo, 'keeper_roll']
+      : throwTo ? [throwTo, 'keeper_throw']
+      : [kickTo ?? mates[0], 'keeper_kick'];
+    if (!target) return;
+    const option: PassOption = { target, kind, x: target.position.x, y: target.position.y, progress: 0, support: 0, risk: 0, utility: 0 };
+    this.log(`🧤 ${keeper.name} distributes: ${kind} to ${target.name} (${pressing} opponents within 25 m)`);
+    this.beginKick(keeper, option.x, option.y, { pass: option });
+  }
+
+  /** Highest ball (m) a player can play: keepers with their hands, everyone else with a jumping header */
+  private reachHeight(p: Player): number {
+    const flight = environment.gameSettings.ballFlight;
+    return p.role === 'goalkeeper' ? flight.keeperReach : flight.headerHeight;
+  }
+
+  private paramAlongSegment(px: number, py: number, x0: number, y0: number, x1: number, y1: number): number {
+    const dx = x1 - x0; const dy = y1 - y0; const lenSq = dx * dx + dy * dy; if (!lenSq) return 0; return ((px - x0) * dx + (py - y0) * dy) / lenSq;
+  }
+
+  private maybeGenerateFoul(now: number): void {
+    if (!this.team1 || !this.team2) return;
+    if (now - this.lastFoulTime < this.foulCooldownMs) return;
+    if (this.pendingPass?.shot || this.pendingPass?.corner) return;
+    const everyone = [...this.team1.players, ...this.team2.players];
+    const collisions: [Player, Player][] = [];
+    for (let i = 0; i < everyone.length; i++) {
+      for (let j = i + 1; j < everyone.length; j++) {
+        const a = everyone[i]; const b = everyone[j];
+        if (this.isTeam1(a) === this.isTeam1(b)) continue;
+        const d = Math.hypot(a.position.x - b.position.x, a.position.y - b.position.y);
+        if (d < 1.8) collisions.push([a, b]);
+      }
+    }
+    const ownerId = this.gameState$.value.currentBallOwner;
+    // Jostling in a crowded box after a corner is let go unless someone is on the ball
+    const scrum = now < this.cornerScrumUntil ? collisions.filter(([a, b]) => a.id === ownerId || b.id === ownerId) : collisions;
+    // Nobody challenges a keeper with the ball in their hands
+    const held = this.keeperHold?.hands && this.keeperHold.keeper.id === ownerId ? this.keeperHold.keeper : null;
+    const contacts = held ? scrum.filter(pair => !pair.includes(held)) : scrum;
+    if (contacts.length && this.rand() < 0.15) {
+      const [a, b] = contacts[Math.floor(this.rand() * contacts.length)];
+      // The ball carrier is the one fouled; off the ball either player can be the culprit
+      const aOffends = b.id === ownerId || (a.id !== ownerId && this.rand() < 0.5);
+      const [offender, victim] = aOffends ? [a, b] : [b, a];
+      this.commitFoul(offender, victim, 'contact', this.discipline.yellowChance);
+    }
+  }
+
+  // ---------- Discipline ----------
+  /**
+   * Whistle a foul by offender on victim: a possible card, then a penalty if it happened inside
+   * the offender's own penalty area, otherwise a free kick where the victim was fouled.
+   */
+  private commitFoul(offender: Player, victim: Player, subtype: string, yellowChance: number): void {
+    const cfg = this.discipline;
+    const x = victim.position.x; const y = victim.position.y;
+    const offendingTeam = this.teamOfPlayer(offender);
+    const fouledTeam = this.teamOfPlayer(victim);
+    this.lastFoulTime = this.clock.now();
+    this.emitEvent('foul', offendingTeam.name, offender.name, undefined, { startX: offender.position.x, startY: offender.position.y, endX: x, endY: y, result: 'whistle', subtype, role: offender.role });
+    const cardRoll = this.rand();
+    if (cardRoll < cfg.redChance) this.sendOff(offender, 'straight_red');
+    else if (cardRoll < cfg.redChance + yellowChance) this.book(offender);
+    if (this.rand() < environment.gameSettings.substitutions.injuryChance) this.injure(victim);
+    if (this.inPenaltyArea(x, y, this.attackDir(offender) === 1 ? 'left' : 'right')) this.awardPenalty(fouledTeam);
+    else this.awardFreeKick(fouledTeam, victim, x, y);
+  }
+
+  private book(player: Player): void {
+    const yellows = (this.bookings.get(player.id) ?? 0) + 1;
+    this.bookings.set(player.id, yellows);
+    const team = this.teamOfPlayer(player);
+    this.emitEvent('yellow_card', team.name, player.name, undefined, { startX: player.position.x, startY: player.position.y, result: 'booked', subtype: yellows > 1 ? 'second_yellow' : 'caution', role: player.role });
+    this.updateCards();
+    if (yellows > 1) this.sendOff(player, 'second_yellow');
+  }
+
+  /** Red card: the player leaves the pitch and the team closes the gap */
+  private sendOff(player: Player, reason: 'straight_red' | 'second_yellow'): void {
+    const team = this.teamOfPlayer(player);
+    const description = reason === 'second_yellow'
+      ? `🟥 Second yellow – ${player.name} is sent off! ${team.name} are down to ${team.players.length - 1}.`
+      : `🟥 Straight red! ${player.name} is sent off! ${team.name} are down to ${team.players.length - 1}.`;
+    this.emitEvent('red_card', team.name, player.name, description, { startX: player.position.x, startY: player.position.y, result: 'sent_off', subtype: reason, role: player.role });
+    this.takeOffPitch(team, player);
+    this.reshapeAfterDismissal(team, player);
+    this.updateCards();
+  }
+
+  /** Remove a player from play without a replacement (sent off, or injured with no changes left) */
+  private takeOffPitch(team: Team, player: Player): void {
+    team.players.splice(team.players.indexOf(player), 1);
+    if (this.gameState$.value.currentBallOwner === player.id) this.gameState$.next({ ...this.gameState$.value, currentBallOwner: null });
+    if (this.pendingPass && (this.pendingPass.passer === player || this.pendingPass.target === player)) this.pendingPass = null;
+    this.injured.delete(player.id);
+    // Off the pitch (hidden by the canvas and by replays)
+    player.position.x = -50;
+    player.position.y = -50;
+  }
+
+  /**
+   * Close the gap left by a sent-off player: a defender goes in goal for a dismissed keeper,
+   * an emptied back line borrows a midfielder, and the short line spreads across the gap.
+   */
+  private reshapeAfterDismissal(team: Team, lost: Player): void {
+    let line = lost.role;
+    let gap = { ...(lost.basePosition ?? lost.position) }; // formation slot left empty
+    if (lost.role === 'goalkeeper') {
+      const agility = (p: Player) => p.abilities?.agility ?? 50;
+      const standIn = [...team.players.filter(p => p.role === 'defender')].sort((a, b) => agility(b) - agility(a))[0]
+        ?? team.players[0];
+      if (!standIn) return;
+      line = standIn.role;
+      this.swapRole(standIn, 'goalkeeper');
+      const keeperSlot = gap;
+      gap = { ...(standIn.basePosition ?? standIn.position) };
+      standIn.basePosition = keeperSlot;
+    }
+    if (line === 'defender' && !team.players.some(p => p.role === 'defender')) {
+      const cover = team.players.filter(p => p.role === 'midfielder')
+        .sort((a, b) => Math.abs((a.basePosition?.y ?? a.position.y) - gap.y) - Math.abs((b.basePosition?.y ?? b.position.y) - gap.y))[0];
+      if (cover) {
+        this.swapRole(cover, 'defender');
+        const coverSlot = { ...(cover.basePosition ?? cover.position) };
+        cover.basePosition = { x: gap.x, y: coverSlot.y };
+        gap = coverSlot;
+        line = 'midfielder';
+      }
+    }
+    const remaining = team.players.filter(p => p.role === line && p.basePosition);
+    if (line === 'goalkeeper' || !remaining.length) return;
+    const ys = [...remaining.map(p => p.basePosition!.y), gap.y];
+    const top = Math.min(...ys); const bottom = Math.max(...ys);
+    remaining.sort((a, b) => a.basePosition!.y - b.basePosition!.y).forEach((p, i) => {
+      p.basePosition!.y = remaining.length === 1 ? (top + bottom) / 2 : top + (bottom - top) * i / (remaining.length - 1);
+    });
+  }
+
+  /** Play a player out of position until the squads are restored */
+  private swapRole(p: Player, role: Player['role']): void {
+    this.roleSwaps.push({ player: p, role: p.role });
+    p.role = role;
+  }
+
+  /** Put the kickoff line-ups and benches back (and undo role swaps) once the match is over */
+  private restoreSquads(): void {
+    [...this.roleSwaps].reverse().forEach(s => s.player.role = s.role);
+    this.squads.forEach(({ team, players, bench }) => {
+      team.players.splice(0, team.players.length, ...players);
+      if (team.bench) team.bench.splice(0, team.bench.length, ...bench);
+    });
+    this.roleSwaps = [];
+    this.squads = [];
+  }
+
+  private updateCards(): void {
+    const gs = this.gameState$.value;
+    this.gameState$.next({ ...gs, cards: cardCounts(gs.events, this.team1!.name, this.team2!.name) });
+  }
+
+  // ---------- Substitutions ----------
+  private injure(player: Player): void {
+    if (this.injured.has(player.id)) return;
+    this.injured.add(player.id);
+    const team = this.teamOfPlayer(player);
+    this.emitEvent('injury', team.name, player.name, `🩹 ${player.name} is hurt and cannot continue.`, {
+      startX: player.position.x, startY: player.position.y, result: 'forced_off', subtype: 'contact_injury', role: player.role
+    });
+  }
+
+  /**
+   * Changes are only made while the ball is dead: injured players first, then queued manual
+   * changes, then at most one AI change per team and the AI's late switch of formation.
+   */
+  private makeSubstitutions(): void {
+    if (!this.team1 || !this.team2) return;
+    const phase = this.gameState$.value.phase;
+    if (phase === 'penalties' || phase === 'finished') return;
+    const teams = [this.team1, this.team2];
+    teams.forEach(team => team.players.filter(p => this.injured.has(p.id)).forEach(p => {
+      const on = this.subsLeft(team) > 0 ? this.pickReplacement(team, p, true) : undefined;
+      if (on) {
+        this.substitute(team, p, on, 'injury');
+      } else {
+        this.emitEvent('injury', team.name, p.name, `🩹 No changes left – ${team.name} are down to ${team.players.length - 1}.`, {
+          result: 'withdrawn', subtype: 'no_substitutes', role: p.role
+        });
+        this.takeOffPitch(team, p);
+        this.reshapeAfterDismissal(team, p);
+      }
+    }));
+    const queued = this.subQueue;
+    this.subQueue = [];
+    queued.forEach(q => {
+      const team = q.side === 'team1' ? this.team1! : this.team2!;
+      const off = team.players.find(p => p.id === q.offId);
+      const on = team.bench?.find(p => p.id === q.onId);
+      if (off && on && this.subsLeft(team) > 0) this.substitute(team, off, on, 'manual');
+    });
+    teams.forEach(team => this.aiSubstitution(team));
+    teams.forEach(team => this.aiFormationChange(team));
+    this.updateSubstitutions();
+  }
+
+  /** AI manager: late on, rest the most tired starter or one risking a second yellow */
+  private aiSubstitution(team: Team): void {
+    const cfg = environment.gameSettings.substitutions;
+    const left = this.subsLeft(team);
+    const minute = this.matchMinute();
+    if (left <= 0 || !team.bench?.length || minute < cfg.aiFromMinute) return;
+    if (left === 1 && minute < 80) return; // keep the last change in case of injury
+    const ratio = (p: Player) => p.abilities ? p.abilities.stamina / p.abilities.maxStamina : 1;
+    const booked = (p: Player) => minute >= cfg.bookedFromMinute && this.bookings.has(p.id);
+    const cameOn = new Set(this.squads.find(s => s.team === team)?.bench ?? []);
+    const due = team.players
+      .filter(p => p.role !== 'goalkeeper' && !cameOn.has(p) && (ratio(p) < cfg.tiredRatio || booked(p)))
+      .sort((a, b) => (1 - ratio(b) + (booked(b) ? 0.3 : 0)) - (1 - ratio(a) + (booked(a) ? 0.3 : 0)));
+    for (const off of due) {
+      const on = this.pickReplacement(team, off, false);
+      if (on) {
+        this.substitute(team, off, on, 'tactical');
+        return;
+      }
+    }
+  }
+
+  /** Best substitute for the same line; an injured keeper can be replaced by an outfielder if need be */
+  private pickReplacement(team: Team, off: Player, forced: boolean): Player | undefined {
+    const quality = (p: Player) => (p.abilities?.agility ?? 50) + (p.abilities?.accuracy ?? 50);
+    const bench = [...(team.bench ?? [])].sort((a, b) => quality(b) - quality(a));
+    const sameLine = bench.find(p => p.role === off.role);
+    if (sameLine) return sameLine;
+    if (off.role === 'goalkeeper') return forced ? bench[0] : undefined;
+    return bench.find(p => p.role !== 'goalkeeper');
+  }
+
+  /** The substitute takes over the outgoing player's spot, formation slot and line (and the ball) */
+  private substitute(team: Team, off: Player, on: Player, reason: 'tactical' | 'injury' | 'manual'): void {
+    const from = { ...off.position };
+    team.players.splice(team.players.indexOf(off), 1, on);
+    team.bench!.splice(team.bench!.indexOf(on), 1);
+    on.position.x = from.x;
+    on.position.y = from.y;
+    on.basePosition = off.basePosition ? { ...off.basePosition } : undefined;
+    if (on.role !== off.role) this.swapRole(on, off.role);
+    off.position.x = -50;
+    off.position.y = -50;
+    this.injured.delete(off.id);
+    const gs = this.gameState$.value;
+    if (gs.currentBallOwner === off.id) this.gameState$.next({ ...gs, currentBallOwner: on.id });
+    if (this.possessionLockOwner === off.id) this.possessionLockOwner = on.id;
+    if (this.pendingPass && (this.pendingPass.passer === off || this.pendingPass.target === off)) this.pendingPass = null;
+    this.subsUsed[this.sideOf(team)]++;
+    const note = reason === 'injury' ? ' – forced change' : '';
+    this.emitEvent('substitution', team.name, on.name, `🔄 ${team.name}: ${on.name} replaces ${off.name}${note}.`, {
+      startX: from.x, startY: from.y, result: 'completed', subtype: reason, role: on.role, playerOff: off.name
+    });
+    this.log(`🔄 SUB (${reason}): ${off.name} ➜ ${on.name} for ${team.name}`);
+  }
+
+  private subsLeft(team: Team): number {
+    return environment.gameSettings.substitutions.maxSubs - this.subsUsed[this.sideOf(team)];
+  }
+
+  private sideOf(team: Team): 'team1' | 'team2' {
+    return team === this.team1 ? 'team1' : 'team2';
+  }
+
+  /** Minute on the match clock (45 during the break, 90 once the clock has stopped) */
+  private matchMinute(): number {
+    const gs = this.gameState$.value;
+    const minute = parseInt(gs.clockLabel ?? '', 10);
+    return Number.isNaN(minute) ? ((gs.half ?? 1) === 1 ? 45 : 90) : minute;
+  }
+
+  /** AI manager: once per match, go for it when trailing late or shut up shop when leading later still */
+  private aiFormationChange(team: Team): void {
+    const side = this.sideOf(team);
+    if (this.managed.has(side) || this.formationSwitched.has(side)) return;
+    const cfg = environment.gameSettings.tactics;
+    const score = this.gameState$.value.score;
+    const margin = side === 'team1' ? score.team1 - score.team2 : score.team2 - score.team1;
+    const minute = this.matchMinute();
+    const change = margin < 0 && minute >= cfg.chaseFromMinute ? { formation: cfg.chaseFormation, reason: 'chasing' as const }
+      : margin > 0 && minute >= cfg.protectFromMinute ? { formation: cfg.protectFormation, reason: 'protecting' as const }
+      : null;
+    if (!change || change.formation === this.tactics[side].formation) return;
+    this.formationSwitched.add(side);
+    this.changeFormation(team, change.formation, change.reason);
+    this.updateTactics();
+  }
+
+  /** Redraw a team's shape for the side of the pitch it is defending now */
+  private changeFormation(team: Team, name: string, reason: 'manual' | 'chasing' | 'protecting'): void {
+    const formation = findFormation(name);
+    const side = this.sideOf(team);
+    const previous = this.tactics[side].formation;
+    if (!formation || name === previous || !team.players.length) return;
+    this.tactics[side] = { ...this.tactics[side], formation: name };
+    this.layoutFormation(team, formation, this.attackDir(team.players[0]) === 1);
+    const why = reason === 'chasing' ? ' chasing the game' : reason === 'protecting' ? ' to protect the lead' : '';
+    this.emitEvent('formation_change', team.name, 'Manager', `📐 ${team.name} switch from ${previous} to ${name}${why}.`, {
+      result: reason, subtype: name
+    });
+    this.log(`📐 FORMATION (${reason}): ${team.name} ${previous} ➜ ${name}`);
+  }
+
+  private tacticsOf(team: Team): TeamTactics {
+    return this.tactics[this.sideOf(team)];
+  }
+
+  private currentTactics(): MatchTactics {
+    return { team1: { ...this.tactics.team1 }, team2: { ...this.tactics.team2 } };
+  }
+
+  private updateTactics(): void {
+    this.gameState$.next({ ...this.gameState$.value, tactics: this.currentTactics() });
+  }
+
+  private updateSubstitutions(): void {
+    this.gameState$.next({
+      ...this.gameState$.value,
+      substitutions: { used: { ...this.subsUsed }, queued: [...this.subQueue] },
+    });
+  }
+
+  /** Whether (x, y) lies inside the penalty area in front of the left or right goal */
+  private inPenaltyArea(x: number, y: number, side: 'left' | 'right'): boolean {
+    const depth = PITCH.penaltyAreaDepth;
+    const inDepth = side === 'left' ? x <= depth : x >= this.W - depth;
+    return inDepth && Math.abs(y - this.H / 2) <= PITCH.penaltyAreaWidth / 2;
+  }
+
+  /**
+   * Free kick at the foul spot, taken by the fouled player; opponents retreat 9.15 m and build a
+   * wall when it is within shooting range. A direct free kick there may be struck straight at goal.
+   */
+  private awardFreeKick(team: Team, taker: Player, x: number, y: number, kind: 'direct' | 'indirect' = 'direct'): void {
+    this.pendingPass = null;
+    this.makeSubstitutions();
+    const spotX = Math.max(1, Math.min(this.W - 1, x));
+    const spotY = Math.max(1, Math.min(this.H - 1, y));
+    // An injured taker has just been replaced: whoever is nearest takes it
+    if (!team.players.includes(taker)) {
+      taker = [...team.players].sort((a, b) =>
+        Math.hypot(a.position.x - spotX, a.position.y - spotY) - Math.hypot(b.position.x - spotX, b.position.y - spotY))[0];
+      if (!taker) return;
+    }
+    taker.position.x = spotX;
+    taker.position.y = spotY;
+    const radius = PITCH.circleRadius;
+    const opponents = team === this.team1 ? this.team2!.players : this.team1!.players;
+    opponents.forEach(o => {
+      const dx = o.position.x - spotX; const dy = o.position.y - spotY; const d = Math.hypot(dx, dy);
+      if (d >= radius) return;
+      // Back towards their own goal when standing on the spot
+      const ux = d > 0 ? dx / d : -this.attackDir(o); const uy = d > 0 ? dy / d : 0;
+      o.position.x = Math.max(0, Math.min(this.W, spotX + ux * radius));
+      o.position.y = Math.max(0, Math.min(this.H, spotY + uy * radius));
+    });
+    const defending = team === this.team1 ? this.team2! : this.team1!;
+    const goalX = this.attackDir(taker) === 1 ? this.W : 0;
+    const distM = Math.hypot(goalX - spotX, this.H / 2 - spotY);
+    const cfg = environment.gameSettings.freeKicks;
+    const wall = distM <= cfg.wallRangeM ? this.formWall(defending, spotX, spotY, goalX, distM) : [];
+    this.gameState$.next({ ...this.gameState$.value, ball: { x: spotX, y: spotY, vx: 0, vy: 0 }, currentBallOwner: taker.id });
+    const description = kind === 'direct'
+      ? `🎯 Free kick to ${team.name}${wall.length ? ` – ${wall.length} in the wall` : ''}.`
+      : `🎯 Indirect free kick to ${team.name}.`;
+    this.emitEvent('free_kick', team.name, taker.name, description, { startX: spotX, startY: spotY, endX: goalX, endY: this.H / 2, result: 'restart', subtype: `${kind}_free_kick`, role: taker.role });
+    this.possessionLockOwner = taker.id;
+    this.possessionLockUntil = this.clock.now() + 1000;
+    this.restartGraceUntil = this.clock.now() + 1500;
+    this.lastTouchTeam = this.isTeam1(taker) ? 'team1' : 'team2';
+
+    // Shoot when close and central enough; good strikers fancy it from further out
+    const angleFactor = Math.max(0, 1 - Math.abs(spotY - this.H / 2) / (this.H * 0.35));
+    const reach = cfg.shootRangeM * (0.7 + (taker.abilities?.shotPower ?? 70) / 250);
+    const shootChance = kind === 'direct' && distM <= reach ? angleFactor * (1 - distM / (reach * 1.3)) : 0;
+    if (shootChance > 0 && this.rand() < shootChance) this.takeDirectFreeKick(taker, wall, goalX, distM);
+  }
+
+  /** 2–5 defenders stand on the line from ball to goal, 9.15 m from the ball */
+  private formWall(team: Team, x: number, y: number, goalX: number, distM: number): Player[] {
+    const size = distM < 20 ? 5 : distM < 25 ? 4 : distM < 30 ? 3 : 2;
+    const radius = PITCH.circleRadius;
+    const dx = goalX - x; const dy = this.H / 2 - y; const d = Math.hypot(dx, dy) || 1;
+    const cx = x + (dx / d) * radius; const cy = y + (dy / d) * radius;
+    const wall = team.players.filter(p => p.role !== 'goalkeeper')
+      .sort((a, b) => Math.hypot(a.position.x - cx, a.position.y - cy) - Math.hypot(b.position.x - cx, b.position.y - cy))
+      .slice(0, size);
+    const spacing = 1.5; // metres
+    wall.forEach((p, i) => {
+      const offset = (i - (wall.length - 1) / 2) * spacing;
+      // Perpendicular to the ball-goal line
+      p.position.x = Math.max(0, Math.min(this.W, cx - (dy / d) * offset));
+      p.position.y = Math.max(0, Math.min(this.H, cy + (dx / d) * offset));
+    });
+    return wall;
+  }
+
+  /** Direct strike: accurate takers bend it round the wall, then the keeper gets a save attempt on arrival */
+  private takeDirectFreeKick(taker: Player, wall: Player[], goalX: number, distM: number): void {
+    const team = this.teamOfPlayer(taker);
+    const accuracy = this.effectiveAccuracy(taker);
+    const blockChance = wall.length ? Math.max(0.05, 0.08 * wall.length - (accuracy - 50) / 300) : 0;
+    if (this.rand() < blockChance) {
+      const blocker = wall[Math.floor(this.rand() * wall.length)];
+      const startX = taker.position.x; const startY = taker.position.y;
+      const inputs = this.xgInputs(taker, goalX, this.H / 2, 'free_kick');
+      this.emitEvent('shot', team.name, taker.name, `🧱 ${taker.name}'s free kick smashes into the wall.`, {
+        startX, startY, endX: blocker.position.x, endY: blocker.position.y, result: 'blocked', subtype: 'direct_free_kick', role: taker.role,
+        xg: expectedGoals(inputs), ...this.xgFields(inputs),
+      });
+      // Rebounds loose off the wall back towards the taker
+      const bx = blocker.position.x; const by = blocker.position.y;
+      const rebound = 0.6 + this.rand() * 0.6;
+      this.gameState$.next({
+        ...this.gameState$.value,
+        ball: { x: bx, y: by, vx: (startX - bx) * rebound, vy: (startY - by) * rebound + (this.rand() - 0.5) * 4.6 },
+        currentBallOwner: null,
+      });
+      this.lastTouchTeam = this.isTeam1(blocker) ? 'team1' : 'team2';
+      return;
+    }
+    this.log(`🎯 Direct free kick: ${taker.name} from ${distM.toFixed(0)}m`);
+    this.takeShot(taker, goalX, this.H / 2, 'free_kick');
+  }
+
+  /** Penalty: best finisher on the spot, keeper on the line, everyone else outside the area */
+  private awardPenalty(team: Team): void {
+    this.pendingPass = null;
+    this.makeSubstitutions();
+    const taker = this.penaltyOrder(team)[0];
+    if (!taker) return;
+    const dir = this.attackDir(taker);
+    const goalX = dir === 1 ? this.W : 0;
+    const spotX = goalX - dir * PITCH.penaltySpot;
+    const edgeX = goalX - dir * (PITCH.penaltyAreaDepth + 1.5);
+    const defending = team === this.team1 ? this.team2! : this.team1!;
+    const keeper = defending.players.find(p => p.role === 'goalkeeper');
+    [...this.team1!.players, ...this.team2!.players].forEach(p => {
+      if (p === taker || p === keeper) return;
+      if ((p.position.x - edgeX) * dir > 0) p.position.x = edgeX;
+    });
+    if (keeper) { keeper.position.x = goalX - dir * 0.5; keeper.position.y = this.H / 2; }
+    taker.position.x = spotX;
+    taker.position.y = this.H / 2;
+    this.gameState$.next({ ...this.gameState$.value, ball: { x: spotX, y: this.H / 2, vx: 0, vy: 0 }, currentBallOwner: taker.id });
+    this.emitEvent('penalty', team.name, taker.name, `⚠️ Penalty to ${team.name}! ${taker.name} steps up.`, { startX: spotX, startY: this.H / 2, result: 'awarded', subtype: 'penalty_kick', role: taker.role });
+    this.takeShot(taker, goalX, this.H / 2, 'penalty');
+  }
+
+  // ---------- Tackling ----------
+  /**
+   * Pressers within reach of the dribbler may challenge. The duel is decided by agility and
+   * speed (scaled by fatigue) on both sides; a lost challenge can be a mistimed foul.
+   */
+  private resolveTackles(owner: Player, pressers: Player[]): void {
+    const cfg = environment.gameSettings.tackling;
+    const now = this.clock.now();
+    if (owner.role === 'goalkeeper' || this.pendingPass) return;
+    if (now < this.restartGraceUntil) return;
+    if (this.possessionLockOwner === owner.id && now < this.possessionLockUntil) return;
+    for (const tackler of pressers) {
+      const dist = Math.hypot(tackler.position.x - owner.position.x, tackler.position.y - owner.position.y);
+      if (dist > cfg.range || now < (this.tackleCooldownUntil.get(tackler.id) ?? 0)) continue;
+      if (this.rand() >= cfg.attemptChance) continue;
+      this.tackleCooldownUntil.set(tackler.id, now + cfg.cooldownMs);
+      const duel = (p: Player) => ((p.abilities?.agility ?? 50) / 100) * (p.abilities?.speedFactor ?? 1) * this.fatigueFactor(p);
+      const winChance = Math.max(0.1, Math.min(0.85, cfg.baseWin + (duel(tackler) - duel(owner)) * cfg.skillWeight));
+      const tacklingTeam = this.teamOfPlayer(tackler).name;
+      const at = { startX: owner.position.x, startY: owner.position.y, endX: tackler.position.x, endY: tackler.position.y, pressure: Math.round(dist * 100) / 100, role: tackler.role };
+      if (this.rand() < winChance) {
+        this.emitEvent('tackle', tacklingTeam, tackler.name, undefined, { ...at, result: 'won', subtype: 'standing_tackle' });
+        this.setBallOwner(tackler);
+        this.lastTouchTeam = this.isTeam1(tackler) ? 'team1' : 'team2';
+        this.possessionStartTime = now;
+        this.possessionLockOwner = tackler.id;
+        this.possessionLockUntil = now + cfg.lockMs;
+        this.tackleCooldownUntil.set(owner.id, now + cfg.cooldownMs);
+        return;
+      }
+      // Tired legs mistime more challenges
+      if (this.rand() < cfg.foulChance * (2 - this.fatigueFactor(tackler))) {
+        this.emitEvent('tackle', tacklingTeam, tackler.name, `❌ ${tackler.name} mistimes the challenge on ${owner.name}.`, { ...at, result: 'foul', subtype: 'mistimed_tackle' });
+        this.commitFoul(tackler, owner, 'mistimed_tackle', this.discipline.tackleYellowChance);
+        return;
+      }
+      this.emitEvent('tackle', tacklingTeam, tackler.name, `💨 ${owner.name} rides the challenge from ${tackler.name}.`, { ...at, result: 'failed', subtype: 'standing_tackle' });
+      this.tackleCooldownUntil.set(tackler.id, now + cfg.cooldownMs * 1.5); // beaten tackler needs time to recover
+    }
+  }
+
+  /** Credit the tick to the side in control, or to the last side that was while the ball is loose */
+  private trackPossession(ownerId: string | null, dtMs: number): void {
+    const owner = ownerId ? this.findPlayer(ownerId) : null;
+    if (owner) this.possessionSide = this.isTeam1(owner) ? 'team1' : 'team2';
+    if (this.possessionSide) this.possessionMs[this.possessionSide] += dtMs;
+  }
+
+  private possessionSnapshot(): { team1: number; team2: number } {
+    return { team1: Math.round(this.possessionMs.team1), team2: Math.round(this.possessionMs.team2) };
+  }
+
+  private setBallOwner(player: Player): void {
+    const gs = this.gameState$.value;
+    this.gameState$.next({ ...gs, currentBallOwner: player.id });
+  }
+
+  // ---------- Orientation ----------
+  /**
+   * Facing follows the way a player moves, at their turn rate; running off the line they face is slow
+   * (down to `movement.offFacingPace` of full pace sideways or backwards). Standing players and keepers
+   * watch the ball, and the player winding up a kick stands still while turning to it.
+   */
+  private updateOrientation(players: Player[], startPositions: { x: number; y: number }[], stepSec: number, ball: { x: number; y: number }): void {
+    const cfg = environment.gameSettings.movement;
+    const tolerance = cfg.facingToleranceDeg * Math.PI / 180;
+    players.forEach((p, i) => {
+      const start = startPositions[i];
+      const maxTurn = this.turnRate(p) * stepSec;
+      if (this.windup?.player === p) {
+        p.position.x = start.x; p.position.y = start.y;
+        p.facing = this.turnTowards(p.facing ?? this.windup.angle, this.windup.angle, maxTurn);
+        p.mode = angleBetween(p.facing, this.windup.angle) > tolerance ? 'turn' : 'kick';
+        return;
+      }
+      const dx = p.position.x - start.x; const dy = p.position.y - start.y;
+      const moving = Math.hypot(dx, dy) > 0.01;
+      const heading = Math.atan2(dy, dx);
+      const look = p.role === 'goalkeeper' || !moving ? Math.atan2(ball.y - p.position.y, ball.x - p.position.x) : heading;
+      p.facing = this.turnTowards(p.facing ?? look, look, maxTurn);
+      if (!moving) { p.mode = 'idle'; return; }
+      const off = angleBetween(p.facing, heading);
+      if (p.role !== 'goalkeeper') {
+        const floor = cfg.offFacingPace;
+        const pace = off >= Math.PI / 2 ? floor : floor + (1 - floor) * Math.cos(off);
+        p.position.x = start.x + dx * pace; p.position.y = start.y + dy * pace;
+      }
+      const speed = Math.hypot(p.position.x - start.x, p.position.y - start.y) / (stepSec || 1);
+      p.mode = speed > cfg.dashShare * environment.gameSettings.speed.playerBase ? 'dash' : off > tolerance ? 'turn' : 'idle';
+    });
+  }
+
+  /** Radians per second; agility 50 turns at turnRateDeg, agility 100 40% faster */
+  private turnRate(p: Player): number {
+    return environment.gameSettings.movement.turnRateDeg * Math.PI / 180 * (0.6 + (p.abilities?.agility ?? 50) / 125);
+  }
+
+  private turnTowards(from: number, to: number, maxTurn: number): number {
+    const diff = Math.atan2(Math.sin(to - from), Math.cos(to - from));
+    const turned = from + Math.max(-maxTurn, Math.min(maxTurn, diff));
+    return Math.atan2(Math.sin(turned), Math.cos(turned));
+  }
+
+  // ---------- Stamina ----------
+  /**
+   * Drain from the distance each player covered since the last decision (sprinting costs
+   * disproportionately more), plus pressing and dribbling effort; players who are walking or
+   * holding shape recover. Rates are per match minute, so they do not depend on match duration.
+   */
+  private updateStamina(players: Player[], startPositions: { x: number; y: number }[], baseSpeed: number,
+                        elapsedMs: number, pressers: Player[], ballOwner: Player | null): void {
+    const cfg = environment.gameSettings.stamina;
+    const matchMinutes = Math.min(250, elapsedMs) * 90 / (this.gameDuration * 1000);
+    const heat = this.weather === 'heat' ? cfg.heatMultiplier : 1;
+    players.forEach((p, i) => {
+      const a = p.abilities;
+      if (!a) return;
+      const moved = Math.hypot(p.position.x - startPositions[i].x, p.position.y - startPositions[i].y);
+      const effort = Math.min(1.5, moved / (baseSpeed * 0.7 || 1));
+      const pressing = pressers.includes(p);
+      const dribbling = p === ballOwner;
+      let drain = cfg.sprintDrain * effort * effort + (pressing ? cfg.pressDrain : 0) + (dribbling ? cfg.dribbleDrain : 0);
+      drain *= heat * (80 / Math.max(40, a.maxStamina)); // fitter players tire more slowly
+      if (p.role === 'goalkeeper') drain *= 0.25;        // shuffling along the line, rarely sprinting
+      const recovery = !pressing && !dribbling && effort < 0.5 ? cfg.recovery * (1 - effort / 0.5) : 0;
+      a.stamina = Math.max(0, Math.min(a.maxStamina, a.stamina + (recovery - drain) * matchMinutes));
+    });
+  }
+
+  /** Share of a player's physical output left: 1 when fresh, down to 0.7 when exhausted */
+  private fatigueFactor(p: Player): number {
+    const a = p.abilities;
+    if (!a || !a.maxStamina) return 1;
+    return 0.7 + 0.3 * Math.max(0, Math.min(1, a.stamina / a.maxStamina));
+  }
+
+  private effectiveAccuracy(p: Player): number {
+    const accuracy = p.role === 'goalkeeper' ? p.abilities?.distribution ?? p.abilities?.accuracy : p.abilities?.accuracy;
+    return (accuracy ?? 70) * this.fatigueFactor(p);
+  }
+
+  // ---------- Weather ----------
+  private looseBallFriction(): number {
+    return this.weather === 'rain'
+      ? environment.gameSettings.weatherEffects.rain.frictionFree
+      : environment.gameSettings.speed.frictionFree;
+  }
+
+  private passSpeedFactor(): number {
+    return this.weather === 'rain' ? environment.gameSettings.weatherEffects.rain.passSpeedMultiplier : 1;
+  }
+
+  /**
+   * In the rain a receiver can let the ball skid off their first touch (agile players less often).
+   * On a fumble the ball rolls on at half the pass speed and the receiver cannot retrieve it straight away.
+   */
+  private fumblesFirstTouch(pass: PendingPass, x: number, y: number): boolean {
+    if (this.weather !== 'rain') return false;
+    const receiver = pass.target;
+    const agility = receiver.abilities?.agility ?? 50;
+    if (this.rand() >= environment.gameSettings.weatherEffects.rain.firstTouchMiss * (1.5 - agility / 100)) return false;
+    const flightSec = Math.max(0.2, pass.duration / 1000);
+    const vx = (pass.endX - pass.startX) / flightSec * 0.5;
+    const vy = (pass.endY - pass.startY) / flightSec * 0.5;
+    this.pendingPass = null;
+    this.touchBlocked = { id: receiver.id, until: this.clock.now() + 600 };
+    this.emitEvent('pass', this.teamOfPlayer(receiver).name, receiver.name, `💧 ${receiver.name} can't control ${pass.passer.name}'s pass on the wet surface`, {
+      startX: pass.startX, startY: pass.startY, endX: x, endY: y, subtype: pass.type, result: 'miscontrolled', role: receiver.role
+    });
+    this.gameState$.next({ ...this.gameState$.value, ball: { x, y, vx, vy }, currentBallOwner: null });
+    return true;
+  }
+
+  /** Decide up front (seeded) whether and when the weather turns during the match */
+  private scheduleWeatherShift(duration: number): void {
+    const roll = this.rand();
+    const at = Math.round(duration * (0.2 + this.rand() * 0.6));
+    this.weatherShiftAt = roll < environment.gameSettings.weatherEffects.shiftChance ? Math.max(1, at) : null;
+  }
+
+  private shiftWeather(): void {
+    const options = (['clear', 'rain', 'heat'] as Weather[]).filter(w => w !== this.weather);
+    const next = options[Math.floor(this.rand() * options.length)];
+    this.weatherShiftAt = null;
+    this.weather = next;
+    this.gameState$.next({ ...this.gameState$.value, weather: next });
+    const description = next === 'rain'
+      ? '🌧️ The heavens open – the pitch is getting slick.'
+      : next === 'heat'
+        ? '☀️ The clouds clear and the heat is rising.'
+        : '🌤️ The weather settles down.';
+    this.emitEvent('weather_shift', 'neutral', 'Weather', description, { subtype: next });
+  }
+
+  /** Flip formation anchors for the second half; players walk to them during the break */
+  private mirrorSides(): void {
+    [...(this.team1?.players || []), ...(this.team2?.players || [])].forEach(p => {
+      if (p.basePosition) p.basePosition.x = this.W - p.basePosition.x;
+    });
+  }
+
+  /** +1 when the player's team attacks the right-hand goal (team1 in the first half), -1 otherwise */
+  private attackDir(p: Player): 1 | -1 {
+    return this.isTeam1(p) !== this.halfSwitched ? 1 : -1;
+  }
+
+  /** Looked up from the kickoff squads, so it still holds for players who were sent off or substituted */
+  private isTeam1(p: Player): boolean { return this.sides.get(p) === 'team1'; }
+  private teamOfPlayer(p: Player): Team { return this.isTeam1(p) ? this.team1! : this.team2!; }
+}
+
+/** Deep-enough copy of a team so a simulation can move players without touching the caller's objects */
+export function cloneTeam(team: Team): Team {
+  return {
+    ...team,
+    players: team.players.map((player) => ({
+      ...player,
+      position: { ...player.position },
+      basePosition: player.basePosition ? { ...player.basePosition } : undefined,
+      abilities: player.abilities ? { ...player.abilities } : undefined,
+    })),
+    bench: team.bench?.map((player) => ({
+      ...player,
+      position: { ...player.position },
+      abilities: player.abilities ? { ...player.abilities } : undefined,
+    })),
+  };
+}
@@ -0,0 +1,56 @@
+import { GameEvent } from '../services/team.service';
+import { GameState } from './match-engine';
+import { MatchExport, TeamSheet, eventsCsv, toCsv, toStatsBombEvents } from './match-export';
+import { PITCH } from './pitch';
+
+describe('toCsv', () => {
+  it('quotes cells holding commas, quotes or line breaks and doubles the quotes', () => {
+    const csv = toCsv([{ name: 'Goal Digger', note: 'left foot, low', quote: 'the "wall"', lines: 'a\nb', none: null }]);
+    expect(csv).toBe('name,note,quote,lines,none\nGoal Digger,"left foot, low","the ""wall""","a\nb",\n');
+  });
+
+  it('writes objects as JSON and keeps the requested column order', () => {
+    expect(toCsv([{ a: 1, b: { x: 2 } }], ['b', 'a'])).toBe('b,a\n"{""x"":2}",1\n');
+  });
+
+  it('writes an events header even for an empty log', () => {
+    expect(eventsCsv([]).startsWith('time,displayTime,realMinute,period,type,subtype,result,team,player')).toBeTrue();
+  });
+});
+
+describe('toStatsBombEvents', () => {
+  const sheet = (id: string, name: string): TeamSheet =>
+    ({ id, name, color: '#FF6B6B', players: [{ id: `${id}_9`, name: `${name} 9`, role: 'forward', starter: true }] });
+  const teams: [TeamSheet, TeamSheet] = [sheet('t1', 'Reds'), sheet('t2', 'Blues')];
+  let time = 0;
+  const event = (type: GameEvent['type'], team: string, extra: Partial<GameEvent> = {}): GameEvent =>
+    ({ time: time++, type, team, player: `${team} 9`, description: '', period: 1, realMinute: 10, ...extra });
+  const pass = (team: string, period: number) =>
+    event('pass', team, { period, result: 'attempt', startX: 20, startY: 10, endX: 30, endY: 12 });
+  const exportOf = (events: GameEvent[]): MatchExport =>
+    ({ version: 1, seed: 42, duration: 45, teams, finalState: {} as GameState, events, playerStats: [] });
+
+  it('flips locations so the acting team always attacks towards x = PITCH.length', () => {
+    const out = toStatsBombEvents(exportOf([
+      pass('Reds', 1),
+      pass('Blues', 1),
+      event('momentum', 'neutral', { player: 'Referee', subtype: 'halftime', result: 'whistle' }),
+      pass('Reds', 2),
+      pass('Blues', 2),
+    ]));
+    const flipped: [number, number] = [PITCH.length - 20, PITCH.width - 10];
+    expect(out.map(e => e.location)).toEqual([[20, 10], flipped, flipped, [20, 10]]);
+    expect(out[1].pass!.end_location).toEqual([PITCH.length - 30, PITCH.width - 12]);
+  });
+
+  it('exports a shot with its outcome, xG and flipped end location', () => {
+    const [shot] = toStatsBombEvents(exportOf([
+      event('shot', 'Blues', { subtype: 'shot_attempt', result: 'attempt', xg: 0.25, startX: 14, startY: 30, endX: 0, endY: 35 }),
+      event('goal', 'Blues'),
+    ]));
+    expect(shot.type.name).toBe('Shot');
+    expect(shot.location).toEqual([PITCH.length - 14, PITCH.width - 30]);
+    expect(shot.shot).toEqual({ end_location: [PITCH.length, PITCH.width - 35], statsbomb_xg: 0.25, outcome: { name: 'Goal' }, type: { name: 'Open Play' }, body_part: undefined });
+    expect(shot.player).toEqual({ id: 't2_9', name: 'Blues 9' });
+  });
+});
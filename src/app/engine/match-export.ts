@@ -0,0 +1,331 @@
+import { Team, Player, PlayerAbilities, GameEvent } from '../services/team.service';
+import { GameState } from './match-engine';
+import { MatchRecording, RecordedTeam, stateAtFrame } from './match-recorder';
+import { shotOutcomes, ShotOutcome } from './match-analytics';
+import { PITCH } from './pitch';
+
+// ----- Match data export -----
+// One MatchExport (JSON) carries everything; the CSV writers flatten its parts and
+// toStatsBombEvents maps the event log onto StatsBomb-style open event objects.
+
+export interface SheetPlayer {
+  id: string;
+  name: string;
+  role: Player['role'];
+  starter: boolean;
+  abilities?: PlayerAbilities; // absent when exported from a match file
+}
+
+export interface TeamSheet {
+  id: string;
+  name: string;
+  color: string;
+  formation?: string;
+  players: SheetPlayer[];
+}
+
+export interface PlayerMatchStats {
+  team: string;
+  player: string;
+  role: string;
+  minutes: number;
+  goals: number;
+  shots: number;
+  onTarget: number;
+  xg: number;
+  passes: number;           // attempted
+  passesCompleted: number;
+  interceptions: number;
+  tackles: number;
+  fouls: number;            // committed
+  yellow: number;
+  red: number;
+}
+
+export interface MatchExport {
+  version: 1;
+  seed: number | null;
+  duration: number;         // simulated seconds of regulation time
+  teams: [TeamSheet, TeamSheet];
+  finalState: GameState;
+  events: GameEvent[];
+  playerStats: PlayerMatchStats[];
+}
+
+/** Team objects (live or headless) or the rosters of a match file */
+type SourceTeam = Team | RecordedTeam;
+
+/** Build the export from teams and the final state of a finished (or stopped) match */
+export function buildMatchExport(team1: SourceTeam, team2: SourceTeam, finalState: GameState, duration: number): MatchExport {
+  const teams: [TeamSheet, TeamSheet] = [
+    teamSheet(team1, finalState.tactics?.team1.formation),
+    teamSheet(team2, finalState.tactics?.team2.formation),
+  ];
+  return {
+    version: 1,
+    seed: finalState.seed ?? null,
+    duration,
+    teams,
+    finalState: { ...finalState, events: [] }, // events are listed once, below
+    events: finalState.events,
+    playerStats: playerStats(finalState.events, teams),
+  };
+}
+
+/**
+ * Export for a recorded match. Pass the Team objects to include abilities in the team sheets;
+ * older match files without a final state get one rebuilt from the last frame.
+ */
+export function exportRecording(recording: MatchRecording, teams?: [Team, Team]): MatchExport {
+  const state = recording.finalState ?? stateAtFrame(recording, recording.frames.length - 1);
+  const [team1, team2] = teams && teams[0].id === recording.teams[0].id && teams[1].id === recording.teams[1].id
+    ? teams : recording.teams;
+  return buildMatchExport(team1, team2, { ...state, events: recording.events }, recording.duration);
+}
+
+function teamSheet(team: SourceTeam, formation?: string): TeamSheet {
+  // A match file lists the starters first, then the bench; a Team keeps them apart
+  const starters = (team as RecordedTeam).starters ?? team.players.length;
+  const players: SheetPlayer[] = [
+    ...team.players.map((p, i) => sheetPlayer(p, i < starters)),
+    ...((team as Team).bench ?? []).map(p => sheetPlayer(p, false)),
+  ];
+  return { id: team.id, name: team.name, color: team.color, formation, players };
+}
+
+function sheetPlayer(p: Pick<Player, 'id' | 'name' | 'role' | 'abilities'>, starter: boolean): SheetPlayer {
+  return { id: p.id, name: p.name, role: p.role, starter, abilities: p.abilities ? { ...p.abilities } : undefined };
+}
+
+// ---------- Per-player stats ----------
+/**
+ * Player lines from the event log. Minutes run from kickoff (or coming on) to full time
+ * (or going off: substitution, red card, injury with no changes left).
+ */
+export function playerStats(events: GameEvent[], teams: [TeamSheet, TeamSheet]): PlayerMatchStats[] {
+  const played = events.filter(e => e.period !== 4);
+  const fullTime = Math.max(90, ...played.map(e => e.realMinute ?? 0));
+  const outcomes = shotOutcomes(events, teams[0].name, teams[1].name);
+  const lines = new Map<string, PlayerMatchStats & { on: number | null; off: number | null }>();
+  teams.forEach(t => t.players.forEach(p => lines.set(`${t.name}|${p.name}`, {
+    team: t.name, player: p.name, role: p.role, minutes: 0, goals: 0, shots: 0, onTarget: 0, xg: 0,
+    passes: 0, passesCompleted: 0, interceptions: 0, tackles: 0, fouls: 0, yellow: 0, red: 0,
+    on: p.starter ? 0 : null, off: null,
+  })));
+  const line = (team: string, player: string | undefined) => player ? lines.get(`${team}|${player}`) : undefined;
+
+  played.forEach(e => {
+    const l = line(e.team, e.player);
+    const minute = e.realMinute ?? 0;
+    if (e.type === 'substitution') {
+      if (l) l.on = minute;
+      const off = line(e.team, e.playerOff);
+      if (off) off.off = minute;
+      return;
+    }
+    if (!l) return;
+    const outcome = outcomes.get(e);
+    if (outcome) {
+      l.shots++;
+      l.xg += e.xg ?? 0;
+      if (outcome === 'goal' || outcome === 'saved') l.onTarget++;
+    } else if (e.type === 'goal') l.goals++;
+    else if (e.type === 'pass' && (e.result === 'attempt' || e.result === 'intercepted')) l.passes++;
+    else if (e.type === 'pass' && e.result === 'complete') return; // the completion names the receiver
+    else if (e.type === 'interception') l.interceptions++;
+    else if (e.type === 'tackle') l.tackles++;
+    else if (e.type === 'foul') l.fouls++;
+    else if (e.type === 'yellow_card') l.yellow++;
+    else if (e.type === 'red_card') { l.red++; l.off = minute; }
+    else if (e.type === 'injury' && e.result === 'withdrawn') l.off = minute;
+  });
+
+  // Completed passes are credited to the passer: the completion shares the attempt's start spot
+  const attempts = new Map<string, string>();
+  played.filter(e => e.type === 'pass').forEach(e => {
+    const key = `${e.team}|${e.startX},${e.startY}`;
+    if (e.result === 'attempt') attempts.set(key, e.player);
+    else if (e.result === 'complete' && attempts.has(key)) {
+      const passer = line(e.team, attempts.get(key));
+      if (passer) passer.passesCompleted++;
+      attempts.delete(key);
+    }
+  });
+
+  return [...lines.values()].map(({ on, off, ...stats }) => ({
+    ...stats,
+    xg: Math.round(stats.xg * 100) / 100,
+    minutes: on == null ? 0 : Math.max(0, (off ?? fullTime) - on),
+  }));
+}
+
+// ---------- CSV ----------
+function csvCell(value: unknown): string {
+  if (value == null) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Rows as CSV with a header line; columns default to the keys of the first row */
+export function toCsv<T extends object>(rows: T[], columns?: (keyof T)[]): string {
+  const cols = columns ?? (rows.length ? Object.keys(rows[0]) as (keyof T)[] : []);
+  return [cols.join(','), ...rows.map(r => cols.map(c => csvCell(r[c])).join(','))].join('\n') + '\n';
+}
+
+const EVENT_COLUMNS: (keyof GameEvent)[] = [
+  'time', 'displayTime', 'realMinute', 'period', 'type', 'subtype', 'result', 'team', 'player', 'role', 'playerOff',
+  'startX', 'startY', 'endX', 'endY', 'zoneStart', 'zoneEnd', 'xg', 'shotType', 'shotDistance', 'shotAngle', 'pressure',
+  'keeperOffset', 'facingError', 'momentumIndex', 'description',
+];
+
+export function eventsCsv(events: GameEvent[]): string {
+  return toCsv(events, EVENT_COLUMNS);
+}
+
+export function playerStatsCsv(stats: PlayerMatchStats[]): string {
+  return toCsv(stats);
+}
+
+export function teamSheetsCsv(teams: TeamSheet[]): string {
+  const rows = teams.flatMap(t => t.players.map(p => ({
+    team: t.name, teamId: t.id, formation: t.formation ?? '', playerId: p.id, name: p.name, role: p.role, starter: p.starter,
+    passPower: p.abilities?.passPower, shotPower: p.abilities?.shotPower, accuracy: p.abilities?.accuracy,
+    maxStamina: p.abilities?.maxStamina, speedFactor: p.abilities?.speedFactor, agility: p.abilities?.agility,
+    reflexes: p.abilities?.reflexes, handling: p.abilities?.handling, distribution: p.abilities?.distribution,
+  })));
+  return toCsv(rows);
+}
+
+// ---------- StatsBomb-style events ----------
+export interface OpenEvent {
+  id: string;
+  index: number;
+  period: number;
+  timestamp: string;        // period-relative, HH:MM:SS.mmm
+  minute: number;
+  second: number;
+  type: { id: number; name: string };
+  team: { id: string; name: string };
+  player?: { id: string; name: string };
+  position?: { name: string };
+  location?: [number, number];
+  pass?: { end_location: [number, number]; recipient?: { id: string; name: string }; outcome?: { name: string }; type?: { name: string } };
+  shot?: { end_location: [number, number]; statsbomb_xg: number; outcome: { name: string }; type: { name: string }; body_part?: { name: string } };
+  goalkeeper?: { type: { name: string } };
+  duel?: { type: { name: string }; outcome: { name: string } };
+  bad_behaviour?: { card: { name: string } };
+  substitution?: { replacement: { id: string; name: string } };
+  tactics?: { formation: string };
+}
+
+const TYPES: Record<string, [number, string]> = {
+  pass: [30, 'Pass'], receipt: [42, 'Ball Receipt*'], miscontrol: [38, 'Miscontrol'], shot: [16, 'Shot'],
+  keeper: [23, 'Goal Keeper'], interception: [10, 'Interception'], tackle: [4, 'Duel'], clearance: [9, 'Clearance'],
+  foul: [22, 'Foul Committed'], card: [24, 'Bad Behaviour'], offside: [8, 'Offside'], substitution: [19, 'Substitution'],
+  injury: [40, 'Injury Stoppage'], formation: [36, 'Tactical Shift'],
+};
+
+const SHOT_OUTCOMES: Record<ShotOutcome, string> = { goal: 'Goal', saved: 'Saved', blocked: 'Blocked', off_target: 'Off T' };
+const POSITIONS: Record<string, string> = { goalkeeper: 'Goalkeeper', defender: 'Center Back', midfielder: 'Center Midfield', forward: 'Center Forward' };
+
+/**
+ * The event log as StatsBomb-style open event objects. Locations are pitch metres
+ * (PITCH.length × PITCH.width, origin top-left) with the acting team attacking towards
+ * x = PITCH.length, as in StatsBomb data. Restarts and commentary-only events are left out.
+ */
+export function toStatsBombEvents(data: MatchExport): OpenEvent[] {
+  const { length: L, width: Wd } = PITCH;
+  const [t1, t2] = data.teams;
+  const teamOf = (name: string) => name === t1.name ? t1 : name === t2.name ? t2 : null;
+  const playerOf = (team: TeamSheet, name?: string) => team.players.find(p => p.name === name);
+  const ref = (p?: SheetPlayer) => p ? { id: p.id, name: p.name } : undefined;
+  const halftimeIndex = data.events.findIndex(e => e.subtype === 'halftime');
+  const outcomes = shotOutcomes(data.events, t1.name, t2.name);
+  const secondsPerMinute = data.duration > 0 ? data.duration / 90 : 1; // simulated seconds per match minute
+  const periodStart: Record<number, number> = { 1: 0, 2: 45, 3: 90 };
+
+  const out: OpenEvent[] = [];
+  const passAt = new Map<string, OpenEvent>(); // open passes by team and start spot, waiting for a recipient
+  data.events.forEach((e, i) => {
+    const team = teamOf(e.team);
+    if (!team || e.period === 4) return;
+    // team1 attacks right in the first half; flip so the acting team always attacks +x
+    const attacksRight = (team === t1) !== (halftimeIndex >= 0 && i > halftimeIndex);
+    const loc = (x?: number, y?: number): [number, number] | undefined => {
+      if (x == null || y == null) return undefined;
+      const mx = attacksRight ? x : L - x;
+      const my = attacksRight ? y : Wd - y;
+      return [Math.round(mx * 10) / 10, Math.round(my * 10) / 10];
+    };
+    const player = playerOf(team, e.player);
+    const second = Math.floor((e.time / secondsPerMinute * 60) % 60);
+    const elapsed = Math.max(0, (e.realMinute ?? 0) - (periodStart[e.period ?? 1] ?? 0)) * 60 + second;
+    const base = (kind: keyof typeof TYPES): OpenEvent => ({
+      id: `${data.seed ?? 'match'}-${i}`,
+      index: out.length + 1,
+      period: e.period ?? 1,
+      timestamp: timestamp(elapsed),
+      minute: e.realMinute ?? 0,
+      second,
+      type: { id: TYPES[kind][0], name: TYPES[kind][1] },
+      team: { id: team.id, name: team.name },
+      player: ref(player),
+      position: player ? { name: POSITIONS[e.role ?? player.role] ?? 'Unknown' } : undefined,
+      location: loc(e.startX, e.startY),
+    });
+
+    const outcome = outcomes.get(e);
+    if (outcome) {
+      out.push({ ...base('shot'), shot: {
+        end_location: loc(e.endX, e.endY) ?? [L, Wd / 2], statsbomb_xg: e.xg ?? 0,
+        outcome: { name: SHOT_OUTCOMES[outcome] },
+        type: { name: e.shotType === 'penalty' ? 'Penalty' : e.shotType === 'free_kick' || e.subtype === 'direct_free_kick' ? 'Free Kick' : 'Open Play' },
+        body_part: e.shotType === 'header' ? { name: 'Head' } : undefined,
+      } });
+    } else if (e.type === 'pass' && (e.result === 'attempt' || e.result === 'intercepted')) {
+      const ev: OpenEvent = { ...base('pass'), pass: {
+        end_location: loc(e.endX, e.endY) ?? [0, 0],
+        outcome: e.result === 'intercepted' ? { name: 'Incomplete' } : undefined,
+        type: e.subtype ? { name: e.subtype } : undefined,
+      } };
+      out.push(ev);
+      if (e.result === 'attempt') passAt.set(`${team.name}|${e.startX},${e.startY}`, ev);
+    } else if (e.type === 'pass' && e.result === 'complete') {
+      const pass = passAt.get(`${team.name}|${e.startX},${e.startY}`);
+      if (pass?.pass) pass.pass.recipient = ref(player);
+      passAt.delete(`${team.name}|${e.startX},${e.startY}`);
+      out.push({ ...base('receipt'), location: loc(e.endX, e.endY) });
+    } else if (e.type === 'pass' && e.result === 'miscontrolled') {
+      out.push({ ...base('miscontrol'), location: loc(e.endX, e.endY) });
+    } else if (e.type === 'save') {
+      out.push({ ...base('keeper'), goalkeeper: { type: { name: e.subtype === 'goalkeeper_save' ? 'Shot Saved' : 'Collected' } } });
+    } else if (e.type === 'interception') {
+      out.push(base('interception'));
+    } else if (e.type === 'tackle') {
+      out.push({ ...base('tackle'), duel: { type: { name: 'Tackle' }, outcome: { name: 'Won' } } });
+    } else if (e.type === 'clearance') {
+      out.push(base('clearance'));
+    } else if (e.type === 'foul') {
+      out.push(base('foul'));
+    } else if (e.type === 'yellow_card' || e.type === 'red_card') {
+      const card = e.type === 'yellow_card' ? 'Yellow Card' : e.subtype === 'second_yellow' ? 'Second Yellow' : 'Red Card';
+      out.push({ ...base('card'), bad_behaviour: { card: { name: card } } });
+    } else if (e.type === 'offside') {
+      out.push(base('offside'));
+    } else if (e.type === 'substitution') {
+      const off = playerOf(team, e.playerOff);
+      out.push({ ...base('substitution'), player: ref(off), substitution: { replacement: ref(player)! } });
+    } else if (e.type === 'injury') {
+      out.push(base('injury'));
+    } else if (e.type === 'formation_change') {
+      out.push({ ...base('formation'), player: undefined, position: undefined, tactics: { formation: e.subtype ?? '' } });
+    }
+  });
+  return out;
+}
+
+function timestamp(seconds: number): string {
+  const ms = Math.round(seconds * 1000);
+  const pad = (n: number, w = 2) => String(n).padStart(w, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}.${pad(ms % 1000, 3)}`;
+}
@@ -0,0 +1,247 @@
+import { Team, Player, GameEvent } from '../services/team.service';
+import { GameState, ShootoutState, PenaltyOutcome, Weather } from './match-engine';
+import { CardCounts, cardCounts } from './match-stats';
+import { PITCH } from './pitch';
+
+// Append new phases at the end so older recordings keep their indices
+const PHASES: GameState['phase'][] = ['pregame', 'kickoff', 'inplay', 'finished', 'penalties', 'halftime'];
+
+/** One captured simulation tick. Positions (pitch metres) are flattened and rounded to keep files small. */
+export interface ReplayFrame {
+  t: number;                // simulated ms since recording started
+  clock: number;            // timeRemaining (seconds)
+  label?: string;           // match clock label (23', 45+2', HT); absent in older recordings
+  score: [number, number];
+  phase: number;            // index into PHASES
+  ball: [number, number] | [number, number, number]; // x, y and height (m) while in the air
+  owner: number;            // index into team1 players, team2 players offset by team1 length; -1 when loose
+  p1: number[];             // team1 positions [x0, y0, x1, y1, ...]
+  p2: number[];             // team2 positions
+}
+
+export interface RecordedTeam {
+  id: string;
+  name: string;
+  color: string;
+  players: Pick<Player, 'id' | 'name' | 'role'>[];
+  starters?: number;        // players[0..starters) started the match, the rest were on the bench
+}
+
+/** Self-contained match file: enough to redraw every tick without re-running the engine */
+export interface MatchRecording {
+  version: 2;               // 1 = positions in 900 × 600 field units, 2 = pitch metres
+  seed: number | null;
+  duration: number;
+  tickMs: number;
+  weather?: Weather;        // conditions at kickoff (later changes are weather_shift events)
+  teams: [RecordedTeam, RecordedTeam];
+  frames: ReplayFrame[];
+  events: GameEvent[];
+  eventFrames: number[];    // eventFrames[i] = frame at which events[i] happened
+  cards?: CardCounts;       // final card tally (also derivable from the events)
+  finalState?: GameState;   // state at the end of the match, events left out (they are listed above)
+}
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+/**
+ * Captures ball/player positions and events once per engine tick.
+ * Call capture() after every step(); finish() returns the recording.
+ * Players are indexed by the kickoff line-ups followed by the benches, so sent-off and
+ * substituted players keep their slot (and their events still match a roster entry).
+ */
+export class MatchRecorder {
+  private frames: ReplayFrame[] = [];
+  private eventFrames: number[] = [];
+  private weather: Weather | undefined;
+  private readonly lineup1: Player[];
+  private readonly lineup2: Player[];
+
+  constructor(
+    private readonly team1: Team,
+    private readonly team2: Team,
+    private readonly duration: number,
+    private readonly tickMs: number,
+    private readonly startMs: number
+  ) {
+    this.lineup1 = [...team1.players, ...(team1.bench ?? [])];
+    this.lineup2 = [...team2.players, ...(team2.bench ?? [])];
+  }
+
+  capture(state: GameState, nowMs: number): void {
+    const frameIndex = this.frames.length;
+    const owner = this.ownerIndex(state.currentBallOwner);
+    if (frameIndex === 0) this.weather = state.weather;
+    this.frames.push({
+      t: Math.round(nowMs - this.startMs),
+      clock: state.timeRemaining,
+      label: state.clockLabel,
+      score: [state.score.team1, state.score.team2],
+      phase: Math.max(0, PHASES.indexOf(state.phase)),
+      ball: (state.ball.z ?? 0) > 0.05 ? [round2(state.ball.x), round2(state.ball.y), round2(state.ball.z!)] : [round2(state.ball.x), round2(state.ball.y)],
+      owner,
+      p1: this.flatten(this.lineup1),
+      p2: this.flatten(this.lineup2),
+    });
+    // Events emitted since the previous capture belong to this frame
+    while (this.eventFrames.length < state.events.length) {
+      this.eventFrames.push(frameIndex);
+    }
+  }
+
+  finish(finalState: GameState): MatchRecording {
+    return {
+      version: 2,
+      seed: finalState.seed ?? null,
+      duration: this.duration,
+      tickMs: this.tickMs,
+      weather: this.weather,
+      teams: [this.describeTeam(this.team1, this.lineup1), this.describeTeam(this.team2, this.lineup2)],
+      frames: this.frames,
+      events: finalState.events.slice(0, this.eventFrames.length),
+      eventFrames: [...this.eventFrames],
+      cards: finalState.cards,
+      finalState: { ...finalState, events: [] },
+    };
+  }
+
+  private ownerIndex(id: string | null): number {
+    if (!id) return -1;
+    const i1 = this.lineup1.findIndex(p => p.id === id);
+    if (i1 >= 0) return i1;
+    const i2 = this.lineup2.findIndex(p => p.id === id);
+    return i2 >= 0 ? this.lineup1.length + i2 : -1;
+  }
+
+  private flatten(players: Player[]): number[] {
+    const out: number[] = [];
+    players.forEach(p => out.push(round2(p.position.x), round2(p.position.y)));
+    return out;
+  }
+
+  private describeTeam(team: Team, lineup: Player[]): RecordedTeam {
+    return {
+      id: team.id,
+      name: team.name,
+      color: team.color,
+      players: lineup.map(p => ({ id: p.id, name: p.name, role: p.role })),
+      starters: lineup.length - (team.bench?.length ?? 0),
+    };
+  }
+}
+
+/**
+ * Bring an older match file up to date: version 1 recorded positions in 900 × 600 field units,
+ * which are scaled to pitch metres here (off-pitch markers stay negative).
+ */
+export function upgradeRecording(data: Omit<MatchRecording, 'version'> & { version: number }): MatchRecording {
+  if (data.version !== 1) return data as MatchRecording;
+  const sx = PITCH.length / 900;
+  const sy = PITCH.width / 600;
+  const scaleX = (v?: number) => v == null ? v : round2(v * sx);
+  const scaleY = (v?: number) => v == null ? v : round2(v * sy);
+  const scaleFlat = (flat: number[]) => flat.map((v, i) => v < 0 ? v : round2(v * (i % 2 ? sy : sx)));
+  return {
+    ...data,
+    version: 2,
+    frames: data.frames.map(f => ({ ...f, ball: [round2(f.ball[0] * sx), round2(f.ball[1] * sy)], p1: scaleFlat(f.p1), p2: scaleFlat(f.p2) })),
+    events: data.events.map(e => ({
+      ...e, startX: scaleX(e.startX), startY: scaleY(e.startY), endX: scaleX(e.endX), endY: scaleY(e.endY), pressure: scaleX(e.pressure),
+    })),
+    finalState: data.finalState && {
+      ...data.finalState, ball: { ...data.finalState.ball, x: data.finalState.ball.x * sx, y: data.finalState.ball.y * sy },
+    },
+  };
+}
+
+/** Match phase a frame was captured in */
+export function phaseOf(frame: ReplayFrame): GameState['phase'] {
+  return PHASES[frame.phase] ?? 'inplay';
+}
+
+/** Rebuild a GameState snapshot for frame i of a recording (replay rendering) */
+export function stateAtFrame(recording: MatchRecording, index: number, isRunning = false): GameState {
+  const frame = recording.frames[index];
+  const [team1, team2] = recording.teams;
+  let owner: string | null = null;
+  if (frame.owner >= 0) {
+    owner = frame.owner < team1.players.length
+      ? team1.players[frame.owner].id
+      : team2.players[frame.owner - team1.players.length]?.id ?? null;
+  }
+  let eventCount = 0;
+  while (eventCount < recording.eventFrames.length && recording.eventFrames[eventCount] <= index) eventCount++;
+  const events = recording.events.slice(0, eventCount);
+  return {
+    isRunning,
+    timeRemaining: frame.clock,
+    score: { team1: frame.score[0], team2: frame.score[1] },
+    ball: { x: frame.ball[0], y: frame.ball[1], vx: 0, vy: 0, z: frame.ball[2] },
+    events,
+    currentBallOwner: owner,
+    phase: phaseOf(frame),
+    seed: recording.seed ?? undefined,
+    clockLabel: frame.label,
+    half: events.some(e => e.subtype === 'halftime') ? 2 : 1,
+    extraTime: events.some(e => e.subtype === 'extra_time'),
+    shootout: shootoutFromEvents(recording, events),
+    cards: cardCounts(events, team1.name, team2.name),
+    weather: (events.filter(e => e.type === 'weather_shift').pop()?.subtype as Weather | undefined) ?? recording.weather,
+    possession: possessionAtFrame(recording, index),
+  };
+}
+
+// Cumulative possession per frame, built once per recording (replays ask for it every frame)
+const possessionTimelines = new WeakMap<MatchRecording, { team1: number; team2: number }[]>();
+
+/** In-play ms each side had been in control up to frame i, counted the way the engine counts it */
+function possessionAtFrame(recording: MatchRecording, index: number): { team1: number; team2: number } {
+  let timeline = possessionTimelines.get(recording);
+  if (!timeline) {
+    const team1Size = recording.teams[0].players.length;
+    const inplay = PHASES.indexOf('inplay');
+    let side: 'team1' | 'team2' | null = null;
+    let totals = { team1: 0, team2: 0 };
+    timeline = recording.frames.map((frame, i) => {
+      if (frame.phase === inplay) {
+        if (frame.owner >= 0) side = frame.owner < team1Size ? 'team1' : 'team2';
+        const dt = i > 0 ? frame.t - recording.frames[i - 1].t : 0;
+        if (side) totals = { ...totals, [side]: totals[side] + dt };
+      }
+      return totals;
+    });
+    possessionTimelines.set(recording, timeline);
+  }
+  return { ...timeline[index] };
+}
+
+/** Rebuild the shootout tally from the penalty events seen so far (null before a shootout starts) */
+function shootoutFromEvents(recording: MatchRecording, events: GameEvent[]): ShootoutState | null {
+  const start = events.find(e => e.subtype === 'shootout_start');
+  if (!start) return null;
+  const side = (teamName: string) => (teamName === recording.teams[0].name ? 'team1' : 'team2');
+  const shootout: ShootoutState = { team1: [], team2: [], firstKicker: side(start.team) };
+  events
+    .filter(e => e.subtype === 'penalty_shootout')
+    .forEach(e => shootout[side(e.team)].push(e.result as PenaltyOutcome));
+  return shootout;
+}
+
+/** Team objects positioned as in frame i (fresh objects, suitable for SoccerFieldComponent inputs) */
+export function teamsAtFrame(recording: MatchRecording, index: number, teams?: [Team, Team]): [Team, Team] {
+  const frame = recording.frames[index];
+  const build = (rt: RecordedTeam, flat: number[], existing?: Team): Team => {
+    const team: Team = existing ?? {
+      id: rt.id,
+      name: rt.name,
+      color: rt.color,
+      players: rt.players.map(p => ({ ...p, position: { x: 0, y: 0 } })),
+    };
+    team.players.forEach((p, i) => {
+      p.position.x = flat[i * 2] ?? p.position.x;
+      p.position.y = flat[i * 2 + 1] ?? p.position.y;
+    });
+    return team;
+  };
+  return [build(recording.teams[0], frame.p1, teams?.[0]), build(recording.teams[1], frame.p2, teams?.[1])];
+}
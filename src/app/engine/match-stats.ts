@@ -0,0 +1,127 @@
+import { GameEvent } from '../services/team.service';
+
+export interface TeamPeriodStats {
+  goals: number;
+  shots: number;
+  passes: number;     // completed passes
+  fouls: number;      // fouls committed
+  corners: number;
+}
+
+export interface PeriodStats {
+  period: number;     // GameEvent.period (1, 2, 3 = extra time)
+  label: string;
+  team1: TeamPeriodStats;
+  team2: TeamPeriodStats;
+}
+
+const PERIOD_LABELS: Record<number, string> = { 1: '1st half', 2: '2nd half', 3: 'Extra time' };
+
+const emptyStats = (): TeamPeriodStats => ({ goals: 0, shots: 0, passes: 0, fouls: 0, corners: 0 });
+
+/**
+ * Per-period team stats from the event log. Only periods that have started are returned,
+ * so the list grows from one row at kickoff to two (or three with extra time).
+ */
+export function statsByPeriod(events: GameEvent[], team1Name: string, team2Name: string): PeriodStats[] {
+  const periods = new Map<number, PeriodStats>();
+  events.forEach(e => {
+    const period = e.period ?? 1;
+    if (!PERIOD_LABELS[period]) return;
+    if (!periods.has(period)) {
+      periods.set(period, { period, label: PERIOD_LABELS[period], team1: emptyStats(), team2: emptyStats() });
+    }
+    const row = periods.get(period)!;
+    const side = e.team === team1Name ? row.team1 : e.team === team2Name ? row.team2 : null;
+    if (!side) return;
+    if (e.type === 'goal') side.goals++;
+    else if (e.type === 'shot' && e.subtype === 'shot_attempt') side.shots++;
+    else if (e.type === 'pass' && e.result === 'complete') side.passes++;
+    else if (e.type === 'foul') side.fouls++;
+    else if (e.type === 'corner') side.corners++;
+  });
+  return [...periods.values()].sort((a, b) => a.period - b.period);
+}
+
+export interface TeamCards {
+  yellow: number;
+  red: number;        // straight reds and second yellows
+}
+
+export interface CardCounts {
+  team1: TeamCards;
+  team2: TeamCards;
+}
+
+/** Cards shown to each team so far (a second yellow counts as a yellow and a red) */
+export function cardCounts(events: GameEvent[], team1Name: string, team2Name: string): CardCounts {
+  const counts: CardCounts = { team1: { yellow: 0, red: 0 }, team2: { yellow: 0, red: 0 } };
+  events.forEach(e => {
+    const side = e.team === team1Name ? counts.team1 : e.team === team2Name ? counts.team2 : null;
+    if (!side) return;
+    if (e.type === 'yellow_card') side.yellow++;
+    else if (e.type === 'red_card') side.red++;
+  });
+  return counts;
+}
+
+export interface TeamMatchStats {
+  possession: number;       // share of in-play time in control of the ball (%)
+  shots: number;            // attempts, including free kicks blocked by the wall
+  onTarget: number;         // goals plus goalkeeper saves
+  xg: number;               // summed expected goals of the attempts
+  passes: number;           // passes attempted
+  passesCompleted: number;
+  interceptions: number;    // opponents' passes cut out
+  corners: number;
+  fouls: number;            // fouls committed
+  yellow: number;
+  red: number;
+}
+
+export interface MatchStats {
+  team1: TeamMatchStats;
+  team2: TeamMatchStats;
+}
+
+const emptyMatchStats = (): TeamMatchStats => ({
+  possession: 50, shots: 0, onTarget: 0, xg: 0, passes: 0, passesCompleted: 0,
+  interceptions: 0, corners: 0, fouls: 0, yellow: 0, red: 0,
+});
+
+/**
+ * Whole-match team stats from the event log (shootout kicks excluded) and the in-play
+ * possession split in GameState.possession. Possession is 50/50 until the ball is first played.
+ */
+export function matchStats(events: GameEvent[], team1Name: string, team2Name: string,
+                           possession?: { team1: number; team2: number }): MatchStats {
+  const stats: MatchStats = { team1: emptyMatchStats(), team2: emptyMatchStats() };
+  const sideOf = (team: string) => team === team1Name ? stats.team1 : team === team2Name ? stats.team2 : null;
+  const opponentOf = (team: string) => team === team1Name ? stats.team2 : team === team2Name ? stats.team1 : null;
+  events.forEach(e => {
+    if (e.period === 4) return;
+    const side = sideOf(e.team);
+    if (!side) return;
+    if (e.type === 'shot' && (e.subtype === 'shot_attempt' || e.result === 'blocked')) {
+      side.shots++;
+      side.xg += e.xg ?? 0;
+    } else if (e.type === 'goal') {
+      side.onTarget++;
+    } else if (e.type === 'save' && e.subtype === 'goalkeeper_save') {
+      opponentOf(e.team)!.onTarget++;
+    } else if (e.type === 'pass') {
+      if (e.result === 'attempt' || e.result === 'intercepted') side.passes++;
+      else if (e.result === 'complete') side.passesCompleted++;
+    } else if (e.type === 'interception') side.interceptions++;
+    else if (e.type === 'corner') side.corners++;
+    else if (e.type === 'foul') side.fouls++;
+    else if (e.type === 'yellow_card') side.yellow++;
+    else if (e.type === 'red_card') side.red++;
+  });
+  const total = (possession?.team1 ?? 0) + (possession?.team2 ?? 0);
+  if (possession && total > 0) {
+    stats.team1.possession = Math.round(possession.team1 / total * 100);
+    stats.team2.possession = 100 - stats.team1.possession;
+  }
+  return stats;
+}
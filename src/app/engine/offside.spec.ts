@@ -0,0 +1,37 @@
+import { environment } from '../../environments/environment';
+import { Player } from '../services/team.service';
+import { isOffsidePosition, offsideLineX, secondLastOpponentX } from './offside';
+import { PITCH } from './pitch';
+
+describe('offside', () => {
+  const at = (x: number, role: Player['role'] = 'defender'): Player =>
+    ({ id: `${role}_${x}`, name: `${role} ${x}`, role, position: { x, y: 34 } });
+  const tolerance = environment.gameSettings.offside.levelToleranceM;
+
+  it('counts the keeper as one of the last two opponents', () => {
+    expect(secondLastOpponentX([at(103, 'goalkeeper'), at(80), at(70)], 1)).toBe(80);
+    // A keeper who has come out leaves two outfield players as the last two
+    expect(secondLastOpponentX([at(60, 'goalkeeper'), at(95), at(88)], 1)).toBe(88);
+    expect(secondLastOpponentX([at(2, 'goalkeeper'), at(25), at(30)], -1)).toBe(25);
+  });
+
+  it('uses the goal line when fewer than two opponents are on the pitch', () => {
+    expect(secondLastOpponentX([at(103, 'goalkeeper'), at(-50)], 1)).toBe(PITCH.length);
+    expect(secondLastOpponentX([at(2, 'goalkeeper')], -1)).toBe(0);
+  });
+
+  it('moves the line to the ball when it is nearer the goal, and never into the attackers\' half', () => {
+    const defence = [at(103, 'goalkeeper'), at(70), at(65)];
+    expect(offsideLineX(defence, 1, 60)).toBe(70);
+    expect(offsideLineX(defence, 1, 85)).toBe(85);
+    expect(offsideLineX([at(103, 'goalkeeper'), at(40)], 1, 30)).toBe(PITCH.length / 2);
+  });
+
+  it('treats a player level with the line as onside', () => {
+    expect(isOffsidePosition(80, 80, 1)).toBeFalse();
+    expect(isOffsidePosition(80 + tolerance / 2, 80, 1)).toBeFalse();
+    expect(isOffsidePosition(80 + tolerance + 0.1, 80, 1)).toBeTrue();
+    expect(isOffsidePosition(25 - tolerance - 0.1, 25, -1)).toBeTrue();
+    expect(isOffsidePosition(26, 25, -1)).toBeFalse();
+  });
+});
@@ -0,0 +1,29 @@
+import { environment } from '../../environments/environment';
+import { Player } from '../services/team.service';
+import { PITCH } from './pitch';
+
+// ----- Offside -----
+// Law 11 in pitch metres, shared by the engine (judging passes) and the canvas overlay. A side
+// attacking towards dir = 1 plays towards x = PITCH.length. Only the player a pass is meant for is
+// judged, so anyone else standing offside is passive and play goes on.
+
+/** x of the second-last opponent, the keeper included; their goal line when fewer than two are on the pitch */
+export function secondLastOpponentX(opponents: Player[], dir: 1 | -1): number {
+  const goalLine = dir === 1 ? PITCH.length : 0;
+  const depths = opponents.map(o => o.position.x).filter(x => x >= 0).sort((a, b) => (b - a) * dir); // nearest their goal first
+  return depths[1] ?? goalLine;
+}
+
+/**
+ * Offside line for the side attacking towards dir: the second-last opponent or the ball, whichever
+ * is nearer the goal line – and never inside the attackers' own half, where nobody can be offside.
+ */
+export function offsideLineX(opponents: Player[], dir: 1 | -1, ballX: number): number {
+  const candidates = [secondLastOpponentX(opponents, dir), ballX, PITCH.length / 2];
+  return dir === 1 ? Math.max(...candidates) : Math.min(...candidates);
+}
+
+/** Beyond the line by more than levelToleranceM; a player level with it is onside */
+export function isOffsidePosition(x: number, lineX: number, dir: 1 | -1): boolean {
+  return (x - lineX) * dir > environment.gameSettings.offside.levelToleranceM;
+}
@@ -0,0 +1,53 @@
+import { environment } from '../../environments/environment';
+
+// ----- Pitch geometry -----
+// The simulation runs in pitch metres and seconds: x runs along the touchline from the left goal
+// line (0) to the right one (PITCH.length), y across from the top touchline (0) to the bottom one
+// (PITCH.width). Events, recordings and exports share these units; PitchProjection is the only
+// place where metres become screen pixels, so the canvas size never changes the game.
+
+const gs = environment.gameSettings;
+
+/** Pitch dimensions and markings in metres */
+export const PITCH = {
+  length: gs.pitchLengthM,
+  width: gs.pitchWidthM,
+  goalWidth: gs.goalWidthM,
+  goalHeight: 2.44,
+  goalAreaDepth: gs.goalAreaDepthM,
+  goalAreaWidth: 18.32,
+  penaltyAreaDepth: gs.penaltyAreaDepthM,
+  penaltyAreaWidth: 40.32,
+  penaltySpot: gs.penaltySpotDistM,
+  circleRadius: gs.centerCircleRadiusM,
+  cornerArcRadius: 1,
+} as const;
+
+/**
+ * Maps pitch metres onto a canvas: one scale for both axes (the pitch keeps its proportions),
+ * centred inside a margin that leaves room for the goals.
+ */
+export class PitchProjection {
+  readonly scale: number;   // px per metre
+  readonly originX: number; // canvas px of the top-left corner flag
+  readonly originY: number;
+
+  constructor(readonly canvasWidth: number, readonly canvasHeight: number, margin = 10) {
+    this.scale = Math.min((canvasWidth - 2 * margin) / PITCH.length, (canvasHeight - 2 * margin) / PITCH.width);
+    this.originX = (canvasWidth - PITCH.length * this.scale) / 2;
+    this.originY = (canvasHeight - PITCH.width * this.scale) / 2;
+  }
+
+  x(metres: number): number {
+    return this.originX + metres * this.scale;
+  }
+
+  y(metres: number): number {
+    return this.originY + metres * this.scale;
+  }
+
+  /** A distance in metres as canvas px */
+  length(metres: number): number {
+    return metres * this.scale;
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Deterministic pseudo-random source (32-bit LCG, same constants the engine always used).
+ * Every random decision in team generation and match simulation goes through one of these,
+ * so a seed reproduces a match exactly.
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(readonly seed: number) {
+    this.state = (seed >>> 0) || 1;
+  }
+
+  /** Uniform float in [0, 1) */
+  next(): number {
+    this.state = (this.state * 1664525 + 1013904223) % 4294967296;
+    return this.state / 4294967296;
+  }
+
+  /** Uniform integer in [0, maxExclusive) */
+  int(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  /** Fisher–Yates shuffle returning a new array */
+  shuffle<T>(arr: T[]): T[] {
+    const a = [...arr];
+    for (let i = a.length - 1; i > 0; i--) {
+      const j = this.int(i + 1);
+      [a[i], a[j]] = [a[j], a[i]];
+    }
+    return a;
+  }
+
+  pick<T>(arr: T[]): T {
+    return arr[this.int(arr.length)];
+  }
+}
+
+/** Fresh seed for when none was configured (the only place Math.random is allowed) */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0x7fffffff) + 1;
+}
+
+/** Configured seed from environment.gameSettings.randomSeed, or a fresh one */
+export function resolveSeed(seed: number | null | undefined): number {
+  return seed != null && Number.isFinite(seed) ? Math.floor(seed) >>> 0 : createSeed();
+}
@@ -0,0 +1,27 @@
+/**
+ * Source of simulated time for the match engine.
+ * The engine never reads wall-clock time; it asks the clock and advances it one fixed tick at a time.
+ */
+export interface SimulationClock {
+  /** Current simulated time in milliseconds */
+  now(): number;
+  /** Move simulated time forward by ms */
+  advance(ms: number): void;
+}
+
+/** Default clock: starts at 0ms and only moves when the engine steps it */
+export class FixedStepClock implements SimulationClock {
+  private currentMs: number;
+
+  constructor(startMs = 0) {
+    this.currentMs = startMs;
+  }
+
+  now(): number {
+    return this.currentMs;
+  }
+
+  advance(ms: number): void {
+    this.currentMs += ms;
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Formation templates. lines = players in the back, middle and front line (goalkeeper excluded);
+ * defX/midX/fwdX = line depth from own goal (0 = own goal, 1 = opponent goal);
+ * defSpread/midSpread/fwdSpread = vertical spread of the line as a fraction of field height.
+ * Lines keep at least a 30% depth gap for clear visual separation.
+ */
+export interface Formation {
+  name: string;
+  lines: [number, number, number];
+  defX: number; midX: number; fwdX: number;
+  defSpread: number; midSpread: number; fwdSpread: number;
+}
+
+export const FORMATIONS: Formation[] = [
+  // 4-3-3: Balanced formation with strong midfield control
+  { name: '4-3-3', lines: [4, 3, 3], defX: 0.20, midX: 0.50, fwdX: 0.78, defSpread: 0.58, midSpread: 0.42, fwdSpread: 0.52 },
+  // 4-4-2: Classic structured formation
+  { name: '4-4-2', lines: [4, 4, 2], defX: 0.20, midX: 0.50, fwdX: 0.78, defSpread: 0.58, midSpread: 0.62, fwdSpread: 0.28 },
+  // 3-5-2: Midfield dominance with wing backs
+  { name: '3-5-2', lines: [3, 5, 2], defX: 0.18, midX: 0.50, fwdX: 0.78, defSpread: 0.42, midSpread: 0.68, fwdSpread: 0.28 },
+  // 4-2-3-1: Possession-based with playmaker (defensive mid deep, attacking mid high)
+  { name: '4-2-3-1', lines: [4, 5, 1], defX: 0.20, midX: 0.38, fwdX: 0.75, defSpread: 0.58, midSpread: 0.50, fwdSpread: 0.15 },
+  // 3-4-3: Attacking formation with width
+  { name: '3-4-3', lines: [3, 4, 3], defX: 0.18, midX: 0.48, fwdX: 0.78, defSpread: 0.42, midSpread: 0.60, fwdSpread: 0.55 },
+  // 5-3-2: Defensive/counter-attacking formation
+  { name: '5-3-2', lines: [5, 3, 2], defX: 0.20, midX: 0.50, fwdX: 0.78, defSpread: 0.65, midSpread: 0.42, fwdSpread: 0.28 },
+  // 4-1-4-1: Defensive with lone striker
+  { name: '4-1-4-1', lines: [4, 5, 1], defX: 0.20, midX: 0.50, fwdX: 0.80, defSpread: 0.58, midSpread: 0.60, fwdSpread: 0.10 },
+  // 3-4-2-1: Creative attacking with playmakers (the two tens play off the striker)
+  { name: '3-4-2-1', lines: [3, 4, 3], defX: 0.18, midX: 0.45, fwdX: 0.75, defSpread: 0.42, midSpread: 0.58, fwdSpread: 0.12 },
+  // 4-2-2-2: Direct attacking with twin strikers
+  { name: '4-2-2-2', lines: [4, 4, 2], defX: 0.20, midX: 0.42, fwdX: 0.75, defSpread: 0.58, midSpread: 0.48, fwdSpread: 0.30 },
+  // 4-5-1: Defensive with compact midfield
+  { name: '4-5-1', lines: [4, 5, 1], defX: 0.20, midX: 0.50, fwdX: 0.80, defSpread: 0.58, midSpread: 0.68, fwdSpread: 0.10 },
+];
+
+/** Team instructions; every slider runs 0-100 and 50 plays exactly like an untuned team */
+export interface TeamTactics {
+  formation?: string;  // FORMATIONS name; drawn from the match seed when absent
+  lineHeight: number;  // how high the back and middle lines sit
+  pressing: number;    // how many players close down the ball carrier
+  width: number;       // how far the shape and support runs stretch across the pitch
+  tempo: number;       // how quickly the ball is moved on and how far runners push
+}
+
+export const DEFAULT_TACTICS: TeamTactics = { lineHeight: 50, pressing: 50, width: 50, tempo: 50 };
+
+export function findFormation(name: string | undefined): Formation | undefined {
+  return FORMATIONS.find(f => f.name === name);
+}
+
+/** Slider value as a multiplier: 0 → 1 - range, 50 → 1, 100 → 1 + range */
+export function sliderFactor(value: number, range: number): number {
+  return 1 + ((Math.max(0, Math.min(100, value)) - 50) / 50) * range;
+}
@@ -0,0 +1,21 @@
+import { XG_REFERENCES, checkXgCalibration, expectedGoals } from './xg-model';
+
+describe('xG model calibration', () => {
+  XG_REFERENCES.forEach(ref => {
+    it(`scores "${ref.name}" within ${ref.range[0].toFixed(2)}–${ref.range[1].toFixed(2)}`, () => {
+      const xg = expectedGoals(ref.inputs);
+      expect(xg).toBeGreaterThanOrEqual(ref.range[0]);
+      expect(xg).toBeLessThanOrEqual(ref.range[1]);
+    });
+  });
+
+  it('reports no reference chance out of band', () => {
+    expect(checkXgCalibration().map(f => f.reference.name)).toEqual([]);
+  });
+
+  it('flags a reference whose band the model misses', () => {
+    const [penalty] = XG_REFERENCES;
+    const failures = checkXgCalibration([{ ...penalty, range: [0.9, 1] }]);
+    expect(failures.length).toBe(1);
+  });
+});
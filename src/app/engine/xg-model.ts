@@ -0,0 +1,101 @@
+import { environment } from '../../environments/environment';
+import { PITCH } from './pitch';
+
+// ----- Expected goals -----
+// A logistic model over the situation at the moment of the strike. Every input is recorded on the
+// shot event, so a match file can be re-scored or audited against the value the engine used.
+
+export type ShotType = 'open_play' | 'header' | 'free_kick' | 'penalty';
+
+/** What the model sees when a shot is taken (distances in metres, angles in radians) */
+export interface XgInputs {
+  shotType: ShotType;
+  distance: number;        // shooter to the centre of the goal mouth
+  angle: number;           // angle the goal mouth subtends at the shooter (0 on the goal line, ~π close in)
+  pressure: number;        // nearest outfield opponent; Infinity when nobody is near
+  keeperOffset: number | null; // keeper's distance from the shooter–goal line; null = nobody in goal
+  facingError: number;     // shooter's body orientation against the shot direction (0 = square on)
+}
+
+/** Conversion rate of a penalty; the spot-kick duel is decided elsewhere */
+export const PENALTY_XG = 0.76;
+
+// Log-odds terms; distanceScale, angleScale and pressureScale come from gameSettings.xgTuning
+const INTERCEPT = -1.8;
+const PRESSURE_WEIGHT = 0.9;   // log-odds lost with a defender touching the shooter
+const KEEPER_WEIGHT = 0.3;     // per metre the keeper is off the shot line (capped at 5 m)
+const EMPTY_NET = 2;
+const FACING_WEIGHT = 0.5;     // per radian the shooter has to turn the ball against their body
+const TYPE_OFFSET: Record<ShotType, number> = { open_play: 0, header: -0.9, free_kick: -0.6, penalty: 0 };
+
+/** Angle (radians) the goal mouth subtends from (x, y) when attacking the goal line at goalX */
+export function goalMouthAngle(x: number, y: number, goalX: number): number {
+  const half = PITCH.goalWidth / 2;
+  const cy = PITCH.width / 2;
+  const depth = Math.abs(goalX - x);
+  const a = Math.atan2(cy - half - y, depth);
+  const b = Math.atan2(cy + half - y, depth);
+  return Math.abs(b - a);
+}
+
+/** Smallest difference between two directions (radians, 0..π) */
+export function angleBetween(a: number, b: number): number {
+  const d = Math.abs(a - b) % (2 * Math.PI);
+  return d > Math.PI ? 2 * Math.PI - d : d;
+}
+
+export function expectedGoals(inputs: XgInputs): number {
+  if (inputs.shotType === 'penalty') return PENALTY_XG;
+  const tuning = environment.gameSettings.xgTuning;
+  const closeness = Number.isFinite(inputs.pressure) ? Math.max(0, 1 - inputs.pressure / tuning.pressureScale) : 0;
+  const keeper = inputs.keeperOffset == null ? EMPTY_NET : KEEPER_WEIGHT * Math.min(5, inputs.keeperOffset);
+  const logit = INTERCEPT
+    + tuning.angleScale * inputs.angle
+    - inputs.distance / tuning.distanceScale
+    - PRESSURE_WEIGHT * closeness
+    + keeper
+    - FACING_WEIGHT * inputs.facingError
+    + TYPE_OFFSET[inputs.shotType];
+  return Math.round(Math.min(0.97, Math.max(0.01, 1 / (1 + Math.exp(-logit)))) * 1000) / 1000;
+}
+
+/** A reference chance and the xG band it should fall into */
+export interface XgReference {
+  name: string;
+  inputs: XgInputs;
+  range: [number, number];
+}
+
+const centred = (distance: number, shotType: ShotType = 'open_play'): XgInputs => ({
+  shotType, distance, angle: goalMouthAngle(PITCH.length - distance, PITCH.width / 2, PITCH.length),
+  pressure: Infinity, keeperOffset: 0, facingError: 0,
+});
+
+/**
+ * Calibration set: bands follow public open-play conversion rates by location, so a retuned
+ * xgTuning that leaves any of them is out of line with real football.
+ */
+export const XG_REFERENCES: XgReference[] = [
+  { name: 'Penalty', inputs: centred(PITCH.penaltySpot, 'penalty'), range: [0.74, 0.80] },
+  { name: 'Six-yard box, central', inputs: centred(5.5), range: [0.45, 0.75] },
+  { name: 'Penalty spot, open play', inputs: centred(PITCH.penaltySpot), range: [0.20, 0.40] },
+  { name: 'Edge of the area, central', inputs: centred(PITCH.penaltyAreaDepth + 1), range: [0.06, 0.16] },
+  { name: 'Long range (25 m)', inputs: centred(25), range: [0.02, 0.08] },
+  { name: 'Header from a cross, penalty spot', inputs: centred(PITCH.penaltySpot, 'header'), range: [0.08, 0.20] },
+  { name: 'Direct free kick (22 m)', inputs: centred(22, 'free_kick'), range: [0.03, 0.09] },
+  {
+    name: 'Tight angle (2 m off the line, 10 m wide)',
+    inputs: { ...centred(0), distance: Math.hypot(2, 10), angle: goalMouthAngle(PITCH.length - 2, PITCH.width / 2 - 10, PITCH.length) },
+    range: [0.02, 0.12],
+  },
+  { name: 'Penalty spot, defender touching', inputs: { ...centred(PITCH.penaltySpot), pressure: 0.5 }, range: [0.10, 0.25] },
+  { name: 'Penalty spot, open goal', inputs: { ...centred(PITCH.penaltySpot), keeperOffset: null }, range: [0.65, 0.90] },
+  { name: 'Penalty spot, turning on the ball', inputs: { ...centred(PITCH.penaltySpot), facingError: Math.PI / 2 }, range: [0.12, 0.25] },
+];
+
+/** References whose xG falls outside their band (empty when the tuning is calibrated) */
+export function checkXgCalibration(references = XG_REFERENCES): { reference: XgReference; xg: number }[] {
+  return references
+    .map(reference => ({ reference, xg: expectedGoals(reference.inputs) }))
+    .filter(({ reference, xg }) => xg < reference.range[0] || xg > reference.range[1]);
+}
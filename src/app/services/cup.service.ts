@@ -0,0 +1,104 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { Team } from './team.service';
+import { GameState } from '../engine/match-engine';
+import { KnockoutCup, CupTie } from '../engine/cup';
+
+export interface CupView {
+  cup: KnockoutCup;
+  currentRound: number;
+  simulating: boolean;      // a headless batch is in progress
+  liveTieId: string | null;
+}
+
+/**
+ * Knockout cup state for the UI. Mirrors LeagueService: ties are simulated headless one per
+ * macrotask, or watched live through GameEngineService with extra time and penalties enabled.
+ */
+@Injectable({ providedIn: 'root' })
+export class CupService {
+  private view$ = new BehaviorSubject<CupView | null>(null);
+  private batchTimer: ReturnType<typeof setTimeout> | null = null;
+
+  getView(): Observable<CupView | null> {
+    return this.view$.asObservable();
+  }
+
+  get cup(): KnockoutCup | null {
+    return this.view$.value?.cup ?? null;
+  }
+
+  createCup(teams: Team[], seed: number, duration: number): void {
+    this.cancelBatch();
+    this.publish(new KnockoutCup(teams, { seed, duration }), { simulating: false, liveTieId: null });
+  }
+
+  close(): void {
+    this.cancelBatch();
+    this.view$.next(null);
+  }
+
+  /** Simulate the next playable tie headless */
+  simulateNext(): void {
+    const view = this.view$.value;
+    const tie = view?.cup.nextTie();
+    if (!view || !tie || view.liveTieId) return;
+    view.cup.simulateTie(tie);
+    this.publish(view.cup);
+  }
+
+  /** Simulate the rest of the current round, or every remaining tie through to the final */
+  simulateBatch(scope: 'round' | 'cup'): void {
+    const view = this.view$.value;
+    if (!view || view.simulating || view.liveTieId) return;
+    const round = view.cup.currentRound();
+    this.publish(view.cup, { simulating: true });
+    const runOne = () => {
+      const current = this.view$.value;
+      const tie = current?.cup.nextTie();
+      if (!current || !tie || (scope === 'round' && tie.round !== round)) {
+        this.batchTimer = null;
+        if (current) this.publish(current.cup, { simulating: false });
+        return;
+      }
+      current.cup.simulateTie(tie);
+      this.publish(current.cup);
+      this.batchTimer = setTimeout(runOne, 0);
+    };
+    this.batchTimer = setTimeout(runOne, 0);
+  }
+
+  /** Mark a tie as being watched live; the result arrives via reportLiveResult() */
+  beginLive(tie: CupTie): void {
+    const view = this.view$.value;
+    if (!view || view.simulating) return;
+    this.publish(view.cup, { liveTieId: tie.id });
+  }
+
+  reportLiveResult(state: GameState): void {
+    const view = this.view$.value;
+    if (!view?.liveTieId) return;
+    view.cup.recordResult(view.liveTieId, state);
+    this.publish(view.cup, { liveTieId: null });
+  }
+
+  cancelLive(): void {
+    const view = this.view$.value;
+    if (view?.liveTieId) this.publish(view.cup, { liveTieId: null });
+  }
+
+  private cancelBatch(): void {
+    if (this.batchTimer) clearTimeout(this.batchTimer);
+    this.batchTimer = null;
+  }
+
+  private publish(cup: KnockoutCup, patch: Partial<Pick<CupView, 'simulating' | 'liveTieId'>> = {}): void {
+    const previous = this.view$.value;
+    this.view$.next({
+      cup,
+      currentRound: cup.currentRound(),
+      simulating: patch.simulating ?? previous?.simulating ?? false,
+      liveTieId: patch.liveTieId !== undefined ? patch.liveTieId : previous?.liveTieId ?? null,
+    });
+  }
+}
@@ -1,1362 +1,114 @@
 import { Injectable } from '@angular/core';
-import { BehaviorSubject, Subject, Observable } from 'rxjs';
-import { Team, Player, GameEvent } from './team.service';
-import { environment } from '../../environments/environment';
-
-export interface GameState {
-  isRunning: boolean;
-  timeRemaining: number;
-  score: { team1: number; team2: number };
-  ball: { x: number; y: number; vx: number; vy: number };
-  events: GameEvent[];
-  currentBallOwner: string | null;
-  phase: 'pregame' | 'kickoff' | 'inplay' | 'finished';
-  kickoffTeamName?: string | null;
-}
-
+import { BehaviorSubject, Observable } from 'rxjs';
+import { Team, GameEvent } from './team.service';
+import { MatchEngine, GameState, MatchOptions } from '../engine/match-engine';
+import { MatchRecorder, MatchRecording } from '../engine/match-recorder';
+import { TeamTactics } from '../engine/tactics';
+
+export type { GameState } from '../engine/match-engine';
+
+/**
+ * Real-time driver for the browser.
+ * All match logic lives in MatchEngine; this service only feeds it fixed ticks
+ * proportional to elapsed wall time from requestAnimationFrame.
+ */
 @Injectable({ providedIn: 'root' })
 export class GameEngineService {
-  // ---------- Reactive state ----------
-  private gameState$ = new BehaviorSubject<GameState>({
-    isRunning: false,
-    timeRemaining: 0,
-    score: { team1: 0, team2: 0 },
-    ball: {
-      x: environment.gameSettings.fieldWidth / 2,
-      y: environment.gameSettings.fieldHeight / 2,
-      vx: 0,
-      vy: 0,
-    },
-    events: [],
-    currentBallOwner: null,
-    phase: 'pregame',
-    kickoffTeamName: null,
-  });
-  private gameEvents$ = new Subject<GameEvent>();
+  private readonly engine = new MatchEngine();
 
-  // ---------- Loop & timers ----------
+  // ---------- Loop ----------
   private animationFrameId: number | null = null;
-  private gameTimer: any | null = null;
-  private lastTime = 0;
-  private lastDecisionTime = 0;
-
-  // ---------- Game State ----------
-  private team1: Team | null = null;
-  private team2: Team | null = null;
-  private gameDuration = environment.gameSettings.defaultGameDuration;
-  private rngState = 1;
-  // --- Added advanced simulation state ---
-  private pendingPass: {
-    passer: Player; target: Player;
-    startX: number; startY: number; endX: number; endY: number;
-    startTime: number; duration: number; type: string; shot?: boolean; xg?: number;
-  } | null = null;
-  private lastPassTime = 0;
-  private passCooldownMs = 1000; // Realistic passing rhythm (was 800, originally 1400ms)
-  private momentumCounter = 0;
-  private halfSwitched = false;
-  // Kickoff / possession tracking additions
-  private possessionLockOwner: string | null = null;
-  private possessionLockUntil = 0;
-  private possessionStartTime = 0;
-  
-  // Logging throttle
-  private lastBallLogTime = 0;
-  private ballLogIntervalMs = 150; // Log ball position every 150ms (was 500ms) for smoother tracking
-
-  // Fouls & cards control
-  private lastFoulTime = 0;
-  private foulCooldownMs = 4000;
-  // Restart grace (suppresses immediate tackles/offside after restarts)
-  private restartGraceUntil = 0;
-  // Track last shooter & last touch for restart attribution
-  private lastShooter: Player | null = null;
-  private lastTouchTeam: 'team1' | 'team2' | null = null;
-  // Recent owners history (throw-in attribution)
-  private recentOwners: string[] = [];
+  private lastFrameTime = 0;
+  private accumulatorMs = 0;
+  private maxFrameDeltaMs = 250; // avoid a catch-up burst after the tab was hidden
 
+  // ---------- Recording ----------
+  private recorder: MatchRecorder | null = null;
+  private recording$ = new BehaviorSubject<MatchRecording | null>(null);
 
   // ---------- Public streams ----------
   getGameState(): Observable<GameState> {
-    return this.gameState$.asObservable();
+    return this.engine.getGameState();
   }
 
   getGameEvents(): Observable<GameEvent> {
-    return this.gameEvents$.asObservable();
+    return this.engine.getGameEvents();
   }
 
-  // -------------------------------------------------
-  // Match lifecycle
-  // -------------------------------------------------
-  startGame(team1: Team, team2: Team, duration: number = this.gameDuration): void {
-    // Initialize teams and game state
-    // IMPORTANT: Use the original team object references so the component inputs reflect updated player positions.
-    // Previously we deep-cloned teams; that prevented the canvas from seeing updated positions (stayed at 0,0).
-    this.team1 = team1;
-    this.team2 = team2;
-    this.gameDuration = duration;
-    this.ensureDistinctTeamColors();
-  this.initializePlayerPositions();
-    this.seedRng(team1, team2, duration);
-
-    const fieldWidth = environment.gameSettings.fieldWidth;
-    const fieldHeight = environment.gameSettings.fieldHeight;
-
-  this.halfSwitched = false;
-  this.pendingPass = null;
-  this.lastPassTime = Date.now();
-  this.possessionLockOwner = null;
-  this.possessionLockUntil = 0;
-  this.possessionStartTime = 0;
-    this.gameState$.next({
-      isRunning: false,
-      timeRemaining: duration,
-      score: { team1: 0, team2: 0 },
-      ball: { x: fieldWidth / 2, y: fieldHeight / 2, vx: 0, vy: 0 },
-      events: [],
-      currentBallOwner: null,
-      phase: 'pregame',
-      kickoffTeamName: null,
-    });
-
-    // Handle coin toss and kickoff
-    const coinWinner = this.rand() < 0.5 ? this.team1! : this.team2!;
-    this.gameState$.next({ ...this.gameState$.value, kickoffTeamName: coinWinner.name });
-    this.emitEvent('coin_toss', coinWinner.name, 'Referee');
-
-    const kickoffPlayer = this.findKickoffPlayer(coinWinner, fieldWidth, fieldHeight);
-    if (kickoffPlayer) {
-      // Place kickoff player at center circle (exact middle of field)
-      const centerX = fieldWidth / 2;
-      const centerY = fieldHeight / 2;
-      kickoffPlayer.position.x = centerX;
-      kickoffPlayer.position.y = centerY;
-      
-      console.log(`⚽ KICKOFF: ${kickoffPlayer.name} at center (${centerX}, ${centerY})`);
-      
-      this.gameState$.next({
-        ...this.gameState$.value,
-        ball: { x: centerX, y: centerY, vx: 0, vy: 0 }, // Ensure ball is at exact center
-        currentBallOwner: kickoffPlayer.id,
-        phase: 'kickoff',
-      });
-      // Lock initial possession briefly so immediate tackles don't steal kickoff
-      this.possessionStartTime = Date.now();
-      this.possessionLockOwner = kickoffPlayer.id;
-      this.possessionLockUntil = Date.now() + 600;
-    }
-
-    this.lastTime = Date.now();
-    this.lastDecisionTime = this.lastTime;
-
-    this.startGameLoop();
-
-    setTimeout(() => {
-      const gs = this.gameState$.value;
-      if (gs.phase === 'kickoff' && kickoffPlayer) {
-        this.emitEvent('kickoff', coinWinner.name, kickoffPlayer.name, undefined, { 
-          startX: fieldWidth / 2, 
-          startY: fieldHeight / 2, 
-          endX: fieldWidth / 2, 
-          endY: fieldHeight / 2, 
-          result: 'restart', 
-          subtype: 'kickoff' 
-        });
-        this.gameState$.next({ ...gs, isRunning: true, phase: 'inplay' });
-        this.startGameTimer();
-      }
-    }, 1000);
+  /** Recording of the last finished (or stopped) match, null while one is in progress */
+  getRecording(): Observable<MatchRecording | null> {
+    return this.recording$.asObservable();
   }
 
-  stopGame(): void {
-    const gs = this.gameState$.value;
-    if (!gs.isRunning) return;
-    this.gameState$.next({ ...gs, isRunning: false });
-    if (this.animationFrameId) cancelAnimationFrame(this.animationFrameId);
-    if (this.gameTimer) clearInterval(this.gameTimer);
-  }
-
-  // -------------------------------------------------
-  // Timers & loop
-  // -------------------------------------------------
-  private startGameLoop(): void {
-    const loop = () => {
-      const gs = this.gameState$.value;
-      const now = Date.now();
-      const delta = now - this.lastTime;
-      this.lastTime = now;
-
-      if (gs.isRunning && gs.phase === 'inplay') {
-        this.updateBall(delta);
-        if (now - this.lastDecisionTime >= environment.gameSettings.decisionIntervalMs) {
-          this.lastDecisionTime = now;
-          this.updatePlayerPositions(delta);
-          this.handleGameEvents();
-          this.maybeGenerateFoul(now);
-        }
-      }
-
-      this.animationFrameId = requestAnimationFrame(loop);
-    };
-    this.animationFrameId = requestAnimationFrame(loop);
-  }
-
-  private startGameTimer(): void {
-    if (this.gameTimer) clearInterval(this.gameTimer);
-    this.gameTimer = setInterval(() => {
-      const gs = this.gameState$.value;
-      if (!gs.isRunning) return;
-      // Halftime mirror once at midpoint
-      if (!this.halfSwitched && gs.timeRemaining === Math.floor(this.gameDuration / 2)) {
-        this.mirrorSides();
-        this.halfSwitched = true;
-        this.emitEvent('momentum', 'neutral', '', 'Teams switch sides (halftime).');
-      }
-      if (gs.timeRemaining <= 0) {
-        this.gameState$.next({ ...gs, isRunning: false, phase: 'finished', timeRemaining: 0 });
-        this.stopGame();
-      } else {
-        this.gameState$.next({ ...gs, timeRemaining: gs.timeRemaining - 1 });
-      }
-    }, 1000);
+  /** Expose current mutable team references (used by UI if needed) */
+  getTeams(): { team1: Team | null; team2: Team | null } {
+    return this.engine.getTeams();
   }
 
   // -------------------------------------------------
-  // Ball and Player Updates
+  // Match lifecycle
   // -------------------------------------------------
-  private updateBall(delta: number): void {
-    const gs = this.gameState$.value;
-    let { x, y, vx, vy } = gs.ball;
-    // Animated pass / shot in flight
-    if (this.pendingPass) {
-      const p = this.pendingPass;
-      const t = Math.min(1, (Date.now() - p.startTime) / p.duration);
-      x = p.startX + (p.endX - p.startX) * t;
-      y = p.startY + (p.endY - p.startY) * t;
-      // Rough velocity estimate
-      vx = (p.endX - p.startX) / (p.duration / 1000);
-      vy = (p.endY - p.startY) / (p.duration / 1000);
-      // Adaptive higher-frequency logging during fast passes to reduce perceived teleportation
-      const nowLog = Date.now();
-      // Reduce spam: dynamic logging interval based on remaining time
-      // Faster early logging, slower near completion
-      const passLogInterval = t < 0.3 ? 70 : (t < 0.7 ? 110 : 160);
-      if (nowLog - this.lastBallLogTime >= passLogInterval) {
-        console.log(`➡️ Pass flight t=${(t*100).toFixed(0)}% at (${x.toFixed(0)},${y.toFixed(0)})`);
-        this.lastBallLogTime = nowLog;
-      }
-      if (t >= 1) {
-        if (p.shot) {
-          if (this.isGoal(x, y)) {
-            // Shot is on target - check for goalkeeper save
-            const shooterTeam = this.isTeam1(p.passer) ? this.team1! : this.team2!;
-            const defendingTeam = shooterTeam === this.team1 ? this.team2! : this.team1!;
-            const keeper = defendingTeam.players.find(pl => pl.role === 'goalkeeper');
-            
-            let saved = false;
-            if (keeper) {
-              const distToShot = Math.hypot(keeper.position.x - x, keeper.position.y - y);
-              const xg = p.xg ?? 0.5;
-              // Save probability: closer keeper + lower xG = higher save chance
-              const baseSaveChance = 0.4; // 40% base
-              const distBonus = Math.max(0, (80 - distToShot) / 200); // up to +40% if very close
-              const xgPenalty = xg * 0.5; // harder shots reduce save chance
-              const saveChance = Math.min(0.85, baseSaveChance + distBonus - xgPenalty);
-              
-              if (this.rand() < saveChance) {
-                saved = true;
-                console.log(`🧤 GK ${keeper.name}: SAVED shot! Save chance: ${(saveChance * 100).toFixed(0)}%, Distance: ${distToShot.toFixed(1)}, xG: ${xg.toFixed(2)}`);
-                this.emitEvent('save', defendingTeam.name, keeper.name, `${keeper.name} saves the shot!`, { 
-                  startX: x, startY: y, endX: keeper.position.x, endY: keeper.position.y, 
-                  result: 'saved', subtype: 'goalkeeper_save', role: 'goalkeeper' 
-                });
-                // Ball becomes loose near keeper
-                x = keeper.position.x + (this.rand() - 0.5) * 20;
-                y = keeper.position.y + (this.rand() - 0.5) * 20;
-                vx = (this.rand() - 0.5) * 2;
-                vy = (this.rand() - 0.5) * 2;
-                this.pendingPass = null;
-                this.gameState$.next({ ...gs, ball: { x, y, vx, vy }, currentBallOwner: null });
-                return;
-              }
-            }
-            
-            if (!saved) {
-              this.scoreGoal(p.passer);
-              this.pendingPass = null;
-              // scoreGoal handles ball reset
-              return;
-            }
-          } else {
-            this.emitEvent('shot', this.teamOfPlayer(p.passer).name, p.passer.name);
-            // Missed shot: ball becomes loose at end position with reduced velocity
-            vx *= 0.3;
-            vy *= 0.3;
-            this.pendingPass = null;
-            this.gameState$.next({ ...gs, ball: { x, y, vx, vy }, currentBallOwner: null });
-            return;
-          }
-        }
-        // Pass completed: ball arrives at destination, becomes loose
-        // Target player will pick it up automatically if close enough (handled in updatePlayerPositions)
-        const passType = p.type;
-        this.pendingPass = null;
-        vx *= 0.2; // slow down for easier pickup
-        vy *= 0.2;
-        // Check if target is close enough to receive immediately
-        const distToTarget = Math.hypot(p.target.position.x - x, p.target.position.y - y);
-        // Complete only when truly at receiver (tightened threshold) to avoid early large easing jumps
-        if (distToTarget < 10) {
-          // Target is close, give them the ball and emit completed pass
-          this.emitEvent('pass', this.teamOfPlayer(p.target).name, p.target.name, `${p.passer.name} completes ${passType} to ${p.target.name}`, { startX: p.startX, startY: p.startY, endX: x, endY: y, subtype: passType, result: 'complete', role: p.target.role });
-          this.setBallOwner(p.target);
-          // Don't teleport - ball will follow player in next frame
-          vx = 0;
-          vy = 0;
-        }
-      }
-      this.gameState$.next({ ...gs, ball: { x, y, vx, vy } });
-      return;
-    }
-
-    if (gs.currentBallOwner) {
-      const owner = this.findPlayer(gs.currentBallOwner);
-      if (owner) {
-        // Instead of snapping ball directly to owner's exact position (which looks like teleportation
-        // right after a pass is received), smoothly ease the ball toward the owner's feet.
-        // This creates a "first touch" animation and eliminates visual popping.
-        const targetX = owner.position.x;
-        const targetY = owner.position.y;
-
-        const dxOwner = targetX - x;
-        const dyOwner = targetY - y;
-        const distToOwner = Math.hypot(dxOwner, dyOwner);
-
-        if (distToOwner < 1.2) {
-          // Close enough – snap to reduce jitter
-          x = targetX;
-          y = targetY;
-          vx = 0;
-          vy = 0;
-        } else {
-          // Ease factor scales with distance so long receptions feel a bit quicker
-          // but still visibly smooth. Clamp so we never overshoot.
-          const easeBase = 0.38;          // minimum follow factor
-          const easeScale = 0.42;         // additional factor from distance
-          const normalized = Math.min(1, distToOwner / 22); // distance normalization
-          const ease = easeBase + easeScale * normalized;   // final easing multiplier
-
-          // Apply easing movement
-          const moveX = dxOwner * ease;
-          const moveY = dyOwner * ease;
-          // Clamp max per-frame movement to avoid giant visual leaps when ownership switches far
-          const maxStep = 14; // px
-          const stepDist = Math.hypot(moveX, moveY);
-          const clampFactor = stepDist > maxStep ? (maxStep / stepDist) : 1;
-          x += moveX * clampFactor;
-          y += moveY * clampFactor;
-
-          // Derive pseudo velocity (useful if later we add spin/deflections)
-          vx = dxOwner * ease * 60 / 1000; // scaled per second (approx)
-          vy = dyOwner * ease * 60 / 1000;
-        }
-
-        // Log ball position periodically (not every frame)
-        const now = Date.now();
-        if (now - this.lastBallLogTime >= this.ballLogIntervalMs) {
-          console.log(`⚽ Ball with ${owner.name} (${owner.role}) easing to (${x.toFixed(0)}, ${y.toFixed(0)}) dist=${distToOwner.toFixed(1)}`);
-          this.lastBallLogTime = now;
-        }
-      }
-      this.gameState$.next({ ...gs, ball: { x, y, vx, vy } });
-    } else {
-      const dtSec = delta / 1000;
-      x += vx * dtSec; y += vy * dtSec;
-      const friction = environment.gameSettings.speed.frictionFree;
-      vx *= friction; vy *= friction;
-      if (Math.abs(vx) < 0.02) vx = 0; if (Math.abs(vy) < 0.02) vy = 0;
-      x = Math.max(0, Math.min(this.W, x));
-      y = Math.max(0, Math.min(this.H, y));
-      
-      // CRITICAL: Check if goalkeeper can collect the ball BEFORE checking for goals
-      // This prevents balls from going through when GK is close
-      const allPlayers = [...(this.team1?.players || []), ...(this.team2?.players || [])];
-      for (const p of allPlayers.filter(pl => pl.role === 'goalkeeper')) {
-        const dist = Math.hypot(p.position.x - x, p.position.y - y);
-        const isTeam1GK = this.isTeam1(p);
-        const ballInKeepersArea = isTeam1GK ? x < this.W * 0.15 : x > this.W * 0.85;
-        
-        // Goalkeeper can catch ball if it's close and in their defensive area
-        if (dist < 25 && ballInKeepersArea) {
-          console.log(`🧤 GK ${p.name}: COLLECTED loose ball at distance ${dist.toFixed(1)} - PREVENTED GOAL!`);
-          this.setBallOwner(p);
-          this.emitEvent('save', this.teamOfPlayer(p).name, p.name, `${p.name} collects the ball!`, {
-            startX: x,
-            startY: y,
-            endX: p.position.x,
-            endY: p.position.y,
-            result: 'collected',
-            subtype: 'goalkeeper_collection',
-            role: 'goalkeeper'
-          });
-          // Stop the ball where it is - keeper will move to it naturally
-          this.gameState$.next({ ...gs, ball: { x, y, vx: 0, vy: 0 }, currentBallOwner: p.id });
-          return; // Exit early - ball is collected, don't check for goals
-        }
-      }
-      
-      // Log loose ball position periodically
-      const now = Date.now();
-      if (now - this.lastBallLogTime >= this.ballLogIntervalMs) {
-        const speed = Math.hypot(vx, vy);
-        console.log(`⚽ Ball LOOSE at (${x.toFixed(0)}, ${y.toFixed(0)}) - Speed: ${speed.toFixed(1)}`);
-        this.lastBallLogTime = now;
-      }
-      
-      // Throw-in detection
-      if (y <= 5 || y >= this.H - 5) { this.handleThrowIn(x, y); return; }
-      // Goal / corner / goal kick logic
-      const goalHalf = (environment.gameSettings.goalWidthM * (this.H / environment.gameSettings.pitchWidthM)) / 2;
-      const inAperture = Math.abs(y - this.H / 2) <= goalHalf;
-      const crossedLeft = x < 5; const crossedRight = x > this.W - 5;
-      if (crossedLeft || crossedRight) {
-        if (inAperture) {
-          const scorer = gs.currentBallOwner ? this.findPlayer(gs.currentBallOwner) : this.lastShooter;
-          if (scorer) { this.scoreGoal(scorer); }
-          else {
-            // Neutral goal event (e.g., ball crosses line without clear scorer)
-            this.emitEvent('goal', 'neutral', '', undefined, { startX: x, startY: y, endX: x, endY: y, result: 'goal' });
-            this.gameState$.next({ ...gs, ball: { x: this.W / 2, y: this.H / 2, vx: 0, vy: 0 }, currentBallOwner: null });
-          }
-          this.restartGraceUntil = Date.now() + 1500;
-          return;
-        } else {
-          const attackingTeamIsTeam1 = crossedRight; // team1 attacks right
-          const lastTouch = this.lastTouchTeam || (attackingTeamIsTeam1 ? 'team1' : 'team2');
-          const isGoalKick = lastTouch === (attackingTeamIsTeam1 ? 'team1' : 'team2');
-          if (isGoalKick) {
-            this.performGoalKick(attackingTeamIsTeam1 ? 'team2' : 'team1', crossedLeft ? 'left' : 'right');
-          } else {
-            this.performCorner(attackingTeamIsTeam1 ? this.team1! : this.team2!, crossedLeft ? 'left' : 'right', y < this.H / 2 ? 'top' : 'bottom');
-          }
-          this.restartGraceUntil = Date.now() + 1500;
-          return;
-        }
-      }
-      // Legacy simple goal fallback
-      if (this.isGoal(x, y)) {
-        // Fallback simple goal detection
-        this.emitEvent('goal', 'neutral', '', undefined, { startX: x, startY: y, endX: x, endY: y, result: 'goal' });
-        this.gameState$.next({ ...gs, ball: { x: this.W / 2, y: this.H / 2, vx: 0, vy: 0 }, currentBallOwner: null });
-        this.restartGraceUntil = Date.now() + 1200;
-        return;
-      }
-      this.gameState$.next({ ...gs, ball: { x, y, vx, vy } });
-    }
+  startGame(team1: Team, team2: Team, duration?: number, seed?: number | null, options: MatchOptions = {}): void {
+    this.stopLoop();
+    this.engine.startGame(team1, team2, duration, seed, options);
+    this.recorder = new MatchRecorder(team1, team2, this.engine.state.timeRemaining, this.engine.tickMs, this.engine.now());
+    this.recorder.capture(this.engine.state, this.engine.now());
+    this.recording$.next(null);
+    this.startLoop();
   }
 
-  private updatePlayerPositions(delta: number): void {
-    const gs = this.gameState$.value;
-    const ball = gs.ball;
-    const allPlayers = [...this.team1!.players, ...this.team2!.players];
-    const baseSpeed = environment.gameSettings.speed.playerBase * (delta / 16.67);
-    const ballOwner = gs.currentBallOwner ? this.findPlayer(gs.currentBallOwner) : null;
-    const ownerIsTeam1 = ballOwner ? this.isTeam1(ballOwner) : null;
-    const attackingTeam = ownerIsTeam1 == null ? null : (ownerIsTeam1 ? this.team1! : this.team2!);
-    const defendingTeam = ownerIsTeam1 == null ? null : (ownerIsTeam1 ? this.team2! : this.team1!);
-
-    // DISABLED: Smart ball handoff causes teleportation since ball snaps to new owner's position
-    // Players will keep the ball until they pass it or lose it to opponents
-    // The natural passing system handles ball movement without visual glitches
-
-    // Pressers: when ball is owned, defenders actively challenge; when loose, pick closest from all players
-    let pressers: Player[] = [];
-    if (ballOwner && defendingTeam) {
-      // Increase defensive pressure from 2 to 3 defenders to make attacks harder
-      pressers = defendingTeam.players.filter(p => p.role !== 'goalkeeper')
-        .map(p => ({ p, d: Math.hypot(p.position.x - ball.x, p.position.y - ball.y) }))
-        .sort((a, b) => a.d - b.d)
-        .slice(0, 3) // was 2, now 3 defenders press
-        .map(o => o.p);
-    } else if (!ballOwner) {
-      // Loose ball: closest 4 players from both teams chase (more competitive)
-      pressers = allPlayers.filter(p => p.role !== 'goalkeeper')
-        .map(p => ({ p, d: Math.hypot(p.position.x - ball.x, p.position.y - ball.y) }))
-        .sort((a, b) => a.d - b.d)
-        .slice(0, 4) // was 3, now 4 for more intense loose ball battles
-        .map(o => o.p);
-    }
-
-    // Support runners: find 2-3 attacking teammates who should position for passes
-    let supportRunners: Player[] = [];
-    if (attackingTeam && ballOwner) {
-      const candidates = attackingTeam.players.filter(p => p.id !== ballOwner.id && p.role !== 'goalkeeper');
-      const attackDir = ownerIsTeam1 ? 1 : -1;
-      
-      // Prioritize forwards and attacking midfielders
-      const forwards = candidates.filter(p => p.role === 'forward');
-      const midfielders = candidates.filter(p => p.role === 'midfielder');
-      
-      supportRunners = [...forwards, ...midfielders]
-        .sort((a, b) => {
-          // Prefer players ahead of the ball and closer to opponent's goal
-          const aDist = Math.hypot(a.position.x - ball.x, a.position.y - ball.y);
-          const bDist = Math.hypot(b.position.x - ball.x, b.position.y - ball.y);
-          const aAhead = (a.position.x - ball.x) * attackDir;
-          const bAhead = (b.position.x - ball.x) * attackDir;
-          return (bAhead - aAhead) * 0.5 + (aDist - bDist);
-        })
-        .slice(0, 3);
-    }
-
-    allPlayers.forEach(p => {
-      const isOwner = !!ballOwner && p.id === ballOwner.id;
-      const dir = this.isTeam1(p) ? 1 : -1;
-      const basePos = (p as any).basePosition || { x: p.position.x, y: p.position.y };
-      
-      // Goalkeeper special logic: stay near goal line and track ball vertically
-      if (p.role === 'goalkeeper') {
-        // Each goalkeeper defends their own goal - STAY ON THE GOAL LINE
-        const goalLineX = dir === 1 ? this.W * 0.04 : this.W * 0.96;
-        const defendingGoalX = dir === 1 ? 0 : this.W;
-        
-        // Calculate goal width (aperture)
-        const goalHalfWidth = (environment.gameSettings.goalWidthM * (this.H / environment.gameSettings.pitchWidthM)) / 2;
-        const goalTop = this.H / 2 - goalHalfWidth;
-        const goalBottom = this.H / 2 + goalHalfWidth;
-        
-        // Calculate if ball is in this goalkeeper's defensive third (not just half)
-        const ballInDefensiveThird = dir === 1 ? ball.x < this.W * 0.33 : ball.x > this.W * 0.67;
-        const ballInKeepersArea = dir === 1 ? ball.x < this.W * 0.15 : ball.x > this.W * 0.85;
-        
-        // Track ball vertically, but with damping based on distance from goal
-        const distFromGoal = Math.abs(ball.x - defendingGoalX);
-        const distToBall = Math.hypot(p.position.x - ball.x, p.position.y - ball.y);
-        const threatLevel = Math.max(0, 1 - (distFromGoal / (this.W * 0.33))); // 1.0 when ball at goal, 0.0 at defensive third line
-        
-        // If ball is loose and very close to keeper's area, rush to collect it
-        let targetX = goalLineX;
-        let targetY = this.H / 2;
-        
-        if (!ballOwner && ballInKeepersArea && distToBall < 30) {
-          // Rush toward the loose ball to collect it
-          console.log(`🧤 GK ${p.name}: RUSHING to collect loose ball! Distance: ${distToBall.toFixed(1)}`);
-          targetX = p.position.x + (ball.x - p.position.x) * 0.7;
-          targetY = p.position.y + (ball.y - p.position.y) * 0.7;
-          
-          // Clamp to defensive area
-          if (dir === 1) {
-            targetX = Math.min(targetX, this.W * 0.12);
-          } else {
-            targetX = Math.max(targetX, this.W * 0.88);
-          }
-        } else {
-          // Normal positioning: stay on goal line
-          targetX = goalLineX;
-          
-          // Only track ball vertically when it's close and represents a threat
-          if (ballInDefensiveThird && threatLevel > 0.3) {
-            // Track ball position with heavy smoothing - stay centered but ready
-            const trackingInfluence = threatLevel * 0.5;
-            targetY = this.H / 2 + (ball.y - this.H / 2) * trackingInfluence;
-            
-            // Log at high threat levels (>90%)
-            if (threatLevel > 0.9) {
-              const now = Date.now();
-              if (now - this.lastBallLogTime >= this.ballLogIntervalMs) {
-                console.log(`🧤 GK ${p.name}: HIGH ALERT - Threat ${(threatLevel * 100).toFixed(0)}%`);
-              }
-            }
-          } else {
-            // When ball is far away, return to center of goal
-            targetY = this.H / 2;
-          }
-        }
-        
-        // STRICTLY clamp goalkeeper to stay within goal width vertically
-        targetY = Math.max(goalTop + 5, Math.min(goalBottom - 5, targetY));
-        
-        // Movement to target position
-        const dx = targetX - p.position.x;
-        const dy = targetY - p.position.y;
-        const d = Math.hypot(dx, dy) || 1;
-        
-        if (d > 0.5) {
-          // Adjust speed based on whether collecting or positioning
-          const isRushing = !ballOwner && ballInKeepersArea && distToBall < 30;
-          const horizontalSpeed = isRushing ? baseSpeed * 1.2 : baseSpeed * 0.8;
-          const verticalSpeed = baseSpeed * (0.3 + threatLevel * 0.3);
-          
-          p.position.x += (dx / d) * horizontalSpeed;
-          p.position.y += (dy / d) * verticalSpeed;
-        }
-        
-        // FORCE goalkeeper to stay on goal line - never venture out too far
-        const maxDeviation = !ballOwner && ballInKeepersArea ? 35 : 8; // Can move further for loose balls
-        if (dir === 1) {
-          p.position.x = Math.min(p.position.x, this.W * 0.04 + maxDeviation);
-        } else {
-          p.position.x = Math.max(p.position.x, this.W * 0.96 - maxDeviation);
-        }
-        
-        // FORCE goalkeeper to stay within goal frame vertically
-        p.position.y = Math.max(goalTop, Math.min(goalBottom, p.position.y));
-      } else if (isOwner) {
-        // Dribbler: smooth forward advance with minimal lateral noise
-        const staminaFactor = p.abilities?.stamina && p.abilities?.maxStamina ? Math.max(0.6, p.abilities.stamina / p.abilities.maxStamina) : 1;
-        const speedFactor = Math.min(1.2, (p.abilities?.speedFactor ?? 1) * staminaFactor);
-        p.position.x += dir * baseSpeed * 0.4 * speedFactor;
-        p.position.y += (this.rand() - 0.5) * baseSpeed * 0.15;
-      } else if (pressers.includes(p)) {
-        // Pressers: smooth approach, capped speed
-        const dx = ball.x - p.position.x; const dy = ball.y - p.position.y; const d = Math.hypot(dx, dy) || 1;
-        const pressSpeed = Math.min(baseSpeed * 1.1, baseSpeed * 0.9 * (p.abilities?.speedFactor ?? 1));
-        const moveX = (dx / d) * pressSpeed; const moveY = (dy / d) * pressSpeed;
-        p.position.x += moveX * 0.7; p.position.y += moveY * 0.7;
-      } else if (supportRunners.includes(p)) {
-        // Support runners: intelligent positioning for receiving passes
-        // Forwards should only push forward when team is attacking
-        const goalX = dir === 1 ? this.W : 0;
-        const distToGoal = Math.abs(goalX - p.position.x);
-        
-        // Check if team is in attacking phase (ball in opponent's half)
-        const ballInOpponentHalf = dir === 1 ? ball.x > this.W * 0.5 : ball.x < this.W * 0.5;
-        const ballProgress = (ball.x - this.W / 2) * dir; // Positive when attacking, negative when defending
-        
-        let targetX: number;
-        let targetY = basePos.y;
-        
-        if (p.role === 'forward') {
-          // Forwards: only push forward when team is attacking
-          if (ballInOpponentHalf && ballProgress > 50) {
-            // Team is attacking - push forward aggressively
-            targetX = ball.x + dir * 80;
-            
-            // If very close to goal, make runs
-            if (distToGoal < 150) {
-              targetX = ball.x + dir * 60;
-            }
-          } else {
-            // Team not attacking - stay near formation position but track ball loosely
-            targetX = basePos.x + (ball.x - this.W / 2) * dir * 0.2;
-          }
-        } else {
-          // Midfielders: more fluid movement, support attack but maintain shape
-          targetX = ball.x + dir * 40; // Less aggressive push
-          
-          if (ballInOpponentHalf) {
-            targetX += dir * 40; // Push up when attacking
-          }
-        }
-        
-        // Adjust vertically to create passing options
-        const lateralSpread = 50;
-        targetY += (this.rand() - 0.5) * lateralSpread;
-        
-        // Stay in bounds
-        targetX = Math.max(20, Math.min(this.W - 20, targetX));
-        targetY = Math.max(20, Math.min(this.H - 20, targetY));
-        
-        const dx = targetX - p.position.x;
-        const dy = targetY - p.position.y;
-        const d = Math.hypot(dx, dy) || 1;
-        
-        if (d > 5) {
-          const moveSpeed = baseSpeed * 0.55 * (p.abilities?.speedFactor ?? 1);
-          p.position.x += (dx / d) * moveSpeed;
-          p.position.y += (dy / d) * moveSpeed;
-        }
-      } else {
-        // Shape holders: maintain formation position with MINIMAL shifts
-        // Keep formation integrity - defenders stay back, forwards stay forward
-        const sameSide = ballOwner ? ownerIsTeam1 === this.isTeam1(p) : null;
-        
-        let shiftX = 0;
-        let shiftY = 0;
-        
-        // Role-based shift limits to maintain formation separation
-        const maxShiftByRole = {
-          'defender': 25,      // Defenders stay mostly in position
-          'midfielder': 40,     // Midfielders can roam moderately  
-          'forward': 35,        // Forwards maintain attacking position
-          'goalkeeper': 0       // GK handled separately above
-        };
-        
-        const maxShift = maxShiftByRole[p.role as keyof typeof maxShiftByRole] || 30;
-        
-        // Contextual positioning based on ball location and team possession
-        if (ballOwner && sameSide !== null) {
-          // Attacking team: slight push up when ball is forward
-          if (sameSide) {
-            const ballProgress = (ball.x - this.W / 2) * dir;
-            if (ballProgress > 0 && p.role !== 'defender') {
-              // Ball is in attacking half, slight push forward (only mids/forwards)
-              shiftX = Math.min(maxShift, ballProgress * 0.15) * dir;
-            }
-          } else {
-            // Defending team: slight drop back when opponents attack
-            const ballProgress = (ball.x - this.W / 2) * dir;
-            if (ballProgress < 0 && p.role === 'defender') {
-              // Ball is in our half, slight drop deeper (only defenders)
-              shiftX = Math.max(-maxShift, ballProgress * 0.12) * dir;
-            }
-          }
-          
-          // Minimal horizontal shift toward ball's vertical position
-          shiftY = (ball.y - basePos.y) * 0.12;
-        } else {
-          // Neutral positioning: very slight shift toward ball
-          shiftX = (ball.x - this.W / 2) * 0.01 * dir;
-          shiftY = (ball.y - this.H / 2) * 0.02;
-        }
-        
-        const targetX = Math.max(20, Math.min(this.W - 20, basePos.x + shiftX));
-        const targetY = Math.max(20, Math.min(this.H - 20, basePos.y + shiftY));
-        const dx = targetX - p.position.x; const dy = targetY - p.position.y; const d = Math.hypot(dx, dy) || 1;
-        if (d > 3) {
-          p.position.x += (dx / d) * baseSpeed * 0.4; p.position.y += (dy / d) * baseSpeed * 0.4;
-        }
-      }
-      p.position.x = Math.max(0, Math.min(this.W, p.position.x));
-      p.position.y = Math.max(0, Math.min(this.H, p.position.y));
-    });
-
-    // Loose ball pickup: prioritize goalkeepers in their own area, then other players
-    if (!ballOwner) {
-      // Gate ball pickup during early phase of a pass to avoid premature owner assignment that creates large easing jumps
-      let passPickupAllowed = true;
-      let passTargetId: string | null = null;
-      if (this.pendingPass) {
-        const p = this.pendingPass;
-        const t = Math.min(1, (Date.now() - p.startTime) / p.duration);
-        passTargetId = p.target.id;
-        // Allow pickup later (>=85%) or physically very close (<8px) to ensure ball visually reaches area first
-        passPickupAllowed = t >= 0.85;
-      }
-      // First check if any goalkeeper can reach the ball in their defensive area
-      for (const p of allPlayers.filter(pl => pl.role === 'goalkeeper')) {
-        const dist = Math.hypot(p.position.x - ball.x, p.position.y - ball.y);
-        const isTeam1GK = this.isTeam1(p);
-        const ballInKeepersArea = isTeam1GK ? ball.x < this.W * 0.15 : ball.x > this.W * 0.85;
-        
-        // Goalkeeper can catch ball if it's close and in their defensive area
-        if (dist < 25 && ballInKeepersArea) {
-          console.log(`🧤 GK ${p.name}: COLLECTED loose ball at distance ${dist.toFixed(1)}`);
-          this.setBallOwner(p);
-          this.emitEvent('save', this.teamOfPlayer(p).name, p.name, `${p.name} collects the ball!`, {
-            startX: ball.x,
-            startY: ball.y,
-            endX: p.position.x,
-            endY: p.position.y,
-            result: 'collected',
-            subtype: 'goalkeeper_collection',
-            role: 'goalkeeper'
-          });
-          return; // Exit early once keeper has the ball
-        }
-      }
-      
-      // If no goalkeeper caught it, check other players
-      for (const p of allPlayers.filter(pl => pl.role !== 'goalkeeper')) {
-        const dist = Math.hypot(p.position.x - ball.x, p.position.y - ball.y);
-        if (dist < 8) {
-          if (!this.pendingPass || passPickupAllowed || (p.id === passTargetId && dist < 8 && passPickupAllowed)) {
-            if (this.pendingPass && p.id === passTargetId) {
-              // Pass finished naturally (late phase)
-              const pass = this.pendingPass;
-              this.emitEvent('pass', this.teamOfPlayer(pass.target).name, pass.target.name, `${pass.passer.name} completes ${pass.type} to ${pass.target.name}`, { startX: pass.startX, startY: pass.startY, endX: ball.x, endY: ball.y, subtype: pass.type, result: 'complete', role: pass.target.role });
-              this.pendingPass = null;
-            }
-            this.setBallOwner(p);
-            break;
-          }
-        }
-      }
-    }
-
-    // Separation pass to prevent overlapping
-    for (let i = 0; i < allPlayers.length; i++) {
-      for (let j = i + 1; j < allPlayers.length; j++) {
-        const a = allPlayers[i]; const b = allPlayers[j];
-        let dx = b.position.x - a.position.x; let dy = b.position.y - a.position.y; const dist = Math.hypot(dx, dy);
-        if (dist > 0 && dist < 12) {
-          const push = (12 - dist) * 0.3; dx /= dist; dy /= dist;
-          a.position.x -= dx * push; a.position.y -= dy * push;
-          b.position.x += dx * push; b.position.y += dy * push;
-          a.position.x = Math.max(0, Math.min(this.W, a.position.x)); a.position.y = Math.max(0, Math.min(this.H, a.position.y));
-          b.position.x = Math.max(0, Math.min(this.W, b.position.x)); b.position.y = Math.max(0, Math.min(this.H, b.position.y));
-        }
-      }
-    }
-  }
-
-  // -------------------------------------------------
-  // Game Events
-  // -------------------------------------------------
-  private emitEvent(type: string, teamName: string, playerName: string, descriptionOverride?: string, extra?: Partial<GameEvent>): void {
-    const gs = this.gameState$.value;
-    const elapsed = this.gameDuration - gs.timeRemaining;
-    const displayTime = this.formatTime(elapsed);
-    const zone = (x?: number, y?: number): string | undefined => {
-      if (x == null || y == null) return undefined;
-      const third = this.W / 3;
-      let z = 'middle_third';
-      if (x < third) z = 'defensive_third'; else if (x > 2 * third) z = 'attacking_third';
-      const flank = this.H * 0.20;
-      if (y < flank) z += '_top_flank'; else if (y > this.H - flank) z += '_bottom_flank'; else z += '_central';
-      return z;
-    };
-    const event: GameEvent = {
-      time: elapsed,
-      type: type as any,
-      team: teamName,
-      player: playerName,
-      description: descriptionOverride || this.describeEvent(type, playerName, teamName),
-      displayTime,
-      realMinute: Math.floor(elapsed / 60),
-      startX: extra?.startX,
-      startY: extra?.startY,
-      endX: extra?.endX,
-      endY: extra?.endY,
-      result: extra?.result,
-      role: extra?.role,
-      subtype: extra?.subtype,
-      xg: extra?.xg,
-      pressure: extra?.pressure,
-      facingError: extra?.facingError,
-      zoneStart: zone(extra?.startX, extra?.startY),
-      zoneEnd: zone(extra?.endX, extra?.endY)
-    };
-    if (['pass','shot'].includes(type)) this.momentumCounter = Math.min(100, this.momentumCounter + (type === 'shot' ? 4 : 1));
-    if (type === 'goal') this.momentumCounter = 0;
-    (event as any).momentumIndex = this.momentumCounter;
-    this.gameState$.next({ ...gs, events: [...gs.events, event] });
-    this.gameEvents$.next(event);
+  stopGame(): void {
+    this.engine.stopGame();
+    this.stopLoop();
+    this.finishRecording();
   }
 
-  private describeEvent(type: string, player: string, team: string): string {
-    const eventDescriptions: Record<string, string> = {
-      goal: `⚽ Goal! ${player} scores for ${team}!`,
-      foul: `⚠️ Foul by ${player}.`,
-      corner: `🚩 Corner for ${team}.`,
-      offside: `🚨 Offside: ${player}.`,
-      yellow_card: `🟨 Yellow card to ${player}.`,
-      pass: `➡️ Pass by ${player}.`,
-      shot: `🎯 Shot attempt by ${player}.`,
-      tackle: `🛡️ Tackle won by ${player}.`,
-      interception: `✂️ Interception by ${player}.`,
-      momentum: `Momentum shift in match.`,
-      goal_kick: `🧤 Goal kick by ${player}.`
-      ,coin_toss: `🪙 Coin toss: ${team} to kick off.`,
-      kickoff: `🔔 Kickoff by ${player} (${team}).`,
-      throw_in: `↔️ Throw-in: ${player}.`,
-      penalty: `⚠️ Penalty awarded – ${player}.`,
-      save: `🧱 Save by ${player}!`
-    };
-
-    return eventDescriptions[type] || `${player} performed an action.`;
+  /** Queue a substitution for the live match; it is made at the next stoppage */
+  requestSubstitution(teamId: string, offId: string, onId: string): boolean {
+    return this.engine.requestSubstitution(teamId, offId, onId);
   }
 
-  private formatTime(seconds: number): string {
-    const minutes = Math.floor(seconds / 60).toString().padStart(2, '0');
-    const secs = Math.floor(seconds % 60).toString().padStart(2, '0');
-    return `${minutes}:${secs}`;
+  /** Change a team's formation or sliders in the live match */
+  setTactics(teamId: string, tactics: Partial<TeamTactics>): boolean {
+    return this.engine.setTactics(teamId, tactics);
   }
 
   // -------------------------------------------------
-  // Utilities
+  // Real-time loop
   // -------------------------------------------------
-  private cloneTeam(team: Team): Team {
-    return {
-      ...team,
-      players: team.players.map((player) => ({
-        ...player,
-        position: { ...player.position },
-      })),
-    };
-  }
-
-  private seedRng(team1: Team, team2: Team, duration: number): void {
-    const seed = team1.name + team2.name + duration.toString();
-    let acc = 0x12345678;
-    for (const char of seed) {
-      acc = (acc ^ char.charCodeAt(0)) * 0x5bd1e995 + 1;
-    }
-    this.rngState = acc >>> 0 || 1;
-  }
-
-  private ensureDistinctTeamColors(): void {
-    if (this.team1 && this.team2 && this.team1.color === this.team2.color) {
-      // Change team2's color to a different color if they're the same
-      const colors = ['#FF0000', '#0000FF', '#00FF00', '#FFFF00', '#FF00FF', '#00FFFF'];
-      const currentColor = this.team1.color;
-      const availableColors = colors.filter(color => color !== currentColor);
-      this.team2.color = availableColors[0] || '#0000FF';
-    }
-  }
-
-  private initializePlayerPositions(): void {
-    if (!this.team1 || !this.team2) return;
-    
-    // Realistic formation templates with proper tactical positioning
-    // defX/midX/fwdX = depth from own goal (0=goal, 1=opponent goal)
-    // defSpread/midSpread/fwdSpread = vertical spread (0-1 as fraction of field height)
-    // ENSURE minimum 30% gap between each line for clear visual separation
-    const formations = [
-      // 4-3-3: Balanced formation with strong midfield control
-      { name: '4-3-3', defX: 0.20, midX: 0.50, fwdX: 0.78, defSpread: 0.58, midSpread: 0.42, fwdSpread: 0.52 },
-      
-      // 4-4-2: Classic structured formation
-      { name: '4-4-2', defX: 0.20, midX: 0.50, fwdX: 0.78, defSpread: 0.58, midSpread: 0.62, fwdSpread: 0.28 },
-      
-      // 3-5-2: Midfield dominance with wing backs
-      { name: '3-5-2', defX: 0.18, midX: 0.50, fwdX: 0.78, defSpread: 0.42, midSpread: 0.68, fwdSpread: 0.28 },
-      
-      // 4-2-3-1: Possession-based with playmaker (defensive mid deep, attacking mid high)
-      { name: '4-2-3-1', defX: 0.20, midX: 0.38, fwdX: 0.75, defSpread: 0.58, midSpread: 0.50, fwdSpread: 0.15 },
-      
-      // 3-4-3: Attacking formation with width
-      { name: '3-4-3', defX: 0.18, midX: 0.48, fwdX: 0.78, defSpread: 0.42, midSpread: 0.60, fwdSpread: 0.55 },
-      
-      // 5-3-2: Defensive/counter-attacking formation
-      { name: '5-3-2', defX: 0.20, midX: 0.50, fwdX: 0.78, defSpread: 0.65, midSpread: 0.42, fwdSpread: 0.28 },
-      
-      // 4-1-4-1: Defensive with lone striker
-      { name: '4-1-4-1', defX: 0.20, midX: 0.50, fwdX: 0.80, defSpread: 0.58, midSpread: 0.60, fwdSpread: 0.10 },
-      
-      // 3-4-2-1: Creative attacking with playmakers
-      { name: '3-4-2-1', defX: 0.18, midX: 0.45, fwdX: 0.75, defSpread: 0.42, midSpread: 0.58, fwdSpread: 0.12 },
-      
-      // 4-2-2-2: Direct attacking with twin strikers
-      { name: '4-2-2-2', defX: 0.20, midX: 0.42, fwdX: 0.75, defSpread: 0.58, midSpread: 0.48, fwdSpread: 0.30 },
-      
-      // 4-5-1: Defensive with compact midfield
-      { name: '4-5-1', defX: 0.20, midX: 0.50, fwdX: 0.80, defSpread: 0.58, midSpread: 0.68, fwdSpread: 0.10 }
-    ];
-    
-    const placeTeam = (team: Team, left: boolean) => {
-      const W = environment.gameSettings.fieldWidth;
-      const H = environment.gameSettings.fieldHeight;
-      
-      // Pick a random formation for this team
-      const formation = formations[Math.floor(this.rand() * formations.length)];
-      
-      // Separate players by role
-      const gk = team.players.filter(p => p.role === 'goalkeeper');
-      const defs = team.players.filter(p => p.role === 'defender');
-      const mids = team.players.filter(p => p.role === 'midfielder');
-      const fwds = team.players.filter(p => p.role === 'forward');
-      
-      console.log(`📊 Team ${team.name}: GK=${gk.length}, DEF=${defs.length}, MID=${mids.length}, FWD=${fwds.length}`);
-      
-      // Helper to position a line of players with CLEAR horizontal separation
-      const assignLine = (arr: Player[], depth: number, spread: number, lineName: string) => {
-        if (arr.length === 0) {
-          console.log(`⚠️ ${lineName} line is EMPTY!`);
-          return;
-        }
-        
-        // For left team (attacking right): depth 0 = own goal (x=0), depth 1 = opponent goal (x=W)
-        // For right team (attacking left): depth 0 = own goal (x=W), depth 1 = opponent goal (x=0)
-        // So: left uses depth directly, right uses (1-depth) to mirror
-        const adjustedDepth = left ? depth : (1 - depth);
-        const actualX = adjustedDepth * W;
-        console.log(`➡️ Positioning ${lineName}: ${arr.length} players at X=${actualX.toFixed(0)} (depth=${depth}, side=${left ? 'LEFT' : 'RIGHT'})`);
-        
-        arr.forEach((p, i) => {
-          // Calculate position in line (from -0.5 to +0.5)
-          const rel = arr.length === 1 ? 0 : (i / (arr.length - 1) - 0.5);
-          // Vertical position with spread
-          const y = H / 2 + rel * spread * H;
-          // Horizontal position - EXACT depth for clear line visibility
-          p.position.x = actualX;
-          p.position.y = Math.max(40, Math.min(H - 40, y));
-          console.log(`   Player ${p.name}: (${p.position.x.toFixed(0)}, ${p.position.y.toFixed(0)})`);
-        });
-      };
-      
-      // Position goalkeeper at goal line, centered
-      gk.forEach(p => { 
-        p.position.x = left ? W * 0.06 : W * 0.94; 
-        p.position.y = H / 2; 
-      });
-      
-      // Position the three outfield lines with DISTINCT horizontal positions
-      // NOTE: depth is relative to own goal (0 = at own goal, 1 = at opponent goal)
-      assignLine(defs, formation.defX, formation.defSpread, 'DEFENSE');   // Back line: ~20% from own goal
-      assignLine(mids, formation.midX, formation.midSpread, 'MIDFIELD');   // Middle line: ~50% from own goal
-      assignLine(fwds, formation.fwdX, formation.fwdSpread, 'FORWARD');   // Front line: ~75-82% from own goal
-      
-      // Ensure all players start in their own half
-      const mid = W / 2;
-      team.players.forEach(p => {
-        if (p.role !== 'goalkeeper') {
-          if (left && p.position.x > mid - 30) p.position.x = mid - 30;
-          if (!left && p.position.x < mid + 30) p.position.x = mid + 30;
-        }
-      });
-      
-      // Return the formation template name (shows tactical setup, not just player count)
-      return formation.name;
-    };
-    
-    // Each team gets a random formation template independently
-    const team1Formation = placeTeam(this.team1, true);
-    const team2Formation = placeTeam(this.team2, false);
-    
-    // Log formations clearly with template names
-    console.log(`🔷 ${this.team1.name} playing ${team1Formation} formation`);
-    console.log(`🔶 ${this.team2.name} playing ${team2Formation} formation`);
-    
-    // Store base positions for each player (their "home" position in formation)
-    [...this.team1.players, ...this.team2.players].forEach(p => { 
-      (p as any).basePosition = { x: p.position.x, y: p.position.y }; 
-    });
-  }
-
-  /** Expose current mutable team references (used by UI if needed) */
-  getTeams(): { team1: Team | null; team2: Team | null } {
-    return { team1: this.team1, team2: this.team2 };
-  }
-
-  private findKickoffPlayer(team: Team, fieldWidth: number, fieldHeight: number): Player | null {
-    return team.players.find(p => p.role === 'forward') || team.players[0] || null;
-  }
-
-  private findPlayer(playerId: string): Player | null {
-    const allPlayers = [...(this.team1?.players || []), ...(this.team2?.players || [])];
-    return allPlayers.find(p => p.id === playerId) || null;
-  }
-
-  private handleGameEvents(): void {
-    const gs = this.gameState$.value;
-    if (!gs.currentBallOwner || this.pendingPass) return;
-    const owner = this.findPlayer(gs.currentBallOwner);
-    if (!owner) return;
-    const dir = this.isTeam1(owner) ? 1 : -1;
-    const team = this.isTeam1(owner) ? this.team1! : this.team2!;
-    const mates = team.players.filter(p => p.id !== owner.id);
-    if (!mates.length) return;
-    
-    // Shooting chance when in attacking position
-    const goalX = dir === 1 ? this.W : 0;
-    const distToGoal = Math.abs(goalX - owner.position.x);
-    const centerY = this.H / 2;
-    const yOffset = Math.abs(owner.position.y - centerY);
-    
-    // More aggressive shooting: players shoot when they have a reasonable chance
-    let shootChance = 0;
-    
-    // Increased shooting range and base probability
-    if (distToGoal < 300) {
-      // Base shooting chance starts higher
-      shootChance = 0.15;
-      
-      // Bonus for being closer to goal (up to +0.25)
-      const distanceBonus = Math.max(0, (300 - distToGoal) / 1200);
-      shootChance += distanceBonus;
-      
-      // Bonus for being more central (up to +0.15)
-      const angleBonus = Math.max(0, (150 - yOffset) / 1000);
-      shootChance += angleBonus;
-      
-      // Role multipliers
-      if (owner.role === 'forward') {
-        shootChance *= 1.8; // Forwards are very eager to shoot
-      } else if (owner.role === 'midfielder') {
-        shootChance *= 1.3; // Midfielders take shots when opportunity arises
-      } else {
-        shootChance *= 0.7; // Defenders are more cautious
-      }
-      
-      // Extra bonus when very close (inside the box ~100 units)
-      if (distToGoal < 100 && yOffset < 100) {
-        shootChance += 0.2;
+  private startLoop(): void {
+    this.lastFrameTime = performance.now();
+    this.accumulatorMs = 0;
+    const loop = (frameTime: number) => {
+      const delta = Math.min(this.maxFrameDeltaMs, Math.max(0, frameTime - this.lastFrameTime));
+      this.lastFrameTime = frameTime;
+      this.accumulatorMs += delta;
+
+      // Run whole fixed ticks only; the remainder carries into the next frame
+      while (this.accumulatorMs >= this.engine.tickMs) {
+        this.accumulatorMs -= this.engine.tickMs;
+        this.engine.step();
+        this.recorder?.capture(this.engine.state, this.engine.now());
+      }
+
+      if (this.engine.isFinished()) {
+        this.animationFrameId = null;
+        this.finishRecording();
+        return;
       }
-    }
-    
-    if (shootChance > 0 && this.rand() < shootChance) {
-      this.takeShot(owner, goalX, centerY);
-      return;
-    }
-    
-    // Pass decision respecting cooldown
-    const now = Date.now();
-    if (now - this.lastPassTime < this.passCooldownMs) return;
-    this.lastPassTime = now;
-    const forward: Player[] = []; const lateral: Player[] = []; const back: Player[] = [];
-    mates.forEach(m => {
-      const dx = (m.position.x - owner.position.x) * dir;
-      if (dx > 40) forward.push(m); else if (Math.abs(dx) <= 40) lateral.push(m); else back.push(m);
-    });
-    const candidate = (forward.length ? this.shuffle(forward)[0] : (lateral.length ? this.shuffle(lateral)[0] : this.shuffle(back)[0]));
-    if (!candidate) return;
-    this.initiatePass(owner, candidate);
-  }
-
-  private rand(): number {
-    this.rngState = (this.rngState * 1664525 + 1013904223) % Math.pow(2, 32);
-    return this.rngState / Math.pow(2, 32);
-  }
-
-  private get W(): number {
-    return environment.gameSettings.fieldWidth;
-  }
-
-  private get H(): number {
-    return environment.gameSettings.fieldHeight;
-  }
-
-  // -------------------------------------------------
-  // Advanced helpers (passes, shots, offside, goals)
-  // -------------------------------------------------
-  private initiatePass(passer: Player, target: Player): void {
-    const startX = passer.position.x; const startY = passer.position.y;
-    const endX = target.position.x; const endY = target.position.y;
-    const dist = Math.hypot(endX - startX, endY - startY);
-    const speed = environment.gameSettings.speed.passSpeed;
-    const duration = Math.max(200, (dist / speed) * 1000);
-    // Interception pre-check
-    const opponents = this.isTeam1(passer) ? this.team2!.players : this.team1!.players;
-    const arrivalTime = dist / speed;
-    const interceptor = this.findInterceptor(startX, startY, endX, endY, opponents, arrivalTime, environment.gameSettings.speed.playerBase);
-    if (interceptor && Date.now() > this.restartGraceUntil) {
-      // Emit attempted pass first, then interception
-      this.emitEvent('pass', this.teamOfPlayer(passer).name, passer.name, undefined, { startX, startY, endX, endY, subtype: this.classifyPassType(passer, target), result: 'intercepted', role: passer.role });
-      this.emitEvent('interception', this.teamOfPlayer(interceptor).name, interceptor.name, undefined, { startX, startY, endX: interceptor.position.x, endY: interceptor.position.y, result: 'intercepted', subtype: 'interception', role: interceptor.role });
-      this.setBallOwner(interceptor);
-      this.lastTouchTeam = this.isTeam1(interceptor) ? 'team1' : 'team2';
-      return;
-    }
-    this.pendingPass = {
-      passer, target, startX, startY, endX, endY,
-      startTime: Date.now(), duration,
-      type: this.classifyPassType(passer, target)
+      this.animationFrameId = requestAnimationFrame(loop);
     };
-    this.gameState$.next({ ...this.gameState$.value, currentBallOwner: null });
-    this.emitEvent('pass', this.teamOfPlayer(passer).name, passer.name, undefined, { startX, startY, endX, endY, subtype: this.classifyPassType(passer, target), result: 'attempt', role: passer.role });
-    this.checkOffsideOnPass(passer, target);
-    this.lastTouchTeam = this.isTeam1(passer) ? 'team1' : 'team2';
-  }
-
-  private takeShot(shooter: Player, goalX: number, goalY: number): void {
-    const startX = shooter.position.x; const startY = shooter.position.y;
-    const endX = goalX + (this.rand() - 0.5) * 30; const endY = goalY + (this.rand() - 0.5) * 50;
-    const dist = Math.hypot(endX - startX, endY - startY);
-    const speed = environment.gameSettings.speed.shotSpeed;
-    const duration = Math.max(180, (dist / speed) * 1000);
-    const xg = this.estimateSimpleXG(dist);
-    this.pendingPass = { passer: shooter, target: shooter, startX, startY, endX, endY, startTime: Date.now(), duration, type: 'shot', shot: true, xg };
-    this.gameState$.next({ ...this.gameState$.value, currentBallOwner: null });
-    this.emitEvent('shot', this.teamOfPlayer(shooter).name, shooter.name, undefined, { startX, startY, endX, endY, xg, subtype: 'shot_attempt', result: 'attempt', role: shooter.role });
-    this.lastShooter = shooter;
-    this.lastTouchTeam = this.isTeam1(shooter) ? 'team1' : 'team2';
-  }
-
-  private classifyPassType(from: Player, to: Player): string {
-    const d = Math.hypot(from.position.x - to.position.x, from.position.y - to.position.y);
-    if (d < 120) return 'short_pass'; if (d < 260) return 'medium_pass'; return 'long_pass';
-  }
-  private estimateSimpleXG(distance: number): number {
-    const scale = environment.gameSettings.xgTuning?.distanceScale ?? 150;
-    const v = 1 / (1 + Math.exp((distance - scale) / 85));
-    return Math.min(0.95, Math.max(0.02, v));
-  }
-
-  private isGoal(x: number, y: number): boolean {
-    const apertureHalf = (environment.gameSettings.goalWidthM * (this.H / environment.gameSettings.pitchWidthM)) / 2;
-    if (y < this.H / 2 - apertureHalf || y > this.H / 2 + apertureHalf) return false;
-    return x <= 4 || x >= this.W - 4;
-  }
-
-  private scoreGoal(scorer: Player): void {
-    const gs = this.gameState$.value;
-    const score = { ...gs.score };
-    const scoringTeamIsTeam1 = this.isTeam1(scorer);
-    if (scoringTeamIsTeam1) score.team1++; else score.team2++;
-    
-    this.emitEvent('goal', this.teamOfPlayer(scorer).name, scorer.name, undefined, { startX: scorer.position.x, startY: scorer.position.y, endX: scorer.position.x, endY: scorer.position.y, result: 'goal', role: scorer.role });
-    this.pendingPass = null;
-    
-    // Reset all players to their base formation positions
-    const allPlayers = [...this.team1!.players, ...this.team2!.players];
-    allPlayers.forEach(p => {
-      const basePos = (p as any).basePosition;
-      if (basePos) {
-        p.position.x = basePos.x;
-        p.position.y = basePos.y;
-      }
-    });
-    
-    // Team that conceded gets the kickoff
-    const kickoffTeam = scoringTeamIsTeam1 ? this.team2! : this.team1!;
-    const kickoffPlayer = kickoffTeam.players.find(p => p.role === 'forward') || kickoffTeam.players[0];
-    
-    if (kickoffPlayer) {
-      // Place kickoff player at exact center of field
-      const centerX = this.W / 2;
-      const centerY = this.H / 2;
-      kickoffPlayer.position.x = centerX;
-      kickoffPlayer.position.y = centerY;
-      
-      console.log(`⚽ KICKOFF after goal: ${kickoffPlayer.name} at center (${centerX}, ${centerY})`);
-      
-      // Lock possession briefly for kickoff
-      this.possessionLockOwner = kickoffPlayer.id;
-      this.possessionLockUntil = Date.now() + 800;
-      
-      this.gameState$.next({ 
-        ...gs, 
-        score, 
-        ball: { x: centerX, y: centerY, vx: 0, vy: 0 }, 
-        currentBallOwner: kickoffPlayer.id 
-      });
-      
-      this.emitEvent('kickoff', kickoffTeam.name, kickoffPlayer.name, `${kickoffTeam.name} kicks off after conceding.`, { 
-        startX: centerX, 
-        startY: centerY, 
-        endX: centerX, 
-        endY: centerY, 
-        result: 'restart', 
-        subtype: 'kickoff' 
-      });
-    } else {
-      // Fallback: just reset ball to center
-      this.gameState$.next({ 
-        ...gs, 
-        score, 
-        ball: { x: this.W / 2, y: this.H / 2, vx: 0, vy: 0 }, 
-        currentBallOwner: null 
-      });
-    }
-    
-    this.restartGraceUntil = Date.now() + 1500;
-  }
-
-  private getSecondLastDefenderX(defenders: Player[], dir: number): number {
-    if (!defenders.length) return dir === 1 ? 0 : this.W;
-    const xs = defenders.map(d => d.position.x).sort((a, b) => a - b);
-    return dir === 1 ? (xs[xs.length - 2] ?? xs[0]) : (xs[1] ?? xs[xs.length - 1]);
-  }
-
-  private checkOffsideOnPass(passer: Player, receiver: Player): void {
-    const isTeam1Passer = this.isTeam1(passer);
-    const defenders = (isTeam1Passer ? this.team2 : this.team1)?.players.filter(p => p.role !== 'goalkeeper') || [];
-    const dir = isTeam1Passer ? 1 : -1;
-    const secondLast = this.getSecondLastDefenderX(defenders, dir);
-    const inOppHalf = isTeam1Passer ? receiver.position.x > this.W / 2 : receiver.position.x < this.W / 2;
-    const aheadBall = isTeam1Passer ? receiver.position.x > passer.position.x : receiver.position.x < passer.position.x;
-    const aheadDef = isTeam1Passer ? receiver.position.x > secondLast : receiver.position.x < secondLast;
-    if (inOppHalf && aheadBall && aheadDef) {
-      this.emitEvent('offside', this.teamOfPlayer(passer).name, receiver.name, undefined, { startX: passer.position.x, startY: passer.position.y, endX: receiver.position.x, endY: receiver.position.y, result: 'whistle', subtype: 'offside' });
-      this.pendingPass = null;
-      const restartX = passer.position.x - 30 * dir;
-      const restartY = passer.position.y;
-      const defendingTeam = isTeam1Passer ? this.team2! : this.team1!;
-      const taker = defendingTeam.players.find(p => p.role === 'defender') || defendingTeam.players[0];
-      this.gameState$.next({ ...this.gameState$.value, ball: { x: restartX, y: restartY, vx: 0, vy: 0 }, currentBallOwner: taker.id });
-      this.restartGraceUntil = Date.now() + 1500;
-    }
-  }
-
-  // ---------- Advanced helpers (restarts, interception, fouls) ----------
-  private performCorner(team: Team, side: 'left' | 'right', quadrant: 'top' | 'bottom'): void {
-    const W = this.W; const H = this.H;
-    const x = side === 'left' ? 30 : W - 30;
-    const y = quadrant === 'top' ? 30 : H - 30;
-    let taker = team.players[0]; let best = Infinity;
-    team.players.forEach(p => { const d = Math.hypot(p.position.x - x, p.position.y - y); if (d < best) { best = d; taker = p; } });
-    this.gameState$.next({ ...this.gameState$.value, ball: { x, y, vx: 0, vy: 0 }, currentBallOwner: taker.id });
-    this.emitEvent('corner', team.name, taker.name, undefined, { startX: x, startY: y, endX: x, endY: y, result: 'restart', subtype: 'corner_kick', role: taker.role });
-    this.restartGraceUntil = Date.now() + 1200;
-    this.lastTouchTeam = this.isTeam1(taker) ? 'team1' : 'team2';
-  }
-
-  private performGoalKick(defTeam: 'team1' | 'team2', side: 'left' | 'right'): void {
-    const W = this.W; const H = this.H; const team = defTeam === 'team1' ? this.team1! : this.team2!;
-    const x = side === 'left' ? 60 : W - 60; const y = H / 2 + (this.rand() - 0.5) * 80;
-    const keeper = team.players.find(p => p.role === 'goalkeeper') || team.players[0];
-    this.gameState$.next({ ...this.gameState$.value, ball: { x, y, vx: 0, vy: 0 }, currentBallOwner: keeper.id });
-    this.emitEvent('goal_kick', team.name, keeper.name, undefined, { startX: x, startY: y, endX: x, endY: y, result: 'restart', subtype: 'goal_kick', role: keeper.role });
-    this.restartGraceUntil = Date.now() + 1200;
-    this.lastTouchTeam = defTeam;
-  }
-
-  private handleThrowIn(x: number, y: number): void {
-    if (!this.team1 || !this.team2) return;
-    const H = this.H; const W = this.W;
-    const inY = y < H / 2 ? 30 : H - 30;
-    const inX = Math.max(40, Math.min(W - 40, x));
-    const lastId = this.recentOwners[this.recentOwners.length - 1];
-    const all = [...this.team1.players, ...this.team2.players];
-    const lastPlayer = all.find(p => p.id === lastId);
-    const throwTeam = lastPlayer ? (this.team1.players.includes(lastPlayer) ? this.team2! : this.team1!) : this.team1!;
-    let taker = throwTeam.players[0]; let best = Infinity;
-    throwTeam.players.forEach(p => { const d = Math.hypot(p.position.x - inX, p.position.y - inY); if (d < best) { best = d; taker = p; } });
-    this.gameState$.next({ ...this.gameState$.value, ball: { x: inX, y: inY, vx: 0, vy: 0 }, currentBallOwner: taker.id });
-    this.emitEvent('throw_in', throwTeam.name, taker.name, undefined, { startX: inX, startY: inY, endX: inX, endY: inY, result: 'restart', subtype: 'throw_in', role: taker.role });
-    this.restartGraceUntil = Date.now() + 1500;
-  }
-
-  private findInterceptor(x0: number, y0: number, x1: number, y1: number, opponents: Player[], ballArrival: number, baseSpeed: number): Player | null {
-    let best: Player | null = null; let bestLead = Infinity;
-    opponents.forEach(o => {
-      const t = this.paramAlongSegment(o.position.x, o.position.y, x0, y0, x1, y1);
-      const clamp = Math.max(0, Math.min(1, t));
-      const px = x0 + (x1 - x0) * clamp; const py = y0 + (y1 - y0) * clamp;
-      const corridorDist = Math.hypot(o.position.x - px, o.position.y - py);
-      // Only consider interception if very close to pass line
-      if (corridorDist > 20) return;
-      const oppSpeed = baseSpeed * (o.abilities?.speedFactor ?? 1) * 1.3; // slight speed boost for interception sprint
-      const travel = corridorDist / (oppSpeed + 0.01);
-      // Much stricter: need to arrive significantly before ball (50% of arrival time) and add random chance
-      if (travel < ballArrival * 0.5 && travel < bestLead && Math.random() < 0.3) { 
-        bestLead = travel; 
-        best = o; 
-      }
-    });
-    return best;
-  }
-  private paramAlongSegment(px: number, py: number, x0: number, y0: number, x1: number, y1: number): number {
-    const dx = x1 - x0; const dy = y1 - y0; const lenSq = dx * dx + dy * dy; if (!lenSq) return 0; return ((px - x0) * dx + (py - y0) * dy) / lenSq;
-  }
-
-  private maybeGenerateFoul(now: number): void {
-    if (!this.team1 || !this.team2) return;
-    if (now - this.lastFoulTime < this.foulCooldownMs) return;
-    const everyone = [...this.team1.players, ...this.team2.players];
-    const collisions: { offender: Player; team: Team }[] = [];
-    for (let i = 0; i < everyone.length; i++) {
-      for (let j = i + 1; j < everyone.length; j++) {
-        const a = everyone[i]; const b = everyone[j];
-        const sameTeam = (this.team1.players.includes(a) && this.team1.players.includes(b)) || (this.team2.players.includes(a) && this.team2.players.includes(b));
-        if (sameTeam) continue;
-        const d = Math.hypot(a.position.x - b.position.x, a.position.y - b.position.y);
-        if (d < 16) collisions.push({ offender: a, team: this.team1.players.includes(a) ? this.team1 : this.team2 });
-      }
-    }
-    if (collisions.length && this.rand() < 0.15) {
-      const pick = collisions[Math.floor(this.rand() * collisions.length)];
-      const cardRoll = this.rand();
-      const type = cardRoll > 0.93 ? 'yellow_card' : 'foul';
-      this.emitEvent(type, pick.team.name, pick.offender.name, undefined, { startX: pick.offender.position.x, startY: pick.offender.position.y, endX: pick.offender.position.x, endY: pick.offender.position.y, result: 'whistle', subtype: type, role: pick.offender.role });
-      this.lastFoulTime = now;
-    }
+    this.animationFrameId = requestAnimationFrame(loop);
   }
 
-  private setBallOwner(player: Player): void {
-    const gs = this.gameState$.value;
-    this.gameState$.next({ ...gs, currentBallOwner: player.id });
+  private finishRecording(): void {
+    if (!this.recorder) return;
+    this.recording$.next(this.recorder.finish(this.engine.state));
+    this.recorder = null;
   }
 
-  private mirrorSides(): void {
-    [...(this.team1?.players || []), ...(this.team2?.players || [])].forEach(p => {
-      p.position.x = this.W - p.position.x;
-      if ((p as any).basePosition) (p as any).basePosition.x = this.W - (p as any).basePosition.x;
-    });
+  private stopLoop(): void {
+    if (this.animationFrameId) cancelAnimationFrame(this.animationFrameId);
+    this.animationFrameId = null;
   }
-
-  private isTeam1(p: Player): boolean { return !!this.team1 && this.team1.players.includes(p); }
-  private teamOfPlayer(p: Player): Team { return this.isTeam1(p) ? this.team1! : this.team2!; }
-  private shuffle<T>(arr: T[]): T[] { const a = [...arr]; for (let i = a.length - 1; i > 0; i--) { const j = Math.floor(this.rand() * (i + 1)); [a[i], a[j]] = [a[j], a[i]]; } return a; }
-}
\ No newline at end of file
+}
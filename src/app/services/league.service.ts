@@ -0,0 +1,107 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { Team } from './team.service';
+import { LeagueSeason, Fixture, StandingRow } from '../engine/league';
+
+export interface LeagueView {
+  season: LeagueSeason;
+  standings: StandingRow[];
+  currentRound: number;
+  simulating: boolean;      // a headless batch is in progress
+  liveFixtureId: string | null;
+}
+
+/**
+ * League mode state for the UI. Fixtures are either simulated headless in small batches
+ * (one per macrotask so the page stays responsive) or watched live through GameEngineService.
+ */
+@Injectable({ providedIn: 'root' })
+export class LeagueService {
+  private view$ = new BehaviorSubject<LeagueView | null>(null);
+  private batchTimer: ReturnType<typeof setTimeout> | null = null;
+
+  getView(): Observable<LeagueView | null> {
+    return this.view$.asObservable();
+  }
+
+  get season(): LeagueSeason | null {
+    return this.view$.value?.season ?? null;
+  }
+
+  createSeason(teams: Team[], double: boolean, seed: number, duration: number): void {
+    this.cancelBatch();
+    const season = new LeagueSeason(teams, { double, seed, duration });
+    this.publish(season, { simulating: false, liveFixtureId: null });
+  }
+
+  close(): void {
+    this.cancelBatch();
+    this.view$.next(null);
+  }
+
+  /** Simulate the next unplayed fixture headless */
+  simulateNext(): void {
+    const view = this.view$.value;
+    const fixture = view?.season.nextFixture();
+    if (!view || !fixture || view.liveFixtureId) return;
+    view.season.simulateFixture(fixture);
+    this.publish(view.season);
+  }
+
+  /** Simulate every remaining fixture of the current round, or the whole season */
+  simulateBatch(scope: 'round' | 'season'): void {
+    const view = this.view$.value;
+    if (!view || view.simulating || view.liveFixtureId) return;
+    const round = view.season.currentRound();
+    const queue = view.season.fixtures.filter(f => !f.result && (scope === 'season' || f.round === round));
+    this.publish(view.season, { simulating: true });
+    const runOne = () => {
+      const fixture = queue.shift();
+      const current = this.view$.value;
+      if (!fixture || !current) {
+        this.batchTimer = null;
+        if (current) this.publish(current.season, { simulating: false });
+        return;
+      }
+      current.season.simulateFixture(fixture);
+      this.publish(current.season);
+      this.batchTimer = setTimeout(runOne, 0);
+    };
+    this.batchTimer = setTimeout(runOne, 0);
+  }
+
+  /** Mark a fixture as being watched live; the result arrives via reportLiveResult() */
+  beginLive(fixture: Fixture): void {
+    const view = this.view$.value;
+    if (!view || view.simulating) return;
+    this.publish(view.season, { liveFixtureId: fixture.id });
+  }
+
+  reportLiveResult(score: { team1: number; team2: number }): void {
+    const view = this.view$.value;
+    if (!view?.liveFixtureId) return;
+    view.season.recordResult(view.liveFixtureId, score.team1, score.team2);
+    this.publish(view.season, { liveFixtureId: null });
+  }
+
+  cancelLive(): void {
+    const view = this.view$.value;
+    if (view?.liveFixtureId) this.publish(view.season, { liveFixtureId: null });
+  }
+
+  private cancelBatch(): void {
+    if (this.batchTimer) clearTimeout(this.batchTimer);
+    this.batchTimer = null;
+  }
+
+  private publish(season: LeagueSeason, patch: Partial<Pick<LeagueView, 'simulating' | 'liveFixtureId'>> = {}): void {
+    const previous = this.view$.value;
+    this.view$.next({
+      season,
+      standings: season.standings(),
+      currentRound: season.currentRound(),
+      simulating: patch.simulating ?? previous?.simulating ?? false,
+      liveFixtureId: patch.liveFixtureId !== undefined ? patch.liveFixtureId : previous?.liveFixtureId ?? null,
+    });
+  }
+}
@@ -0,0 +1,156 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { Team } from './team.service';
+import { GameState } from '../engine/match-engine';
+import { MatchRecording, stateAtFrame, teamsAtFrame, upgradeRecording } from '../engine/match-recorder';
+
+export interface ReplayView {
+  recording: MatchRecording;
+  frameIndex: number;
+  frameCount: number;
+  playing: boolean;
+  speed: number;
+  team1: Team;
+  team2: Team;
+  gameState: GameState;
+}
+
+/**
+ * Plays back a MatchRecording on the canvas: play/pause, speed, scrubbing and jump-to-event.
+ * Playback never touches the engine; it only re-positions copies of the recorded teams.
+ */
+@Injectable({ providedIn: 'root' })
+export class ReplayService {
+  static readonly SPEEDS = [0.25, 0.5, 1, 2, 4, 8];
+  private static readonly EVENT_LEAD_IN_MS = 1500; // show the build-up when jumping to an event
+
+  private view$ = new BehaviorSubject<ReplayView | null>(null);
+  private animationFrameId: number | null = null;
+  private lastFrameTime = 0;
+  private cursorMs = 0;
+
+  getView(): Observable<ReplayView | null> {
+    return this.view$.asObservable();
+  }
+
+  load(recording: MatchRecording): void {
+    this.stopLoop();
+    if (!recording.frames.length) return;
+    const [team1, team2] = teamsAtFrame(recording, 0);
+    this.cursorMs = 0;
+    this.view$.next({
+      recording,
+      frameIndex: 0,
+      frameCount: recording.frames.length,
+      playing: false,
+      speed: 1,
+      team1,
+      team2,
+      gameState: stateAtFrame(recording, 0),
+    });
+  }
+
+  close(): void {
+    this.stopLoop();
+    this.view$.next(null);
+  }
+
+  play(): void {
+    const view = this.view$.value;
+    if (!view || view.playing) return;
+    // Restart from the beginning when play is pressed on the last frame
+    if (view.frameIndex >= view.frameCount - 1) this.cursorMs = 0;
+    this.render(this.frameAtCursor(view), true);
+    this.startLoop();
+  }
+
+  pause(): void {
+    const view = this.view$.value;
+    this.stopLoop();
+    if (view) this.render(view.frameIndex, false);
+  }
+
+  toggle(): void {
+    if (this.view$.value?.playing) this.pause(); else this.play();
+  }
+
+  setSpeed(speed: number): void {
+    const view = this.view$.value;
+    if (!view) return;
+    const clamped = Math.max(ReplayService.SPEEDS[0], Math.min(ReplayService.SPEEDS[ReplayService.SPEEDS.length - 1], speed));
+    this.view$.next({ ...view, speed: clamped });
+  }
+
+  seek(frameIndex: number): void {
+    const view = this.view$.value;
+    if (!view) return;
+    const index = Math.max(0, Math.min(view.frameCount - 1, Math.round(frameIndex)));
+    this.cursorMs = index * view.recording.tickMs;
+    this.render(index, view.playing);
+  }
+
+  seekToEvent(eventIndex: number): void {
+    const view = this.view$.value;
+    if (!view) return;
+    const frame = view.recording.eventFrames[eventIndex];
+    if (frame == null) return;
+    const leadIn = Math.round(ReplayService.EVENT_LEAD_IN_MS / view.recording.tickMs);
+    this.seek(Math.max(0, frame - leadIn));
+  }
+
+  /** Parse a downloaded match file; throws when the content is not a recording */
+  parse(json: string): MatchRecording {
+    const data = JSON.parse(json);
+    if (!data || ![1, 2].includes(data.version) || !Array.isArray(data.frames) || !Array.isArray(data.teams) || data.teams.length !== 2) {
+      throw new Error('Not a match recording file');
+    }
+    return upgradeRecording(data);
+  }
+
+  serialize(recording: MatchRecording): string {
+    return JSON.stringify(recording);
+  }
+
+  // -------------------------------------------------
+  // Playback loop
+  // -------------------------------------------------
+  private startLoop(): void {
+    this.lastFrameTime = performance.now();
+    const loop = (frameTime: number) => {
+      const view = this.view$.value;
+      if (!view) return;
+      this.cursorMs += (frameTime - this.lastFrameTime) * view.speed;
+      this.lastFrameTime = frameTime;
+      const index = this.frameAtCursor(view);
+      if (index >= view.frameCount - 1) {
+        this.animationFrameId = null;
+        this.render(view.frameCount - 1, false);
+        return;
+      }
+      this.render(index, true);
+      this.animationFrameId = requestAnimationFrame(loop);
+    };
+    this.animationFrameId = requestAnimationFrame(loop);
+  }
+
+  private stopLoop(): void {
+    if (this.animationFrameId) cancelAnimationFrame(this.animationFrameId);
+    this.animationFrameId = null;
+  }
+
+  private frameAtCursor(view: ReplayView): number {
+    return Math.min(view.frameCount - 1, Math.floor(this.cursorMs / view.recording.tickMs));
+  }
+
+  private render(frameIndex: number, playing: boolean): void {
+    const view = this.view$.value;
+    if (!view) return;
+    teamsAtFrame(view.recording, frameIndex, [view.team1, view.team2]);
+    this.view$.next({
+      ...view,
+      frameIndex,
+      playing,
+      gameState: stateAtFrame(view.recording, frameIndex, playing),
+    });
+  }
+}
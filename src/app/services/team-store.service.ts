@@ -0,0 +1,85 @@
+import { Injectable } from '@angular/core';
+import { Team, Player, TeamService } from './team.service';
+
+/** Team file as saved in localStorage and exported for download */
+export interface TeamFile {
+  version: 1;
+  teams: Team[];
+}
+
+/**
+ * Keeps an edited team pool between sessions (localStorage) and moves it in and out as JSON.
+ * Everything read back is validated, so a hand-edited file cannot break a match.
+ */
+@Injectable({ providedIn: 'root' })
+export class TeamStoreService {
+  private static readonly STORAGE_KEY = 'soccer-sim.teams';
+
+  constructor(private teamService: TeamService) {}
+
+  /** Saved pool, or null when nothing usable is stored */
+  load(): Team[] | null {
+    const raw = this.storage()?.getItem(TeamStoreService.STORAGE_KEY);
+    if (!raw) return null;
+    try {
+      return this.parse(raw);
+    } catch (err) {
+      console.warn('Ignoring saved teams:', err);
+      return null;
+    }
+  }
+
+  save(teams: Team[]): void {
+    this.storage()?.setItem(TeamStoreService.STORAGE_KEY, this.serialize(teams));
+  }
+
+  clear(): void {
+    this.storage()?.removeItem(TeamStoreService.STORAGE_KEY);
+  }
+
+  hasSaved(): boolean {
+    return !!this.storage()?.getItem(TeamStoreService.STORAGE_KEY);
+  }
+
+  serialize(teams: Team[]): string {
+    const file: TeamFile = { version: 1, teams: teams.map(t => this.strip(t)) };
+    return JSON.stringify(file, null, 2);
+  }
+
+  /** Parse a team file; throws with every validation problem when it cannot be used */
+  parse(json: string): Team[] {
+    const data = JSON.parse(json) as TeamFile;
+    if (!data || data.version !== 1 || !Array.isArray(data.teams) || !data.teams.length) {
+      throw new Error('Not a team file');
+    }
+    const teams = data.teams.map(t => this.strip(t));
+    const errors = [
+      ...teams.flatMap(t => this.teamService.validateTeam(t).errors.map(e => `${t.name || t.id}: ${e}`)),
+      ...this.teamService.validatePool(teams),
+    ];
+    if (errors.length) throw new Error(errors.join('\n'));
+    return teams;
+  }
+
+  private storage(): Storage | null {
+    return typeof localStorage === 'undefined' ? null : localStorage;
+  }
+
+  /** Only the editable fields; match positions are set again at kickoff */
+  private strip(team: Team): Team {
+    const player = (p: Player): Player => ({
+      id: p.id,
+      name: p.name,
+      role: p.role,
+      position: { x: 0, y: 0 },
+      abilities: p.abilities ? { ...p.abilities } : undefined,
+    });
+    return {
+      id: team.id,
+      name: team.name,
+      color: team.color,
+      players: (team.players ?? []).map(player),
+      bench: (team.bench ?? []).map(player),
+    };
+  }
+}
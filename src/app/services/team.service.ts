@@ -1,16 +1,19 @@
 import { Injectable } from '@angular/core';
+import { SeededRandom, resolveSeed } from '../engine/seeded-random';
+import { environment } from '../../environments/environment';
 
 export interface Team {
   id: string;
   name: string;
   color: string;
   players: Player[];
+  bench?: Player[]; // substitutes (teams saved before squads had benches have none)
 }
 
 export interface Player {
   id: string;
   name: string;
-  position: { x: number; y: number };
+  position: { x: number; y: number }; // pitch metres (see engine/pitch.ts)
   // Base formation anchor retained to keep team shape; movement logic oscillates around this
   basePosition?: { x: number; y: number };
   role: 'goalkeeper' | 'defender' | 'midfielder' | 'forward';
@@ -28,19 +31,24 @@ export interface PlayerAbilities {
   maxStamina: number;  // 60-100 (ceiling)
   speedFactor: number; // 0.8 - 1.2 multiplier over base speed
   agility: number;     // 0-100 – responsiveness & lateral quickness
+  // Goalkeepers only (absent for outfield players and in older saved teams)
+  reflexes?: number;     // 0-100 – shot stopping
+  handling?: number;     // 0-100 – holding shots and crosses instead of parrying them
+  distribution?: number; // 0-100 – accuracy of throws and kicks
 }
 
 export interface GameEvent {
   time: number;
-  type: 'goal' | 'foul' | 'substitution' | 'corner' | 'offside' | 'yellow_card' | 'red_card' | 'pass' | 'shot' | 'coin_toss' | 'kickoff' | 'throw_in' | 'tackle' | 'interception' | 'clearance' | 'goal_kick' | 'save' | 'penalty' | 'formation_change' | 'injury' | 'momentum' | 'weather_shift';
+  type: 'goal' | 'foul' | 'substitution' | 'corner' | 'offside' | 'yellow_card' | 'red_card' | 'pass' | 'shot' | 'coin_toss' | 'kickoff' | 'throw_in' | 'tackle' | 'interception' | 'clearance' | 'goal_kick' | 'save' | 'penalty' | 'free_kick' | 'formation_change' | 'injury' | 'momentum' | 'weather_shift';
   team: string;
   player: string;
   description: string;
-  displayTime?: string; // scaled match clock (e.g., 12:34)
-  realMinute?: number;  // corresponding real 45-min match minute (0-45)
+  displayTime?: string; // match clock label (e.g., 23', 45+2')
+  realMinute?: number;  // corresponding real match minute (0-90, up to 120 with extra time)
+  period?: number;      // 1 = first half, 2 = second half, 3 = extra time, 4 = penalty shootout
   // Extended analytics fields
-  startX?: number; // starting ball X coordinate (field units)
-  startY?: number; // starting ball Y coordinate
+  startX?: number; // starting ball X coordinate (pitch metres from the left goal line)
+  startY?: number; // starting ball Y coordinate (metres from the top touchline)
   endX?: number;   // ending / intended target X
   endY?: number;   // ending / intended target Y
   result?: string; // outcome classification (complete, intercepted, goal, saved, blocked, attempt)
@@ -49,15 +57,48 @@ export interface GameEvent {
   zoneStart?: string; // zone label for start (defensive_third, middle_third, attacking_third, left_flank, right_flank, central)
   zoneEnd?: string;   // zone label for end
   xg?: number;        // expected goal value (0-1) for shot-related events
-  pressure?: number;  // distance of nearest opponent at action time
+  pressure?: number;  // distance (m) of nearest opponent at action time
   facingError?: number; // angular difference between player facing and action direction (radians)
+  // xG model inputs on shot events (see engine/xg-model.ts); pressure and facingError are filled in too
+  shotType?: 'open_play' | 'header' | 'free_kick' | 'penalty';
+  shotDistance?: number; // metres from the shooter to the centre of the goal
+  shotAngle?: number;    // angle the goal mouth subtends at the shooter (radians)
+  keeperOffset?: number; // keeper's distance (m) from the shooter–goal line; absent for an empty net
   momentumIndex?: number; // attacking pressure indicator
+  playerOff?: string;     // substitution: the player replaced (player is the one coming on)
+}
+
+/** Problems found in an edited or imported team; errors block saving, warnings do not */
+export interface TeamValidation {
+  errors: string[];
+  warnings: string[];
 }
 
 @Injectable({
   providedIn: 'root'
 })
 export class TeamService {
+  /** Allowed PlayerAbilities values (stamina may also never exceed maxStamina) */
+  static readonly ABILITY_RANGES: Record<keyof PlayerAbilities, [number, number]> = {
+    passPower: [0, 100],
+    shotPower: [0, 100],
+    accuracy: [0, 100],
+    stamina: [0, 100],
+    maxStamina: [60, 100],
+    speedFactor: [0.8, 1.2],
+    agility: [0, 100],
+    reflexes: [0, 100],
+    handling: [0, 100],
+    distribution: [0, 100],
+  };
+  /** Abilities only goalkeepers carry; optional everywhere */
+  static readonly KEEPER_ABILITIES: (keyof PlayerAbilities)[] = ['reflexes', 'handling', 'distribution'];
+  static readonly STARTERS = 11;
+  static readonly MAX_BENCH = 7;
+  private static readonly PITCH_COLOR = '#237B22';
+  private static readonly MIN_PITCH_CONTRAST = 1.5; // below this a kit blends into the grass
+  private static readonly MIN_KIT_CONTRAST = 1.05;  // below this two kits are hard to tell apart
+
   private funnyTeamNames = [
     'Lightning Llamas', 'Crazy Coconuts', 'Flying Flamingos', 'Dancing Dragons',
     'Bouncing Bananas', 'Mighty Marshmallows', 'Sneaky Squirrels', 'Giggling Giraffes',
@@ -85,9 +126,14 @@ export class TeamService {
     '#FF8A80', '#80CBC4', '#81C784', '#FFB74D', '#F48FB1'
   ];
 
-  generateRandomTeams(): Team[] {
-    const shuffledNames = [...this.funnyTeamNames].sort(() => Math.random() - 0.5);
-    let shuffledColors = [...this.teamColors].sort(() => Math.random() - 0.5);
+  /**
+   * Generate the 12-team pool. The same seed always yields identical names, colors and abilities.
+   * Falls back to environment.gameSettings.randomSeed, then to a fresh random seed.
+   */
+  generateRandomTeams(seed: number = resolveSeed(environment.gameSettings.randomSeed)): Team[] {
+    const rng = new SeededRandom(seed);
+    const shuffledNames = rng.shuffle(this.funnyTeamNames);
+    let shuffledColors = rng.shuffle(this.teamColors);
     // Ensure first two colors are highly contrasting for visual clarity between teams
     shuffledColors = this.ensureContrastingFirstTwo(shuffledColors);
     
@@ -98,9 +144,15 @@ export class TeamService {
         id: `team_${i}`,
         name: shuffledNames[i],
         color: shuffledColors[i],
-        players: this.generatePlayers()
+        players: this.generatePlayers(rng, `team_${i}`)
       });
     }
+    // Benches are drawn after every starting XI so a seed keeps the line-ups it always had
+    teams.forEach(team => team.bench = this.generateBench(rng, team));
+    // Keeper abilities come last for the same reason
+    teams.forEach(team => [...team.players, ...team.bench!]
+      .filter(p => p.role === 'goalkeeper')
+      .forEach(keeper => this.drawKeeperAbilities(rng, keeper)));
     
     return teams;
   }
@@ -131,7 +183,7 @@ export class TeamService {
     return colors;
   }
 
-  private contrastRatio(a: string, b: string): number {
+  contrastRatio(a: string, b: string): number {
     const lumA = this.relativeLuminance(a);
     const lumB = this.relativeLuminance(b);
     const L1 = Math.max(lumA, lumB);
@@ -158,8 +210,87 @@ export class TeamService {
     };
   }
 
-  private generatePlayers(): Player[] {
-    const shuffledPlayerNames = [...this.funnyPlayerNames].sort(() => Math.random() - 0.5);
+  /**
+   * Check a team against the squad rules and documented ability ranges.
+   * A kit that is hard to tell from the pitch, or identical or too close in brightness to another
+   * team's in others, is a warning.
+   */
+  validateTeam(team: Team, others: Team[] = []): TeamValidation {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    if (!team.name?.trim()) errors.push('Team name is required.');
+    else if (team.name.length > 40) errors.push('Team name is longer than 40 characters.');
+    const validColor = /^#[0-9a-fA-F]{6}$/.test(team.color ?? '');
+    if (!validColor) errors.push('Kit color must be a hex color like #FF6B6B.');
+    const players = team.players ?? [];
+    const bench = team.bench ?? [];
+    if (players.length !== TeamService.STARTERS) errors.push(`A team needs ${TeamService.STARTERS} starting players (has ${players.length}).`);
+    const keepers = players.filter(p => p.role === 'goalkeeper').length;
+    if (keepers !== 1) errors.push(`The starting XI needs exactly one goalkeeper (has ${keepers}).`);
+    if (bench.length > TeamService.MAX_BENCH) errors.push(`At most ${TeamService.MAX_BENCH} substitutes (has ${bench.length}).`);
+
+    const roles = ['goalkeeper', 'defender', 'midfielder', 'forward'];
+    const seenIds = new Set<string>();
+    const seenNames = new Set<string>();
+    [...players, ...bench].forEach((p, i) => {
+      const label = p.name?.trim() || `Player ${i + 1}`;
+      if (!p.id) errors.push(`${label}: missing id.`);
+      else if (seenIds.has(p.id)) errors.push(`${label}: id ${p.id} is used twice.`);
+      seenIds.add(p.id);
+      if (!p.name?.trim()) errors.push(`Player ${i + 1}: name is required.`);
+      else if (seenNames.has(p.name.trim())) errors.push(`${label}: name is used twice (events are credited by name).`);
+      seenNames.add(p.name?.trim());
+      if (!roles.includes(p.role)) errors.push(`${label}: unknown role "${p.role}".`);
+      if (!p.abilities) {
+        errors.push(`${label}: abilities are missing.`);
+        return;
+      }
+      (Object.keys(TeamService.ABILITY_RANGES) as (keyof PlayerAbilities)[]).forEach(key => {
+        const [min, max] = TeamService.ABILITY_RANGES[key];
+        const value = p.abilities![key];
+        if (value == null && TeamService.KEEPER_ABILITIES.includes(key)) return;
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+          errors.push(`${label}: ${key} must be between ${min} and ${max}.`);
+        }
+      });
+      if (p.abilities.stamina > p.abilities.maxStamina) errors.push(`${label}: stamina cannot exceed maxStamina.`);
+    });
+
+    if (validColor) {
+      if (this.contrastRatio(team.color, TeamService.PITCH_COLOR) < TeamService.MIN_PITCH_CONTRAST) {
+        warnings.push('Kit color is hard to see on the pitch.');
+      }
+      others.filter(o => o.id !== team.id && /^#[0-9a-fA-F]{6}$/.test(o.color ?? '')).forEach(o => {
+        if (o.color.toLowerCase() === team.color.toLowerCase()) {
+          warnings.push(`Same kit as ${o.name}; the second team is recoloured when they meet.`);
+          return;
+        }
+        const ratio = this.contrastRatio(team.color, o.color);
+        if (ratio < TeamService.MIN_KIT_CONTRAST) warnings.push(`Kit is hard to tell apart from ${o.name} (contrast ${ratio.toFixed(2)}:1).`);
+      });
+    }
+    return { errors, warnings };
+  }
+
+  /** Pool-wide rules: team ids and player ids must be unique (ball ownership and recordings key on them) */
+  validatePool(teams: Team[]): string[] {
+    const errors: string[] = [];
+    const teamIds = new Set<string>();
+    const playerIds = new Map<string, string>();
+    teams.forEach(team => {
+      if (teamIds.has(team.id)) errors.push(`Team id ${team.id} is used twice.`);
+      teamIds.add(team.id);
+      [...(team.players ?? []), ...(team.bench ?? [])].forEach(p => {
+        const owner = playerIds.get(p.id);
+        if (owner && owner !== team.id) errors.push(`Player id ${p.id} appears in two teams.`);
+        playerIds.set(p.id, team.id);
+      });
+    });
+    return errors;
+  }
+
+  private generatePlayers(rng: SeededRandom, teamId: string): Player[] {
+    const shuffledPlayerNames = rng.shuffle(this.funnyPlayerNames);
     const roles: ('goalkeeper' | 'defender' | 'midfielder' | 'forward')[] = [
       'goalkeeper',
       'defender', 'defender', 'defender', 'defender',
@@ -167,34 +298,56 @@ export class TeamService {
       'forward', 'forward', 'forward'
     ];
 
-    return roles.map((role, index) => {
-      const baseSkill = () => Math.floor(50 + Math.random() * 50); // 50-100
-      const powerVariance = role === 'forward' ? 10 : role === 'midfielder' ? 0 : -5;
-      const speedVariance = role === 'forward' ? 0.1 : role === 'midfielder' ? 0.05 : role === 'defender' ? -0.05 : -0.1;
-      const passPower = Math.min(100, Math.max(30, baseSkill() + (role === 'midfielder' ? 5 : 0)));
-      const shotPower = Math.min(100, Math.max(35, baseSkill() + powerVariance));
-      const accuracy = Math.min(100, Math.max(40, baseSkill() + (role === 'forward' ? 5 : 0)));
-      const maxStamina = Math.floor(60 + Math.random() * 40); // 60-100
-      const agility = Math.min(100, Math.max(40, baseSkill() + (role === 'midfielder' ? 5 : role === 'forward' ? 8 : 0)));
-      const abilities: PlayerAbilities = {
-        passPower,
-        shotPower,
-        accuracy,
-        stamina: maxStamina,
-        maxStamina,
-        speedFactor: 1 + speedVariance + (Math.random() - 0.5) * 0.1,
-        agility
-      };
-      return {
-        id: `player_${index}`,
-        name: shuffledPlayerNames[index] || `Player ${index + 1}`,
-        position: { x: 0, y: 0 }, // Will be set during game initialization
-        role,
-        abilities
-      } as Player;
+    return roles.map((role, index) =>
+      this.generatePlayer(rng, `${teamId}_player_${index}`, shuffledPlayerNames[index] || `Player ${index + 1}`, role));
+  }
+
+  /** Substitutes: a spare keeper first, then cover for each line, with names unused by the starting XI */
+  private generateBench(rng: SeededRandom, team: Team): Player[] {
+    const size = Math.max(5, Math.min(7, environment.gameSettings.substitutions.benchSize));
+    const roles: Player['role'][] = ['goalkeeper', 'defender', 'midfielder', 'forward', 'defender', 'midfielder', 'forward'];
+    const taken = new Set(team.players.map(p => p.name));
+    const names = rng.shuffle(this.funnyPlayerNames.filter(n => !taken.has(n)));
+    return roles.slice(0, size).map((role, i) => {
+      const index = team.players.length + i;
+      return this.generatePlayer(rng, `${team.id}_player_${index}`, names[i] || `Player ${index + 1}`, role);
     });
   }
 
+  private generatePlayer(rng: SeededRandom, id: string, name: string, role: Player['role']): Player {
+    const baseSkill = () => Math.floor(50 + rng.next() * 50); // 50-100
+    const powerVariance = role === 'forward' ? 10 : role === 'midfielder' ? 0 : -5;
+    const speedVariance = role === 'forward' ? 0.1 : role === 'midfielder' ? 0.05 : role === 'defender' ? -0.05 : -0.1;
+    const passPower = Math.min(100, Math.max(30, baseSkill() + (role === 'midfielder' ? 5 : 0)));
+    const shotPower = Math.min(100, Math.max(35, baseSkill() + powerVariance));
+    const accuracy = Math.min(100, Math.max(40, baseSkill() + (role === 'forward' ? 5 : 0)));
+    const maxStamina = Math.floor(60 + rng.next() * 40); // 60-100
+    const agility = Math.min(100, Math.max(40, baseSkill() + (role === 'midfielder' ? 5 : role === 'forward' ? 8 : 0)));
+    const abilities: PlayerAbilities = {
+      passPower,
+      shotPower,
+      accuracy,
+      stamina: maxStamina,
+      maxStamina,
+      speedFactor: 1 + speedVariance + (rng.next() - 0.5) * 0.1,
+      agility
+    };
+    return {
+      id, // unique across teams (ball ownership & recordings key on it)
+      name,
+      position: { x: 0, y: 0 }, // Will be set during game initialization
+      role,
+      abilities
+    } as Player;
+  }
+
+  private drawKeeperAbilities(rng: SeededRandom, keeper: Player): void {
+    const baseSkill = () => Math.floor(50 + rng.next() * 50); // 50-100
+    keeper.abilities!.reflexes = baseSkill();
+    keeper.abilities!.handling = baseSkill();
+    keeper.abilities!.distribution = Math.min(100, Math.max(30, baseSkill() - 10));
+  }
+
   getRandomEventDescription(eventType: string, playerName: string, teamName: string): string {
     const events = {
       goal: [
@@ -235,6 +388,16 @@ export class TeamService {
         `The referee shows yellow to ${playerName}!`,
         `${playerName} needs to be more careful!`
       ],
+      red_card: [
+        `Red card! ${playerName} is sent off!`,
+        `${playerName} has to go – ${teamName} are down a player!`,
+        `The referee reaches for red – ${playerName} is off!`
+      ],
+      free_kick: [
+        `Free kick to ${teamName}.`,
+        `${playerName} stands over the free kick.`,
+        `${teamName} restart with a free kick.`
+      ],
       pass: [
         `${playerName} completes a tidy pass.`,
         `${playerName} finds a teammate in space.`,
@@ -278,6 +441,21 @@ export class TeamService {
         `Penalty awarded! ${playerName} to take it for ${teamName}.`,
         `Spot kick given – ${playerName} steps up!`,
         `Huge chance: penalty for ${teamName}! ${playerName} prepares.`
+      ],
+      substitution: [
+        `${playerName} comes on for ${teamName}.`,
+        `Change for ${teamName}: ${playerName} is on.`,
+        `Fresh legs – ${playerName} enters the fray.`
+      ],
+      injury: [
+        `${playerName} is down and needs treatment.`,
+        `Worrying moment for ${teamName} – ${playerName} is hurt.`,
+        `${playerName} limps off the pitch.`
+      ],
+      formation_change: [
+        `${teamName} change their shape.`,
+        `Tactical switch from ${teamName}.`,
+        `${teamName} reorganise on the touchline's instructions.`
       ]
     };
 
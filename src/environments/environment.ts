@@ -1,9 +1,9 @@
 export const environment = {
   production: false,
   gameSettings: {
-    // With 45s duration we map 1 simulation second to 1 real match minute (single half)
-    defaultGameDuration: 45, // seconds (represents 45 real minutes)
-    fieldWidth: 900,
+    // Match duration is split into two halves; each half is shown as 45 match minutes on the clock
+    defaultGameDuration: 45, // seconds of play (represents 90 real minutes)
+    fieldWidth: 900,   // canvas size (px); the pitch is drawn to fit, gameplay runs in metres
     fieldHeight: 600,
     pitchLengthM: 105, // meters (touchline length)
     pitchWidthM: 68,   // meters (goal to goal width)
@@ -12,26 +12,125 @@ export const environment = {
   // penaltyAreaDepthM already declared above; remove duplicate entry
     penaltySpotDistM: 11,
     centerCircleRadiusM: 9.15,
-    speed: {
-      playerBase: 5.5,       // faster player movement (was 4.0)
-      chaseExtra: 2.8,       // aggressive ball pursuit (was 2.0)
-      passSpeed: 32,         // faster passes (was 24)
-      shotSpeed: 38,         // powerful shots (was 30)
-      maxBallSpeed: 45,      // higher max speed (was 36)
-      frictionPossessed: 0.991, // smooth dribbling (was 0.993)
-      frictionFree: 0.984    // ball slows naturally (was 0.986)
-    },
-    playerSize: 12,
+    speed: { // metres per simulated second; frictionFree is the share of a loose ball's speed kept after one second
+      playerBase: 9.6,
+      passSpeed: 3.7,
+      shotSpeed: 20, // a real strike: shots fly ballistically and can clear the bar (see ballFlight)
+      frictionFree: 0.38
+    },
+    playerSize: 12, // drawn size (px)
     ballSize: 8,
+    ballFlight: {
+      gravity: 9.81,       // m/s²
+      restitution: 0.55,   // share of vertical speed kept in a bounce
+      controlHeight: 1.5,  // highest ball (m) a player can bring down with feet or chest
+      headerHeight: 2.6,   // highest ball (m) an outfield player can reach with a jump
+      keeperReach: 2.8,    // highest ball (m) a keeper can claim
+      longPassApex: 4,     // peak (m) of a 0 m lofted pass; longer ones go higher (+1 m per 12 m)
+      crossApex: 3.5,      // typical peak (m) of a cross, arriving at head height
+      curlM: 2             // sideways bend (m) at mid-flight of a curled cross or free kick
+    },
     experimentalBounce: false, // when true, ball will bounce off boundaries instead of triggering throw-ins (non-official soccer)
     decisionIntervalMs: 60, // AI decision cadence (ms) - faster decisions (was 85)
+    simTickMs: 16.67, // fixed simulation step (ms); real-time driver runs as many steps as wall time allows
+    halftimeBreakMs: 5000, // simulated half-time pause (players walk back to their mirrored positions)
+    knockout: {
+      extraTimeFraction: 0.33, // extra time as a share of match duration (30 of 90 minutes)
+      shootoutKicks: 5,        // kicks per side before sudden death
+      kickIntervalMs: 2200     // pause between shootout kicks
+    },
     randomSeed: null as number | null, // set to a number for deterministic simulation
-    ballDecayFree: 0.985, // decay applied each frame when ball free (overrides frictionFree if set)
-    ballDecayPossessed: 0.994, // decay when dribbling (matches frictionPossessed by default)
-    weather: 'clear' as 'clear' | 'rain' | 'heat', // affects stamina & friction
+    weather: 'clear' as 'clear' | 'rain' | 'heat', // starting conditions: rain changes ball physics and first touches, heat drains stamina
+    weatherEffects: {
+      rain: {
+        frictionFree: 0.52,        // loose ball skids further on a wet surface
+        passSpeedMultiplier: 1.08, // passes zip off the wet grass
+        firstTouchMiss: 0.15       // chance a receiver (agility 50) fumbles the first touch
+      },
+      shiftChance: 0.2 // chance per match that the weather turns once, at a random point (weather_shift event)
+    },
+    stamina: {
+      sprintDrain: 1.0,      // stamina lost per match minute at full sprint (scales with effort squared)
+      pressDrain: 0.4,       // extra per match minute while pressing the ball
+      dribbleDrain: 0.3,     // extra per match minute while dribbling
+      recovery: 1.0,         // regained per match minute while walking or holding shape
+      heatMultiplier: 1.4,   // drain multiplier when weather is 'heat'
+      halftimeRecovery: 0.3  // share of the missing stamina restored at half-time
+    },
+    movement: {
+      turnRateDeg: 720,      // degrees per second an agility-50 player turns (agility 100 turns 40% faster)
+      kickWindupMs: 120,     // plant-and-strike time before a pass or shot leaves the foot
+      facingToleranceDeg: 30, // off-line by less than this counts as facing the action
+      offFacingPace: 0.5,    // share of their pace a player keeps running sideways or backwards
+      dashShare: 0.6         // moving faster than this share of base speed is a sprint (dash mode)
+    },
+    tackling: {
+      range: 1.6,         // metres between presser and dribbler to attempt a challenge
+      attemptChance: 0.25, // per decision tick while in range
+      baseWin: 0.45,      // win chance between evenly matched players
+      skillWeight: 0.8,   // how much the agility/speed/stamina gap shifts the win chance
+      foulChance: 0.25,   // share of lost challenges that are fouls (higher when tired)
+      cooldownMs: 1200,   // before the same player can challenge again
+      lockMs: 500         // possession protected after winning the ball
+    },
+    discipline: {
+      yellowChance: 0.1,        // share of contact fouls that are booked
+      tackleYellowChance: 0.25, // mistimed tackles are booked more often
+      redChance: 0.012          // straight red (serious foul play); two yellows also mean a red
+    },
+    shooting: {
+      rangeM: 50,       // open-play shots are considered within this distance of goal
+      baseChance: 0.3,  // chance per decision of shooting from range (forwards ×1.8, midfielders ×1.3, defenders ×0.7)
+      xgWeight: 2,      // added to that chance per unit of xG, so better chances are taken more readily
+      sureXg: 0.25,     // at or above this xG the carrier always shoots
+      missScale: 0.4,   // scales how far shots stray wide, high or short (lower puts more on target)
+      keeperSave: 0.1,  // base save chance against an on-target shot for an average keeper (reach and xG adjust it)
+      carryRangeM: 60,  // an unchallenged carrier this close to goal runs at it rather than passing...
+      carryRoomM: 3     // ...while no opponent is within this distance
+    },
+    freeKicks: {
+      wallRangeM: 35,  // defenders build a wall for free kicks within this distance of goal
+      shootRangeM: 30  // typical direct shooting range (stretched for powerful strikers)
+    },
+    corners: {
+      shortChance: 0.2,       // played short to a team-mate by the flag instead of crossed
+      inswingShare: 0.5,      // of crossed corners, the share curled in towards goal (the rest swing away)
+      attackerDuelShare: 0.4  // an evenly matched attacker's chance of winning the header against a marker
+    },
+    offside: {
+      levelToleranceM: 0.3, // within this of the offside line a receiver counts as level (onside)
+      showLines: false      // draw both sides' offside lines on the pitch by default
+    },
+    goalkeeping: {
+      restDepthM: 2,     // keeper's distance off the line while the ball is far away...
+      maxDepthM: 5,      // ...and when narrowing the angle on a shooter close in
+      narrowFromM: 30,   // ball distance from goal at which the keeper starts coming off the line
+      sweepRangeM: 28,   // rushes out to loose balls and through balls this far from goal when first to them
+      claimRangeM: 5,    // comes for crosses landing this close...
+      claimChance: 0.4,  // ...and holds this share of them with average (50) handling
+      holdMs: 1500,      // time with the ball before distributing
+      throwRangeM: 35,   // longest throw
+      freeSpaceM: 8      // a team-mate this far from the nearest opponent is free for a roll or a throw
+    },
+    substitutions: {
+      benchSize: 7,         // substitutes named in generated squads (5-7)
+      maxSubs: 5,           // changes allowed per team per match
+      aiFromMinute: 55,     // AI managers make tactical changes from this minute on
+      tiredRatio: 0.45,     // stamina share below which a player is due a rest
+      bookedFromMinute: 65, // AI withdraws players on a yellow from this minute on
+      injuryChance: 0.05    // chance a fouled player is injured and has to come off
+    },
+    tactics: {
+      chaseFromMinute: 70,       // a trailing AI team switches to chaseFormation from this minute on
+      chaseFormation: '3-4-3',
+      protectFromMinute: 80,     // a leading AI team switches to protectFormation from this minute on
+      protectFormation: '5-3-2'
+    },
     crowdIntensity: 0.5, // 0-1 influences momentum commentary
     penaltyAreaDepthM: 16.5,
-    xgTuning: { distanceScale: 250, angleScale: 1, pressureScale: 160 },
-    passUtilityWeights: { progress: 0.55, support: 0.25, risk: 0.20 }
+    // xG log-odds: lose 1 per distanceScale metres, gain angleScale per radian of goal mouth; a defender
+    // closer than pressureScale metres to the shooter lowers the chance (see engine/xg-model.ts)
+    xgTuning: { distanceScale: 14, angleScale: 2.6, pressureScale: 3 },
+    passUtilityWeights: { progress: 0.55, support: 0.25, risk: 0.20 } // pass choice: ground gained, space & free receiver, lane risk
   }
 };
\ No newline at end of file
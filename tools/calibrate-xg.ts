@@ -0,0 +1,59 @@
+/**
+ * xG calibration check: `npm run calibrate:xg -- [matches] [duration] [seed]`
+ * Scores the reference chances in XG_REFERENCES and fails (exit code 1) when one leaves its band,
+ * then plays a headless batch and compares the xG the engine handed out with the goals scored,
+ * per shot type and in xG buckets.
+ */
+import { TeamService } from '../src/app/services/team.service';
+import { simulateMatch } from '../src/app/engine/headless-runner';
+import { resolveSeed } from '../src/app/engine/seeded-random';
+import { shotOutcomes } from '../src/app/engine/match-analytics';
+import { XG_REFERENCES, checkXgCalibration, expectedGoals } from '../src/app/engine/xg-model';
+
+const args = process.argv.slice(2);
+const matches = Number(args[0] ?? 40);
+const duration = Number(args[1] ?? 90);
+const seed = resolveSeed(args[2] != null ? Number(args[2]) : null);
+
+console.log('Reference chances:');
+const failures = checkXgCalibration();
+XG_REFERENCES.forEach(ref => {
+  const xg = expectedGoals(ref.inputs);
+  const flag = failures.some(f => f.reference === ref) ? '  ✗ out of band' : '';
+  console.log(`  ${ref.name.padEnd(45)} ${xg.toFixed(3)}  [${ref.range[0].toFixed(2)}–${ref.range[1].toFixed(2)}]${flag}`);
+});
+
+// ---------- Simulated shots: xG handed out vs goals ----------
+const teams = new TeamService().generateRandomTeams(seed);
+const byType = new Map<string, { shots: number; xg: number; goals: number }>();
+const buckets = [0.05, 0.1, 0.2, 0.4, 1].map(upTo => ({ upTo, shots: 0, xg: 0, goals: 0 }));
+
+for (let i = 0; i < matches; i++) {
+  const home = teams[i % teams.length];
+  const away = teams[(i + 1 + Math.floor(i / teams.length)) % teams.length];
+  if (home === away) continue;
+  const result = simulateMatch(home, away, { duration, seed: seed + i });
+  shotOutcomes(result.events, home.name, away.name).forEach((outcome, e) => {
+    const goal = outcome === 'goal' ? 1 : 0;
+    const xg = e.xg ?? 0;
+    const type = byType.get(e.shotType ?? 'unknown') ?? { shots: 0, xg: 0, goals: 0 };
+    type.shots++; type.xg += xg; type.goals += goal;
+    byType.set(e.shotType ?? 'unknown', type);
+    const bucket = buckets.find(b => xg <= b.upTo)!;
+    bucket.shots++; bucket.xg += xg; bucket.goals += goal;
+  });
+}
+
+console.log(`\nSimulated shots (${matches} matches, ${duration}s, seed ${seed}):`);
+byType.forEach((t, type) => {
+  console.log(`  ${type.padEnd(10)} ${String(t.shots).padStart(5)} shots  xG ${t.xg.toFixed(1).padStart(6)}  goals ${String(t.goals).padStart(4)}`);
+});
+buckets.forEach((b, i) => {
+  const from = i ? buckets[i - 1].upTo : 0;
+  if (b.shots) console.log(`  xG ${from.toFixed(2)}–${b.upTo.toFixed(2)}: ${String(b.shots).padStart(5)} shots, mean xG ${(b.xg / b.shots).toFixed(3)}, scored ${(b.goals / b.shots).toFixed(3)}`);
+});
+
+if (failures.length) {
+  console.error(`\n${failures.length} reference chance(s) out of band – check gameSettings.xgTuning`);
+  process.exit(1);
+}
@@ -0,0 +1,33 @@
+/**
+ * Headless knockout cup: `npm run simulate:cup -- [teams] [duration] [seed]`
+ * Draws a bracket from the generated teams and plays it through to the final,
+ * with extra time and penalty shootouts deciding level ties.
+ */
+import { TeamService } from '../src/app/services/team.service';
+import { KnockoutCup } from '../src/app/engine/cup';
+import { resolveSeed } from '../src/app/engine/seeded-random';
+
+const teamCount = Number(process.argv[2] ?? 8);
+const duration = Number(process.argv[3] ?? 45);
+const seed = resolveSeed(process.argv[4] != null ? Number(process.argv[4]) : null);
+
+const teams = new TeamService().generateRandomTeams(seed).slice(0, Math.max(2, teamCount));
+const cup = new KnockoutCup(teams, { seed, duration });
+const started = Date.now();
+cup.simulateRemaining();
+
+const name = (id: string | null) => cup.team(id)?.name ?? 'TBD';
+console.log(`Cup seed ${seed} (${teams.length} teams)\n`);
+for (let round = 1; round <= cup.roundCount; round++) {
+  console.log(cup.roundName(round));
+  cup.tiesOf(round).forEach(t => {
+    if (t.bye) {
+      console.log(`  ${name(t.homeId).padEnd(24)} bye`);
+      return;
+    }
+    const r = t.result!;
+    const suffix = r.shootout ? ` (aet, ${r.shootout.home}-${r.shootout.away} pens)` : r.extraTime ? ' (aet)' : '';
+    console.log(`  ${name(t.homeId).padEnd(24)} ${r.home}-${r.away}  ${name(t.awayId)}${suffix}`);
+  });
+}
+console.log(`\n🏆 ${name(cup.championId)} – simulated in ${((Date.now() - started) / 1000).toFixed(1)}s`);
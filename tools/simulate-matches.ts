@@ -0,0 +1,73 @@
+/**
+ * Headless batch runner: `npm run simulate -- [matches] [duration] [seed] [weather] [--export=<dir>] [--trace-passes]`
+ * Plays fixtures between freshly generated teams without a browser and prints a summary.
+ * With a seed the whole batch is reproducible: teams come from the seed and match i uses seed + i.
+ * Weather (clear | rain | heat) sets the starting conditions of every match.
+ * --export writes every match to <dir> as full JSON, events / player / team sheet CSVs and StatsBomb-style JSON.
+ * --trace-passes prints every pass decision with the best-scored options (progress, support, risk).
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { TeamService } from '../src/app/services/team.service';
+import { simulateMatch } from '../src/app/engine/headless-runner';
+import { Weather } from '../src/app/engine/match-engine';
+import { resolveSeed } from '../src/app/engine/seeded-random';
+import { statsByPeriod } from '../src/app/engine/match-stats';
+import { shotOutcomes } from '../src/app/engine/match-analytics';
+import {
+  MatchExport, buildMatchExport, eventsCsv, playerStatsCsv, teamSheetsCsv, toStatsBombEvents
+} from '../src/app/engine/match-export';
+
+const args = process.argv.slice(2).filter(a => !a.startsWith('--'));
+const exportDir = process.argv.find(a => a.startsWith('--export='))?.slice('--export='.length);
+const tracePasses = process.argv.includes('--trace-passes');
+const matches = Number(args[0] ?? 10);
+const duration = Number(args[1] ?? 45);
+const seed = resolveSeed(args[2] != null ? Number(args[2]) : null);
+const weather = args[3] as Weather | undefined;
+if (weather && !['clear', 'rain', 'heat'].includes(weather)) {
+  console.error(`Unknown weather "${weather}" (expected clear, rain or heat)`);
+  process.exit(1);
+}
+
+/** Write one match in every export format, named after the fixture and its seed */
+function writeExport(dir: string, data: MatchExport): void {
+  const base = `match-${data.teams[0].name}-vs-${data.teams[1].name}-seed${data.seed ?? 'x'}`.replace(/\s+/g, '_');
+  const write = (suffix: string, content: string) => fs.writeFileSync(path.join(dir, base + suffix), content);
+  write('-export.json', JSON.stringify(data, null, 2));
+  write('-events.csv', eventsCsv(data.events));
+  write('-players.csv', playerStatsCsv(data.playerStats));
+  write('-teams.csv', teamSheetsCsv(data.teams));
+  write('-statsbomb.json', JSON.stringify(toStatsBombEvents(data), null, 2));
+}
+
+if (exportDir) fs.mkdirSync(exportDir, { recursive: true });
+
+const teams = new TeamService().generateRandomTeams(seed);
+const started = Date.now();
+let goals = 0;
+let shots = 0;
+let draws = 0;
+
+for (let i = 0; i < matches; i++) {
+  const home = teams[i % teams.length];
+  const away = teams[(i + 1 + Math.floor(i / teams.length)) % teams.length];
+  if (home === away) continue;
+  const log = tracePasses ? (message: string) => { if (message.startsWith('🧠')) console.log(message); } : undefined;
+  const result = simulateMatch(home, away, { duration, seed: seed + i, weather, log });
+  const { team1, team2 } = result.finalState.score;
+  goals += team1 + team2;
+  shots += shotOutcomes(result.events, home.name, away.name).size;
+  if (team1 === team2) draws++;
+  const [firstHalf] = statsByPeriod(result.events, home.name, away.name);
+  const ht = firstHalf ? `HT ${firstHalf.team1.goals}-${firstHalf.team2.goals}, ` : '';
+  const shift = result.events.find(e => e.type === 'weather_shift');
+  const conditions = shift ? `${result.finalState.weather} from ${shift.displayTime}, ` : '';
+  const cards = result.finalState.cards;
+  const discipline = cards ? `cards ${cards.team1.yellow}Y/${cards.team1.red}R-${cards.team2.yellow}Y/${cards.team2.red}R, ` : '';
+  console.log(`${home.name} ${team1} - ${team2} ${away.name} (${ht}${conditions}${discipline}seed ${result.seed}, ${result.events.length} events)`);
+  if (exportDir) writeExport(exportDir, buildMatchExport(result.team1, result.team2, result.finalState, duration));
+}
+
+const elapsed = (Date.now() - started) / 1000;
+console.log(`\nBatch seed ${seed}${weather ? ` (${weather})` : ''}: ${matches} matches in ${elapsed.toFixed(1)}s – ${(goals / Math.max(1, matches)).toFixed(2)} goals/match, ${(shots / Math.max(1, matches)).toFixed(1)} shots/match, ${draws} draws${exportDir ? ` – exported to ${exportDir}` : ''}`);
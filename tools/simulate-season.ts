@@ -0,0 +1,26 @@
+/**
+ * Headless league season: `npm run simulate:season -- [single|double] [duration] [seed]`
+ * Plays a full round-robin between the 12 generated teams and prints the final table,
+ * so tuning changes can be compared over a whole season instead of one match.
+ */
+import { TeamService } from '../src/app/services/team.service';
+import { LeagueSeason } from '../src/app/engine/league';
+import { resolveSeed } from '../src/app/engine/seeded-random';
+
+const double = process.argv[2] === 'double';
+const duration = Number(process.argv[3] ?? 45);
+const seed = resolveSeed(process.argv[4] != null ? Number(process.argv[4]) : null);
+
+const teams = new TeamService().generateRandomTeams(seed);
+const season = new LeagueSeason(teams, { double, seed, duration });
+const started = Date.now();
+season.simulateRemaining();
+
+const pad = (v: string | number, n: number) => String(v).padStart(n);
+console.log(`Season seed ${seed} (${double ? 'double' : 'single'} round-robin, ${season.fixtures.length} fixtures)\n`);
+console.log(`${'#'.padStart(2)}  ${'Team'.padEnd(24)}  P   W   D   L  GF  GA  GD  Pts`);
+season.standings().forEach((r, i) => {
+  console.log(`${pad(i + 1, 2)}  ${r.name.padEnd(24)} ${pad(r.played, 2)} ${pad(r.won, 3)} ${pad(r.drawn, 3)} ${pad(r.lost, 3)} ${pad(r.goalsFor, 3)} ${pad(r.goalsAgainst, 3)} ${pad(r.goalDifference, 3)} ${pad(r.points, 4)}`);
+});
+const goals = season.fixtures.reduce((sum, f) => sum + (f.result ? f.result.home + f.result.away : 0), 0);
+console.log(`\n${(goals / season.fixtures.length).toFixed(2)} goals/match – simulated in ${((Date.now() - started) / 1000).toFixed(1)}s`);